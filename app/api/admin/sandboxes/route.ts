@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server'
+import { getCurrentUser, isAdmin } from '@/lib/auth/session'
+import { getLiveSandboxes, reapSandboxes } from '@/lib/sandbox/sandbox-registry'
+
+export async function GET() {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (!isAdmin(user)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const sandboxes = await getLiveSandboxes()
+
+    return NextResponse.json({ sandboxes })
+  } catch (error) {
+    console.error('Error fetching sandboxes:', error)
+    return NextResponse.json({ error: 'Failed to fetch sandboxes' }, { status: 500 })
+  }
+}
+
+// Stop sandboxes whose task has already finished, failed, been stopped or been deleted
+export async function POST() {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (!isAdmin(user)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const result = await reapSandboxes()
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Error reaping sandboxes:', error)
+    return NextResponse.json({ error: 'Failed to reap sandboxes' }, { status: 500 })
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getCurrentUser } from '@/lib/auth/session'
+import { isApiKeyProvider } from '@/lib/keys/providers'
+import { deleteApiKey } from '@/lib/keys/vault'
+
+interface RouteParams {
+  params: Promise<{
+    provider: string
+  }>
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { provider } = await params
+    if (!isApiKeyProvider(provider)) {
+      return NextResponse.json({ error: 'Unknown provider' }, { status: 400 })
+    }
+
+    const deleted = await deleteApiKey(user.id, provider)
+    if (!deleted) {
+      return NextResponse.json({ error: 'API key not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting API key:', error)
+    return NextResponse.json({ error: 'Failed to delete API key' }, { status: 500 })
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getCurrentUser } from '@/lib/auth/session'
+import { isEncryptionConfigured } from '@/lib/keys/encryption'
+import { API_KEY_PROVIDER_VALUES } from '@/lib/keys/providers'
+import { listApiKeys, saveApiKey } from '@/lib/keys/vault'
+
+const saveApiKeySchema = z.object({
+  provider: z.enum(API_KEY_PROVIDER_VALUES),
+  value: z.string().trim().min(1, 'API key is required'),
+})
+
+export async function GET() {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const keys = await listApiKeys(user.id)
+
+    return NextResponse.json({ keys, encryptionConfigured: isEncryptionConfigured() })
+  } catch (error) {
+    console.error('Error fetching API keys:', error)
+    return NextResponse.json({ error: 'Failed to fetch API keys' }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!isEncryptionConfigured()) {
+      return NextResponse.json({ error: 'ENCRYPTION_KEY is not configured on the server' }, { status: 503 })
+    }
+
+    const parsed = saveApiKeySchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.issues[0]?.message || 'Invalid request' }, { status: 400 })
+    }
+
+    const key = await saveApiKey(user.id, parsed.data.provider, parsed.data.value)
+
+    return NextResponse.json({ key })
+  } catch (error) {
+    console.error('Error saving API key:', error)
+    return NextResponse.json({ error: 'Failed to save API key' }, { status: 500 })
+  }
+}
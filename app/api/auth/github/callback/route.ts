@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { exchangeCodeForToken, fetchGitHubProfile } from '@/lib/auth/github-oauth'
+import { createSession, upsertGitHubUser, OAUTH_STATE_COOKIE } from '@/lib/auth/session'
+
+function redirectWithError(request: NextRequest, error: string) {
+  const url = new URL('/', request.nextUrl.origin)
+  url.searchParams.set('auth_error', error)
+  return NextResponse.redirect(url)
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const code = request.nextUrl.searchParams.get('code')
+    const state = request.nextUrl.searchParams.get('state')
+    const expectedState = request.cookies.get(OAUTH_STATE_COOKIE)?.value
+
+    if (!code || !state || !expectedState || state !== expectedState) {
+      return redirectWithError(request, 'Sign-in expired or was tampered with, please try again')
+    }
+
+    const redirectUri = `${request.nextUrl.origin}/api/auth/github/callback`
+    const tokenResult = await exchangeCodeForToken(code, redirectUri)
+    if (!tokenResult.success) {
+      console.error('Error exchanging GitHub OAuth code:', tokenResult.error)
+      return redirectWithError(request, 'GitHub sign-in failed')
+    }
+
+    const profile = await fetchGitHubProfile(tokenResult.accessToken!)
+    if (!profile) {
+      return redirectWithError(request, 'Failed to load your GitHub profile')
+    }
+
+    const user = await upsertGitHubUser(profile, tokenResult.accessToken!)
+    await createSession(user.id)
+
+    const response = NextResponse.redirect(new URL('/', request.nextUrl.origin))
+    response.cookies.delete(OAUTH_STATE_COOKIE)
+    return response
+  } catch (error) {
+    console.error('Error completing GitHub sign-in:', error)
+    return redirectWithError(request, 'GitHub sign-in failed')
+  }
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getGitHubAuthorizeUrl, isGitHubOAuthConfigured } from '@/lib/auth/github-oauth'
+import { createRandomToken, OAUTH_STATE_COOKIE } from '@/lib/auth/session'
+
+export async function GET(request: NextRequest) {
+  if (!isGitHubOAuthConfigured()) {
+    return NextResponse.json({ error: 'GitHub OAuth is not configured' }, { status: 500 })
+  }
+
+  // The state round-trips through GitHub and must match the cookie on the way back
+  const state = createRandomToken()
+  const redirectUri = `${request.nextUrl.origin}/api/auth/github/callback`
+
+  const response = NextResponse.redirect(getGitHubAuthorizeUrl(state, redirectUri))
+  response.cookies.set(OAUTH_STATE_COOKIE, state, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/api/auth/github',
+    maxAge: 10 * 60,
+  })
+  return response
+}
@@ -0,0 +1,12 @@
+import { NextResponse } from 'next/server'
+import { deleteSession } from '@/lib/auth/session'
+
+export async function POST() {
+  try {
+    await deleteSession()
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error signing out:', error)
+    return NextResponse.json({ error: 'Failed to sign out' }, { status: 500 })
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getCurrentUser } from '@/lib/auth/session'
+import { getGitProvider, getGitToken } from '@/lib/git-providers'
+import { GIT_PROVIDER_LABELS, isGitProviderType } from '@/lib/git-providers/definitions'
+
+interface RouteParams {
+  params: Promise<{
+    provider: string
+  }>
+}
+
+// The user's own account first, then the organizations or groups they belong to
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { provider: providerType } = await params
+    const provider = isGitProviderType(providerType) ? getGitProvider(providerType) : null
+    if (!provider) {
+      return NextResponse.json({ error: 'Git provider not found' }, { status: 404 })
+    }
+
+    const token = await getGitToken(provider, user)
+    if (!token) {
+      return NextResponse.json(
+        { error: `Add a ${GIT_PROVIDER_LABELS[provider.type]} access token under API Keys first` },
+        { status: 400 },
+      )
+    }
+
+    return NextResponse.json(await provider.listOwners(token))
+  } catch (error) {
+    console.error('Error fetching repository owners:', error)
+    return NextResponse.json({ error: 'Failed to fetch owners' }, { status: 500 })
+  }
+}
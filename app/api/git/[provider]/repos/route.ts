@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getCurrentUser } from '@/lib/auth/session'
+import { getGitProvider, getGitToken } from '@/lib/git-providers'
+import { GIT_PROVIDER_LABELS, isGitProviderType } from '@/lib/git-providers/definitions'
+
+interface RouteParams {
+  params: Promise<{
+    provider: string
+  }>
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { provider: providerType } = await params
+    const provider = isGitProviderType(providerType) ? getGitProvider(providerType) : null
+    if (!provider) {
+      return NextResponse.json({ error: 'Git provider not found' }, { status: 404 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const owner = searchParams.get('owner')
+
+    if (!owner) {
+      return NextResponse.json({ error: 'Owner parameter is required' }, { status: 400 })
+    }
+
+    const token = await getGitToken(provider, user)
+    if (!token) {
+      return NextResponse.json(
+        { error: `Add a ${GIT_PROVIDER_LABELS[provider.type]} access token under API Keys first` },
+        { status: 400 },
+      )
+    }
+
+    const repos = await provider.listRepositories(owner, token)
+
+    // Remove duplicates based on full_name (owner/repo)
+    const uniqueRepos = repos.filter(
+      (repo, index, self) => index === self.findIndex((r) => r.full_name === repo.full_name),
+    )
+
+    // Sort alphabetically by name (host API sorting might not be perfect)
+    uniqueRepos.sort((a, b) => a.name.toLowerCase().localeCompare(b.name.toLowerCase()))
+
+    return NextResponse.json(uniqueRepos)
+  } catch (error) {
+    console.error('Error fetching repositories:', error)
+    return NextResponse.json({ error: 'Failed to fetch repositories' }, { status: 500 })
+  }
+}
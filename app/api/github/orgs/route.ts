@@ -1,39 +0,0 @@
-import { NextResponse } from 'next/server'
-
-export async function GET() {
-  try {
-    if (!process.env.GITHUB_TOKEN) {
-      return NextResponse.json({ error: 'GitHub token not configured' }, { status: 500 })
-    }
-
-    const response = await fetch('https://api.github.com/user/orgs', {
-      headers: {
-        Authorization: `Bearer ${process.env.GITHUB_TOKEN}`,
-        Accept: 'application/vnd.github.v3+json',
-      },
-    })
-
-    if (!response.ok) {
-      throw new Error(`GitHub API error: ${response.status}`)
-    }
-
-    const orgs = await response.json()
-
-    interface GitHubOrg {
-      login: string
-      name?: string
-      avatar_url: string
-    }
-
-    return NextResponse.json(
-      (orgs as GitHubOrg[]).map((org) => ({
-        login: org.login,
-        name: org.name || org.login,
-        avatar_url: org.avatar_url,
-      })),
-    )
-  } catch (error) {
-    console.error('Error fetching GitHub organizations:', error)
-    return NextResponse.json({ error: 'Failed to fetch organizations' }, { status: 500 })
-  }
-}
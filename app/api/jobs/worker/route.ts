@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { runWorker } from '@/lib/jobs/worker'
+
+export const dynamic = 'force-dynamic'
+// Long enough for a worker to run the tasks it claims
+export const maxDuration = 800
+
+// Invoked by Vercel Cron, which sends CRON_SECRET as a bearer token
+export async function GET(request: NextRequest) {
+  try {
+    const secret = process.env.CRON_SECRET
+    if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const result = await runWorker()
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Error running job worker:', error)
+    return NextResponse.json({ error: 'Failed to run job worker' }, { status: 500 })
+  }
+}
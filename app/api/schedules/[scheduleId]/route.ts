@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { eq } from 'drizzle-orm'
+import { db } from '@/lib/db/client'
+import { schedules, updateScheduleSchema } from '@/lib/db/schema'
+import { getCurrentUser } from '@/lib/auth/session'
+import { getNextRunAt, getScheduleRuns, getUserSchedule, validateCron } from '@/lib/schedules'
+import { validateTaskDuration } from '@/lib/jobs/queue'
+
+interface RouteParams {
+  params: Promise<{
+    scheduleId: string
+  }>
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { scheduleId } = await params
+    const schedule = await getUserSchedule(scheduleId, user.id)
+    if (!schedule) {
+      return NextResponse.json({ error: 'Schedule not found' }, { status: 404 })
+    }
+
+    const runs = await getScheduleRuns(scheduleId)
+    return NextResponse.json({ schedule: { ...schedule, runs } })
+  } catch (error) {
+    console.error('Error fetching schedule:', error)
+    return NextResponse.json({ error: 'Failed to fetch schedule' }, { status: 500 })
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { scheduleId } = await params
+    const existing = await getUserSchedule(scheduleId, user.id)
+    if (!existing) {
+      return NextResponse.json({ error: 'Schedule not found' }, { status: 404 })
+    }
+
+    const parsed = updateScheduleSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.issues[0]?.message || 'Invalid request' }, { status: 400 })
+    }
+
+    const cron = parsed.data.cron ?? existing.cron
+    const timezone = parsed.data.timezone ?? existing.timezone
+    const cronError = validateCron(cron, timezone)
+    if (cronError) {
+      return NextResponse.json({ error: cronError }, { status: 400 })
+    }
+
+    const durationError = parsed.data.maxDuration ? validateTaskDuration(parsed.data.maxDuration) : null
+    if (durationError) {
+      return NextResponse.json({ error: durationError }, { status: 400 })
+    }
+
+    // Counted from now, so a resumed schedule does not fire for the runs it missed while paused
+    const [schedule] = await db
+      .update(schedules)
+      .set({ ...parsed.data, nextRunAt: getNextRunAt(cron, timezone), updatedAt: new Date() })
+      .where(eq(schedules.id, scheduleId))
+      .returning()
+
+    const runs = await getScheduleRuns(scheduleId)
+    return NextResponse.json({ schedule: { ...schedule, runs } })
+  } catch (error) {
+    console.error('Error updating schedule:', error)
+    return NextResponse.json({ error: 'Failed to update schedule' }, { status: 500 })
+  }
+}
+
+// Past runs stay as ordinary tasks
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { scheduleId } = await params
+    const schedule = await getUserSchedule(scheduleId, user.id)
+    if (!schedule) {
+      return NextResponse.json({ error: 'Schedule not found' }, { status: 404 })
+    }
+
+    await db.delete(schedules).where(eq(schedules.id, scheduleId))
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting schedule:', error)
+    return NextResponse.json({ error: 'Failed to delete schedule' }, { status: 500 })
+  }
+}
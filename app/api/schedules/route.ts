@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { desc, eq } from 'drizzle-orm'
+import { db } from '@/lib/db/client'
+import { schedules, insertScheduleSchema } from '@/lib/db/schema'
+import { generateId } from '@/lib/utils/id'
+import { getCurrentUser } from '@/lib/auth/session'
+import { getNextRunAt, getScheduleRuns, validateCron } from '@/lib/schedules'
+import { validateTaskDuration } from '@/lib/jobs/queue'
+
+export async function GET() {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const userSchedules = await db
+      .select()
+      .from(schedules)
+      .where(eq(schedules.userId, user.id))
+      .orderBy(desc(schedules.createdAt))
+    const runs = await Promise.all(userSchedules.map((schedule) => getScheduleRuns(schedule.id)))
+
+    return NextResponse.json({
+      schedules: userSchedules.map((schedule, index) => ({ ...schedule, runs: runs[index] })),
+    })
+  } catch (error) {
+    console.error('Error fetching schedules:', error)
+    return NextResponse.json({ error: 'Failed to fetch schedules' }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const parsed = insertScheduleSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.issues[0]?.message || 'Invalid request' }, { status: 400 })
+    }
+
+    const timezone = parsed.data.timezone || 'UTC'
+    const cronError = validateCron(parsed.data.cron, timezone)
+    if (cronError) {
+      return NextResponse.json({ error: cronError }, { status: 400 })
+    }
+
+    const durationError = validateTaskDuration(parsed.data.maxDuration ?? 5)
+    if (durationError) {
+      return NextResponse.json({ error: durationError }, { status: 400 })
+    }
+
+    const [schedule] = await db
+      .insert(schedules)
+      .values({
+        ...parsed.data,
+        id: generateId(12),
+        userId: user.id,
+        timezone,
+        nextRunAt: getNextRunAt(parsed.data.cron, timezone),
+      })
+      .returning()
+
+    return NextResponse.json({ schedule: { ...schedule, runs: [] } })
+  } catch (error) {
+    console.error('Error creating schedule:', error)
+    return NextResponse.json({ error: 'Failed to create schedule' }, { status: 500 })
+  }
+}
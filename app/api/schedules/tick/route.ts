@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse, after } from 'next/server'
+import { runWorker } from '@/lib/jobs/worker'
+import { runDueSchedules } from '@/lib/schedules'
+
+export const dynamic = 'force-dynamic'
+// Workers started after the response run within this function's duration
+export const maxDuration = 800
+
+// Invoked by Vercel Cron every minute, which sends CRON_SECRET as a bearer token
+export async function GET(request: NextRequest) {
+  try {
+    const secret = process.env.CRON_SECRET
+    if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const result = await runDueSchedules()
+    if (result.started > 0) {
+      after(() => runWorker())
+    }
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Error running schedules:', error)
+    return NextResponse.json({ error: 'Failed to run schedules' }, { status: 500 })
+  }
+}
@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { eq } from 'drizzle-orm'
+import { db } from '@/lib/db/client'
+import { tasks } from '@/lib/db/schema'
+import { getComparisonRuns, getComparisonTasks } from '@/lib/tasks/comparisons'
+import { getTaskMessages } from '@/lib/tasks/messages'
+import { openPullRequestForTask } from '@/lib/tasks/processor'
+import { createTaskLogger } from '@/lib/utils/task-logger'
+import { getCurrentUser } from '@/lib/auth/session'
+import { resolveGitToken } from '@/lib/git-providers'
+import { getUserTask } from '@/lib/tasks/access'
+
+interface RouteParams {
+  params: Promise<{
+    taskId: string
+  }>
+}
+
+const pickWinnerSchema = z.object({
+  runId: z.string().min(1),
+})
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { taskId } = await params
+    const task = await getUserTask(taskId, user.id)
+
+    if (!task || !task.comparisonAgents) {
+      return NextResponse.json({ error: 'Comparison not found' }, { status: 404 })
+    }
+
+    const runs = await getComparisonRuns(taskId, user.id)
+
+    return NextResponse.json({ runs })
+  } catch (error) {
+    console.error('Error fetching comparison:', error)
+    return NextResponse.json({ error: 'Failed to fetch comparison' }, { status: 500 })
+  }
+}
+
+// Open the pull request from the picked run's branch
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { taskId } = await params
+    const task = await getUserTask(taskId, user.id)
+
+    if (!task || !task.comparisonAgents) {
+      return NextResponse.json({ error: 'Comparison not found' }, { status: 404 })
+    }
+
+    const parsed = pickWinnerSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'runId is required' }, { status: 400 })
+    }
+
+    const runs = await getComparisonTasks(taskId, user.id)
+    if (runs.some((run) => run.prUrl)) {
+      return NextResponse.json({ error: 'A pull request was already opened for this comparison' }, { status: 409 })
+    }
+
+    const winner = runs.find((run) => run.id === parsed.data.runId)
+    if (!winner) {
+      return NextResponse.json({ error: 'Run not found in this comparison' }, { status: 404 })
+    }
+
+    if (winner.status !== 'completed' || !winner.branchName) {
+      return NextResponse.json({ error: 'Only completed runs can be picked' }, { status: 400 })
+    }
+
+    const messages = await getTaskMessages(winner.id)
+    const agentSummary = messages.findLast((message) => message.role === 'agent')?.content
+
+    await openPullRequestForTask(
+      winner.id,
+      winner.branchName,
+      winner.prompt,
+      agentSummary,
+      winner.selectedAgent || 'claude',
+      await resolveGitToken(winner.repoUrl || '', user),
+      createTaskLogger(winner.id),
+    )
+
+    const [updatedRun] = await db.select().from(tasks).where(eq(tasks.id, winner.id)).limit(1)
+    if (!updatedRun?.prUrl) {
+      return NextResponse.json({ error: 'Failed to create pull request' }, { status: 502 })
+    }
+
+    // The comparison links to the winning pull request so it shows in the task list
+    const [updatedTask] = await db
+      .update(tasks)
+      .set({
+        prNumber: updatedRun.prNumber,
+        prUrl: updatedRun.prUrl,
+        prState: updatedRun.prState,
+        updatedAt: new Date(),
+      })
+      .where(eq(tasks.id, taskId))
+      .returning()
+
+    await createTaskLogger(taskId).success(`Picked ${winner.selectedAgent} and opened ${updatedRun.prUrl}`)
+
+    return NextResponse.json({ task: updatedTask, run: updatedRun })
+  } catch (error) {
+    console.error('Error picking comparison winner:', error)
+    return NextResponse.json({ error: 'Failed to open pull request' }, { status: 500 })
+  }
+}
@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse, after } from 'next/server'
+import { z } from 'zod'
+import { eq } from 'drizzle-orm'
+import { db } from '@/lib/db/client'
+import { tasks } from '@/lib/db/schema'
+import { AGENT_TYPES, isAgentType } from '@/lib/sandbox/agents/definitions'
+import { enqueueTaskJob, validateTaskDuration } from '@/lib/jobs/queue'
+import { runWorker } from '@/lib/jobs/worker'
+import { addTaskMessage, buildFollowUpInstruction, getTaskMessages } from '@/lib/tasks/messages'
+import { createTaskLogger } from '@/lib/utils/task-logger'
+import { getCurrentUser } from '@/lib/auth/session'
+import { getUserTask } from '@/lib/tasks/access'
+
+// Workers started after the response run within this function's duration
+export const maxDuration = 800
+
+interface RouteParams {
+  params: Promise<{
+    taskId: string
+  }>
+}
+
+const continueTaskSchema = z.object({
+  prompt: z.string().min(1, 'Prompt is required'),
+  selectedAgent: z.enum(AGENT_TYPES).optional(),
+  selectedModel: z.string().optional(),
+})
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { taskId } = await params
+    const parsed = continueTaskSchema.safeParse(await request.json())
+
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.issues[0]?.message || 'Invalid request' }, { status: 400 })
+    }
+
+    const existingTask = await getUserTask(taskId, user.id)
+
+    if (!existingTask) {
+      return NextResponse.json({ error: 'Task not found' }, { status: 404 })
+    }
+
+    // Only finished tasks can be continued
+    if (existingTask.status === 'pending' || existingTask.status === 'processing') {
+      return NextResponse.json({ error: 'Task is still running' }, { status: 400 })
+    }
+
+    if (!existingTask.branchName || !existingTask.repoUrl) {
+      return NextResponse.json({ error: 'Task has no branch to continue from' }, { status: 400 })
+    }
+
+    const durationError = validateTaskDuration(existingTask.maxDuration || 5)
+    if (durationError) {
+      return NextResponse.json({ error: durationError }, { status: 400 })
+    }
+
+    const { prompt } = parsed.data
+    const selectedAgent = parsed.data.selectedAgent || existingTask.selectedAgent || 'claude'
+    const selectedModel =
+      parsed.data.selectedModel || (parsed.data.selectedAgent ? undefined : existingTask.selectedModel)
+
+    // Earlier turns are summarized for the agent, since the new sandbox only has the branch
+    const history = await getTaskMessages(taskId)
+    const message = await addTaskMessage({
+      taskId,
+      role: 'user',
+      content: prompt,
+      selectedAgent: isAgentType(selectedAgent) ? selectedAgent : undefined,
+      selectedModel: selectedModel || undefined,
+    })
+
+    // Reset the task for the new turn
+    const [updatedTask] = await db
+      .update(tasks)
+      .set({
+        status: 'pending',
+        progress: 0,
+        error: null,
+        timeoutPhase: null,
+        selectedAgent,
+        selectedModel,
+        updatedAt: new Date(),
+        completedAt: null,
+      })
+      .where(eq(tasks.id, taskId))
+      .returning()
+
+    const logger = createTaskLogger(taskId)
+    await logger.info(`Follow-up received: ${prompt}`)
+
+    // Queue the follow-up durably, then start a worker right away rather than waiting for the cron
+    await enqueueTaskJob({
+      taskId,
+      userId: user.id,
+      prompt,
+      instruction: buildFollowUpInstruction(history, prompt),
+      repoUrl: existingTask.repoUrl,
+      selectedAgent,
+      selectedModel: selectedModel || undefined,
+      installDependencies: existingTask.installDependencies || false,
+      maxDuration: existingTask.maxDuration || 5,
+      existingBranchName: existingTask.branchName,
+      targetPackage: existingTask.targetPackage || undefined,
+      fallbackChain: existingTask.fallbackChain || undefined,
+      maxRepairRounds: existingTask.maxRepairRounds || 0,
+    })
+    after(() => runWorker())
+
+    return NextResponse.json({ task: updatedTask, message })
+  } catch (error) {
+    console.error('Error continuing task:', error)
+    return NextResponse.json({ error: 'Failed to continue task' }, { status: 500 })
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getDiffArtifacts } from '@/lib/tasks/artifacts'
+import { getCurrentUser } from '@/lib/auth/session'
+import { getUserTask } from '@/lib/tasks/access'
+
+interface RouteParams {
+  params: Promise<{
+    taskId: string
+  }>
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { taskId } = await params
+    const task = await getUserTask(taskId, user.id)
+
+    if (!task) {
+      return NextResponse.json({ error: 'Task not found' }, { status: 404 })
+    }
+
+    const diffs = await getDiffArtifacts(taskId)
+
+    return NextResponse.json({ diffs })
+  } catch (error) {
+    console.error('Error fetching task diff:', error)
+    return NextResponse.json({ error: 'Failed to fetch task diff' }, { status: 500 })
+  }
+}
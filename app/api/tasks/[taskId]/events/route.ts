@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createTaskEventStream } from '@/lib/tasks/events'
+import { getCurrentUser } from '@/lib/auth/session'
+import { getUserTask } from '@/lib/tasks/access'
+
+export const dynamic = 'force-dynamic'
+export const maxDuration = 300
+
+interface RouteParams {
+  params: Promise<{
+    taskId: string
+  }>
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { taskId } = await params
+    const task = await getUserTask(taskId, user.id)
+
+    if (!task) {
+      return NextResponse.json({ error: 'Task not found' }, { status: 404 })
+    }
+
+    // EventSource sends Last-Event-ID on reconnect, the cursor param covers the first connection
+    const cursorParam = request.headers.get('last-event-id') ?? request.nextUrl.searchParams.get('cursor')
+    const cursor = Math.max(0, parseInt(cursorParam || '0', 10) || 0)
+
+    return new Response(createTaskEventStream(taskId, cursor, request.signal), {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+        'X-Accel-Buffering': 'no',
+      },
+    })
+  } catch (error) {
+    console.error('Error opening task event stream:', error)
+    return NextResponse.json({ error: 'Failed to stream task events' }, { status: 500 })
+  }
+}
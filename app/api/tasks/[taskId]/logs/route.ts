@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getTaskLogs } from '@/lib/tasks/logs'
+import { getCurrentUser } from '@/lib/auth/session'
+import { getUserTask } from '@/lib/tasks/access'
+
+interface RouteParams {
+  params: Promise<{
+    taskId: string
+  }>
+}
+
+function parseCursor(value: string | null): number | undefined {
+  if (value === null) return undefined
+  const cursor = parseInt(value, 10)
+  return isNaN(cursor) || cursor < 0 ? undefined : cursor
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { taskId } = await params
+    const task = await getUserTask(taskId, user.id)
+
+    if (!task) {
+      return NextResponse.json({ error: 'Task not found' }, { status: 404 })
+    }
+
+    const { searchParams } = request.nextUrl
+    const page = await getTaskLogs(taskId, {
+      after: parseCursor(searchParams.get('after')),
+      before: parseCursor(searchParams.get('before')),
+      limit: parseCursor(searchParams.get('limit')),
+    })
+
+    return NextResponse.json(page)
+  } catch (error) {
+    console.error('Error fetching task logs:', error)
+    return NextResponse.json({ error: 'Failed to fetch task logs' }, { status: 500 })
+  }
+}
@@ -1,9 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { db } from '@/lib/db/client'
-import { tasks } from '@/lib/db/schema'
+import { tasks, Task } from '@/lib/db/schema'
 import { eq } from 'drizzle-orm'
 import { createTaskLogger } from '@/lib/utils/task-logger'
 import { killSandbox } from '@/lib/sandbox/sandbox-registry'
+import { getTaskMessages } from '@/lib/tasks/messages'
+import { getTaskAttempts } from '@/lib/tasks/attempts'
+import { getTaskChecks } from '@/lib/tasks/checks'
+import { getComparisonTasks } from '@/lib/tasks/comparisons'
+import { getCurrentUser } from '@/lib/auth/session'
+import { getUserTask } from '@/lib/tasks/access'
+import { syncIssueCommentForTask } from '@/lib/webhooks/github'
 
 interface RouteParams {
   params: Promise<{
@@ -13,27 +20,80 @@ interface RouteParams {
 
 export async function GET(request: NextRequest, { params }: RouteParams) {
   try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
     const { taskId } = await params
-    const task = await db.select().from(tasks).where(eq(tasks.id, taskId)).limit(1)
+    const task = await getUserTask(taskId, user.id)
 
-    if (!task[0]) {
+    if (!task) {
       return NextResponse.json({ error: 'Task not found' }, { status: 404 })
     }
 
-    return NextResponse.json({ task: task[0] })
+    const [messages, attempts, checks] = await Promise.all([
+      getTaskMessages(taskId),
+      getTaskAttempts(taskId),
+      getTaskChecks(taskId),
+    ])
+
+    return NextResponse.json({ task, messages, attempts, checks })
   } catch (error) {
     console.error('Error fetching task:', error)
     return NextResponse.json({ error: 'Failed to fetch task' }, { status: 500 })
   }
 }
 
+// Helper function to mark a task as stopped and kill its sandbox
+async function stopTask(taskId: string): Promise<Task> {
+  const logger = createTaskLogger(taskId)
+
+  // Log the stop request
+  await logger.info('Stop request received - terminating task execution...')
+
+  // Update task status to stopped
+  const [updatedTask] = await db
+    .update(tasks)
+    .set({
+      status: 'stopped',
+      error: 'Task was stopped by user',
+      updatedAt: new Date(),
+      completedAt: new Date(),
+    })
+    .where(eq(tasks.id, taskId))
+    .returning()
+  await syncIssueCommentForTask(taskId).catch((error) => console.error('Error syncing issue comment:', error))
+
+  // Kill the sandbox immediately and aggressively
+  try {
+    const killResult = await killSandbox(taskId)
+    if (killResult.success) {
+      await logger.success('Sandbox killed successfully')
+    } else {
+      await logger.error(`Failed to kill sandbox: ${killResult.error}`)
+    }
+  } catch (killError) {
+    console.error('Failed to kill sandbox during stop:', killError)
+    await logger.error('Failed to kill sandbox during stop')
+  }
+
+  await logger.error('Task execution stopped by user')
+  return updatedTask
+}
+
 export async function PATCH(request: NextRequest, { params }: RouteParams) {
   try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
     const { taskId } = await params
     const body = await request.json()
 
     // Check if task exists first
-    const [existingTask] = await db.select().from(tasks).where(eq(tasks.id, taskId)).limit(1)
+    const existingTask = await getUserTask(taskId, user.id)
 
     if (!existingTask) {
       return NextResponse.json({ error: 'Task not found' }, { status: 404 })
@@ -49,36 +109,18 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
       const logger = createTaskLogger(taskId)
 
       try {
-        // Log the stop request
-        await logger.info('Stop request received - terminating task execution...')
-
-        // Update task status to stopped
-        const [updatedTask] = await db
-          .update(tasks)
-          .set({
-            status: 'stopped',
-            error: 'Task was stopped by user',
-            updatedAt: new Date(),
-            completedAt: new Date(),
-          })
-          .where(eq(tasks.id, taskId))
-          .returning()
-
-        // Kill the sandbox immediately and aggressively
-        try {
-          const killResult = await killSandbox(taskId)
-          if (killResult.success) {
-            await logger.success('Sandbox killed successfully')
-          } else {
-            await logger.error(`Failed to kill sandbox: ${killResult.error}`)
+        const updatedTask = await stopTask(taskId)
+
+        // Stopping a comparison stops every run that has not finished
+        if (existingTask.comparisonAgents) {
+          const runs = await getComparisonTasks(taskId, user.id)
+          for (const run of runs) {
+            if (run.status === 'pending' || run.status === 'processing') {
+              await stopTask(run.id)
+            }
           }
-        } catch (killError) {
-          console.error('Failed to kill sandbox during stop:', killError)
-          await logger.error('Failed to kill sandbox during stop')
         }
 
-        await logger.error('Task execution stopped by user')
-
         return NextResponse.json({
           message: 'Task stopped successfully',
           task: updatedTask,
@@ -99,12 +141,17 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
 
 export async function DELETE(request: NextRequest, { params }: RouteParams) {
   try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
     const { taskId } = await params
 
     // Check if task exists first
-    const existingTask = await db.select().from(tasks).where(eq(tasks.id, taskId)).limit(1)
+    const existingTask = await getUserTask(taskId, user.id)
 
-    if (!existingTask[0]) {
+    if (!existingTask) {
       return NextResponse.json({ error: 'Task not found' }, { status: 404 })
     }
 
@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse, after } from 'next/server'
+import { z } from 'zod'
+import { db } from '@/lib/db/client'
+import { tasks, insertTaskSchema } from '@/lib/db/schema'
+import { generateId } from '@/lib/utils/id'
+import { createFallbackBranchName } from '@/lib/utils/branch-name-generator'
+import { createTaskLogger } from '@/lib/utils/task-logger'
+import { enqueueTaskJob, validateTaskDuration } from '@/lib/jobs/queue'
+import { runWorker } from '@/lib/jobs/worker'
+import { addTaskMessage } from '@/lib/tasks/messages'
+import { getCurrentUser } from '@/lib/auth/session'
+import { findGitProvider } from '@/lib/git-providers'
+
+// Workers started after the response run within this function's duration
+export const maxDuration = 800
+
+const compareTaskSchema = insertTaskSchema
+  .pick({
+    id: true,
+    prompt: true,
+    installDependencies: true,
+    maxDuration: true,
+    baseBranch: true,
+    targetPackage: true,
+    prDraft: true,
+    prLabels: true,
+    prReviewers: true,
+    maxRepairRounds: true,
+  })
+  .extend({
+    repoUrl: z.string().url('Must be a valid URL'),
+    comparisonAgents: insertTaskSchema.shape.comparisonAgents.unwrap(),
+  })
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const parsed = compareTaskSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.issues[0]?.message || 'Invalid request' }, { status: 400 })
+    }
+    const durationError = validateTaskDuration(parsed.data.maxDuration)
+    if (durationError) {
+      return NextResponse.json({ error: durationError }, { status: 400 })
+    }
+
+    const { comparisonAgents, ...taskOptions } = parsed.data
+    const options = { ...taskOptions, gitProvider: findGitProvider(taskOptions.repoUrl)?.type }
+    const parentId = options.id || generateId(12)
+
+    // The comparison's own task groups the runs; it never runs an agent itself
+    const [parentTask] = await db
+      .insert(tasks)
+      .values({
+        ...options,
+        id: parentId,
+        userId: user.id,
+        selectedAgent: null,
+        comparisonAgents,
+        status: 'processing',
+      })
+      .returning()
+
+    const logger = createTaskLogger(parentId)
+    await logger.info(`Comparing ${comparisonAgents.map((choice) => choice.agent).join(', ')}`)
+
+    // Each run gets its own sandbox and branch, and stays out of the task list
+    const runs = []
+    for (const choice of comparisonAgents) {
+      const runId = generateId(12)
+      const [run] = await db
+        .insert(tasks)
+        .values({
+          ...options,
+          id: runId,
+          userId: user.id,
+          parentTaskId: parentId,
+          selectedAgent: choice.agent,
+          selectedModel: choice.model,
+          branchName: createFallbackBranchName(runId),
+        })
+        .returning()
+      runs.push(run)
+
+      await addTaskMessage({
+        taskId: runId,
+        role: 'user',
+        content: options.prompt,
+        selectedAgent: choice.agent,
+        selectedModel: choice.model,
+      })
+
+      await enqueueTaskJob({
+        taskId: runId,
+        userId: user.id,
+        prompt: options.prompt,
+        repoUrl: options.repoUrl,
+        selectedAgent: choice.agent,
+        selectedModel: choice.model,
+        installDependencies: options.installDependencies,
+        maxDuration: options.maxDuration,
+        baseBranch: options.baseBranch,
+        targetPackage: options.targetPackage,
+        maxRepairRounds: options.maxRepairRounds,
+        openPullRequest: false,
+      })
+    }
+    after(() => runWorker())
+
+    return NextResponse.json({ task: parentTask, runs })
+  } catch (error) {
+    console.error('Error creating comparison:', error)
+    return NextResponse.json({ error: 'Failed to create comparison' }, { status: 500 })
+  }
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse, after } from 'next/server'
+import { runWorker } from '@/lib/jobs/worker'
+import {
+  decodeWebhookPayload,
+  forgetWebhookDelivery,
+  getAppUrl,
+  parseWebhookTrigger,
+  recordWebhookDelivery,
+  startTaskFromTrigger,
+  verifyGitHubSignature,
+  WEBHOOK_CONTENT_TYPES,
+} from '@/lib/webhooks/github'
+
+export const dynamic = 'force-dynamic'
+// Workers started after the response run within this function's duration
+export const maxDuration = 800
+
+// Receives issues and issue_comment events from a GitHub webhook signed with GITHUB_WEBHOOK_SECRET
+export async function POST(request: NextRequest) {
+  const deliveryId = request.headers.get('x-github-delivery')
+  let recorded = false
+
+  try {
+    const secret = process.env.GITHUB_WEBHOOK_SECRET
+    if (!secret) {
+      return NextResponse.json({ error: 'GitHub webhooks are not configured' }, { status: 503 })
+    }
+
+    // The signature covers the raw body, so it is read as text before parsing
+    const body = await request.text()
+    if (!verifyGitHubSignature(body, request.headers.get('x-hub-signature-256'), secret)) {
+      return NextResponse.json({ error: 'Invalid signature' }, { status: 401 })
+    }
+
+    const contentType = (request.headers.get('content-type') || '').split(';')[0].trim().toLowerCase()
+    if (!WEBHOOK_CONTENT_TYPES.includes(contentType)) {
+      return NextResponse.json(
+        { error: `Unsupported content type, expected ${WEBHOOK_CONTENT_TYPES.join(' or ')}` },
+        { status: 415 },
+      )
+    }
+
+    const payload = decodeWebhookPayload(body, contentType)
+    if (!payload) {
+      return NextResponse.json({ error: 'Invalid webhook payload' }, { status: 400 })
+    }
+
+    if (!deliveryId) {
+      return NextResponse.json({ error: 'Missing X-GitHub-Delivery header' }, { status: 400 })
+    }
+    recorded = await recordWebhookDelivery(deliveryId)
+    if (!recorded) {
+      // Still a 200, so GitHub does not report the redelivery as failed
+      return NextResponse.json({ duplicate: true })
+    }
+
+    const trigger = parseWebhookTrigger(request.headers.get('x-github-event'), payload)
+    if (!trigger) {
+      return NextResponse.json({ skipped: true })
+    }
+
+    const result = await startTaskFromTrigger(trigger, getAppUrl() || request.nextUrl.origin)
+    if (!result.success) {
+      // Still a 200: GitHub only needs to know the delivery arrived, and shows the reason with it
+      return NextResponse.json({ skipped: true, reason: result.error })
+    }
+
+    after(() => runWorker())
+    return NextResponse.json({ taskId: result.taskId })
+  } catch (error) {
+    console.error('Error handling GitHub webhook:', error)
+    if (recorded) {
+      await forgetWebhookDelivery(deliveryId!).catch((forgetError) =>
+        console.error('Error forgetting GitHub webhook delivery:', forgetError),
+      )
+    }
+    return NextResponse.json({ error: 'Failed to handle webhook' }, { status: 500 })
+  }
+}
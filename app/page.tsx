@@ -1,19 +1,34 @@
 import { cookies } from 'next/headers'
 import { HomePageContent } from '@/components/home-page-content'
+import { getGitProviderOptions } from '@/lib/git-providers'
+import { isGitProviderType } from '@/lib/git-providers/definitions'
+import { getMaxTaskDuration } from '@/lib/jobs/queue'
 
 export default async function Home() {
   const cookieStore = await cookies()
+  const gitProviders = getGitProviderOptions()
+  const savedProvider = cookieStore.get('selected-provider')?.value || ''
+  // Fall back to GitHub when the saved host is no longer configured
+  const selectedProvider =
+    isGitProviderType(savedProvider) && gitProviders.some((provider) => provider.value === savedProvider)
+      ? savedProvider
+      : 'github'
   const selectedOwner = cookieStore.get('selected-owner')?.value || ''
   const selectedRepo = cookieStore.get('selected-repo')?.value || ''
   const installDependencies = cookieStore.get('install-dependencies')?.value === 'true'
-  const maxDuration = parseInt(cookieStore.get('max-duration')?.value || '5', 10)
+  // Durations longer than workers on this deployment can run are not offered
+  const maxDurationLimit = getMaxTaskDuration()
+  const maxDuration = Math.min(parseInt(cookieStore.get('max-duration')?.value || '5', 10), maxDurationLimit)
 
   return (
     <HomePageContent
+      gitProviders={gitProviders}
+      initialSelectedProvider={selectedProvider}
       initialSelectedOwner={selectedOwner}
       initialSelectedRepo={selectedRepo}
       initialInstallDependencies={installDependencies}
       initialMaxDuration={maxDuration}
+      maxDurationLimit={maxDurationLimit}
     />
   )
 }
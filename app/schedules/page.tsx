@@ -0,0 +1,9 @@
+import { SchedulesPageClient } from '@/components/schedules-page-client'
+
+export const metadata = {
+  title: 'Schedules - Coding Agent Platform',
+}
+
+export default function SchedulesPage() {
+  return <SchedulesPageClient />
+}
@@ -0,0 +1,9 @@
+import { SettingsPageClient } from '@/components/settings-page-client'
+
+export const metadata = {
+  title: 'Settings - Coding Agent Platform',
+}
+
+export default function SettingsPage() {
+  return <SettingsPageClient />
+}
@@ -0,0 +1,103 @@
+'use client'
+
+import { AgentEvent, LogEntry } from '@/lib/db/schema'
+import { Brain, Coins, FilePen, FilePlus, FileX, MessageSquare, Terminal, Wrench } from 'lucide-react'
+import { cn } from '@/lib/utils'
+
+interface AgentTimelineProps {
+  logs: LogEntry[]
+}
+
+function getEventIcon(event: AgentEvent) {
+  switch (event.kind) {
+    case 'tool_call':
+      return Wrench
+    case 'file_edit':
+      return event.action === 'create' ? FilePlus : event.action === 'delete' ? FileX : FilePen
+    case 'shell_command':
+      return Terminal
+    case 'reasoning':
+      return Brain
+    case 'token_usage':
+      return Coins
+    case 'final_message':
+      return MessageSquare
+  }
+}
+
+function EventBody({ event }: { event: AgentEvent }) {
+  switch (event.kind) {
+    case 'tool_call':
+      return (
+        <div className="min-w-0">
+          <span className="font-medium">{event.tool}</span>
+          {event.input && <span className="ml-2 font-mono text-xs text-muted-foreground break-all">{event.input}</span>}
+        </div>
+      )
+    case 'file_edit':
+      return (
+        <div className="min-w-0">
+          <span className="capitalize text-muted-foreground">{event.action || 'edit'}</span>
+          <span className="ml-2 font-mono text-xs break-all">{event.path}</span>
+        </div>
+      )
+    case 'shell_command':
+      return (
+        <div className="min-w-0 flex-1">
+          <div className="font-mono text-xs break-all">
+            $ {event.command}
+            {event.exitCode !== undefined && event.exitCode !== 0 && (
+              <span className="ml-2 text-red-500">exit {event.exitCode}</span>
+            )}
+          </div>
+          {event.output && (
+            <details className="mt-1">
+              <summary className="cursor-pointer text-xs text-muted-foreground">Output</summary>
+              <pre className="mt-1 max-h-48 overflow-auto rounded bg-muted p-2 text-xs whitespace-pre-wrap">
+                {event.output}
+              </pre>
+            </details>
+          )}
+        </div>
+      )
+    case 'reasoning':
+      return <p className="min-w-0 text-muted-foreground italic whitespace-pre-wrap break-words">{event.text}</p>
+    case 'token_usage':
+      return (
+        <div className="text-xs text-muted-foreground">
+          {event.inputTokens.toLocaleString()} input / {event.outputTokens.toLocaleString()} output tokens
+          {event.cachedInputTokens ? ` (${event.cachedInputTokens.toLocaleString()} cached)` : ''}
+          {event.costUsd !== undefined && ` · $${event.costUsd.toFixed(4)}`}
+        </div>
+      )
+    case 'final_message':
+      return <p className="min-w-0 whitespace-pre-wrap break-words">{event.text}</p>
+  }
+}
+
+export function AgentTimeline({ logs }: AgentTimelineProps) {
+  const entries = logs.filter((log): log is LogEntry & { event: AgentEvent } => !!log.event)
+
+  if (entries.length === 0) return null
+
+  return (
+    <ol className="relative space-y-3 border-l pl-5">
+      {entries.map((entry, index) => {
+        const Icon = getEventIcon(entry.event)
+        return (
+          <li key={entry.seq ?? index} className="relative flex gap-2 text-sm">
+            <span
+              className={cn(
+                'absolute -left-[29px] flex h-4 w-4 items-center justify-center rounded-full border bg-background',
+                entry.event.kind === 'final_message' && 'border-green-600 text-green-600',
+              )}
+            >
+              <Icon className="h-2.5 w-2.5" />
+            </span>
+            <EventBody event={entry.event} />
+          </li>
+        )
+      })}
+    </ol>
+  )
+}
@@ -1,12 +1,21 @@
 import { cookies } from 'next/headers'
 import { AppLayout } from './app-layout'
+import { SignIn } from './sign-in'
 import { getSidebarWidthFromCookie, getSidebarOpenFromCookie } from '@/lib/utils/cookies'
+import { getCurrentUser } from '@/lib/auth/session'
+import { isGitHubOAuthConfigured } from '@/lib/auth/github-oauth'
 
 interface AppLayoutWrapperProps {
   children: React.ReactNode
 }
 
 export async function AppLayoutWrapper({ children }: AppLayoutWrapperProps) {
+  // Every page works on the signed-in user's tasks and repositories
+  const user = await getCurrentUser()
+  if (!user) {
+    return <SignIn isConfigured={isGitHubOAuthConfigured()} />
+  }
+
   const cookieStore = await cookies()
   const cookieString = cookieStore.toString()
   const initialSidebarWidth = getSidebarWidthFromCookie(cookieString)
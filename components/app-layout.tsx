@@ -2,7 +2,8 @@
 
 import { useState, useEffect, createContext, useContext, useCallback } from 'react'
 import { TaskSidebar } from '@/components/task-sidebar'
-import { Task } from '@/lib/db/schema'
+import { Task, AgentChoice } from '@/lib/db/schema'
+import { GitProviderType } from '@/lib/git-providers/definitions'
 import { useRouter } from 'next/navigation'
 import { Button } from '@/components/ui/button'
 import { Plus } from 'lucide-react'
@@ -27,6 +28,15 @@ interface TasksContextType {
     selectedModel: string
     installDependencies: boolean
     maxDuration: number
+    baseBranch?: string
+    targetPackage?: string
+    prDraft: boolean
+    prLabels: string[]
+    prReviewers: string[]
+    fallbackChain: AgentChoice[]
+    comparisonAgents: AgentChoice[]
+    maxRepairRounds: number
+    gitProvider?: GitProviderType
   }) => { id: string; optimisticTask: Task }
 }
 
@@ -194,22 +204,48 @@ export function AppLayout({ children, initialSidebarWidth, initialSidebarOpen }:
     selectedModel: string
     installDependencies: boolean
     maxDuration: number
+    baseBranch?: string
+    targetPackage?: string
+    prDraft: boolean
+    prLabels: string[]
+    prReviewers: string[]
+    fallbackChain: AgentChoice[]
+    comparisonAgents: AgentChoice[]
+    maxRepairRounds: number
+    gitProvider?: GitProviderType
   }) => {
     const id = nanoid()
     const optimisticTask: Task = {
       id,
+      userId: null,
+      parentTaskId: null,
+      comparisonAgents: taskData.comparisonAgents.length > 0 ? taskData.comparisonAgents : null,
+      scheduleId: null,
+      issueNumber: null,
+      issueCommentId: null,
       prompt: taskData.prompt,
       repoUrl: taskData.repoUrl,
+      gitProvider: taskData.gitProvider || null,
       selectedAgent: taskData.selectedAgent,
       selectedModel: taskData.selectedModel,
       installDependencies: taskData.installDependencies,
       maxDuration: taskData.maxDuration,
+      baseBranch: taskData.baseBranch || null,
+      targetPackage: taskData.targetPackage || null,
+      prDraft: taskData.prDraft,
+      prLabels: taskData.prLabels,
+      prReviewers: taskData.prReviewers,
+      fallbackChain: taskData.fallbackChain,
+      maxRepairRounds: taskData.maxRepairRounds,
+      prNumber: null,
+      prUrl: null,
+      prState: null,
       status: 'pending',
       progress: 0,
-      logs: [],
       error: null,
       branchName: null,
       sandboxUrl: null,
+      timeoutPhase: null,
       createdAt: new Date(),
       updatedAt: new Date(),
       completedAt: null,
@@ -0,0 +1,268 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { ChevronDown, ChevronRight, File, Folder } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { DiffArtifact } from '@/lib/db/schema'
+import { cn } from '@/lib/utils'
+import { DiffFile, DiffLine, highlightLine, parseUnifiedDiff, toSplitRows, TokenKind } from '@/lib/utils/diff'
+
+interface DiffViewerProps {
+  diff: DiffArtifact
+}
+
+type ViewMode = 'unified' | 'split'
+
+interface TreeNode {
+  name: string
+  path: string
+  file?: DiffFile
+  children: TreeNode[]
+}
+
+const TOKEN_COLORS: Record<TokenKind, string> = {
+  keyword: 'text-purple-600 dark:text-purple-400',
+  string: 'text-green-700 dark:text-green-400',
+  comment: 'text-muted-foreground italic',
+  number: 'text-orange-600 dark:text-orange-400',
+  plain: '',
+}
+
+const LINE_COLORS: Record<DiffLine['type'], string> = {
+  add: 'bg-green-500/10',
+  delete: 'bg-red-500/10',
+  context: '',
+}
+
+const FILE_STATUS_COLORS: Record<DiffFile['status'], string> = {
+  added: 'text-green-600',
+  deleted: 'text-red-600',
+  renamed: 'text-blue-600',
+  modified: 'text-yellow-600',
+}
+
+function buildFileTree(files: DiffFile[]): TreeNode[] {
+  const root: TreeNode = { name: '', path: '', children: [] }
+
+  for (const file of files) {
+    const parts = file.path.split('/')
+    let node = root
+    parts.forEach((part, index) => {
+      const path = parts.slice(0, index + 1).join('/')
+      let child = node.children.find((candidate) => candidate.name === part && !candidate.file)
+      if (index === parts.length - 1) {
+        node.children.push({ name: part, path, file, children: [] })
+        return
+      }
+      if (!child) {
+        child = { name: part, path, children: [] }
+        node.children.push(child)
+      }
+      node = child
+    })
+  }
+
+  // Directories first, then files, each alphabetically
+  const sort = (nodes: TreeNode[]) => {
+    nodes.sort((a, b) => Number(!!a.file) - Number(!!b.file) || a.name.localeCompare(b.name))
+    nodes.forEach((node) => sort(node.children))
+  }
+  sort(root.children)
+  return root.children
+}
+
+function HighlightedCode({ content, path }: { content: string; path: string }) {
+  const tokens = useMemo(() => highlightLine(content, path), [content, path])
+  return (
+    <>
+      {tokens.map((token, index) => (
+        <span key={index} className={TOKEN_COLORS[token.kind]}>
+          {token.text}
+        </span>
+      ))}
+    </>
+  )
+}
+
+function LineNumber({ value }: { value?: number }) {
+  return <td className="w-10 select-none px-2 text-right align-top text-muted-foreground">{value ?? ''}</td>
+}
+
+function DiffCell({ line, path }: { line?: DiffLine; path: string }) {
+  if (!line) return <td className="bg-muted/40" />
+  const marker = line.type === 'add' ? '+' : line.type === 'delete' ? '-' : ' '
+  return (
+    <td className={cn('whitespace-pre-wrap break-all px-2 align-top', LINE_COLORS[line.type])}>
+      <span className="select-none text-muted-foreground">{marker}</span>
+      <HighlightedCode content={line.content} path={path} />
+    </td>
+  )
+}
+
+function FileDiff({ file, mode }: { file: DiffFile; mode: ViewMode }) {
+  if (file.binary) {
+    return <p className="p-4 text-sm text-muted-foreground">Binary file changed</p>
+  }
+  if (file.hunks.length === 0) {
+    return <p className="p-4 text-sm text-muted-foreground">No content changes</p>
+  }
+
+  return (
+    <table className="w-full border-collapse font-mono text-xs">
+      {file.hunks.map((hunk, hunkIndex) => (
+        <tbody key={hunkIndex}>
+          <tr className="bg-blue-500/10 text-muted-foreground">
+            <td colSpan={mode === 'split' ? 4 : 3} className="px-2 py-1">
+              {hunk.header}
+            </td>
+          </tr>
+          {mode === 'unified'
+            ? hunk.lines.map((line, lineIndex) => (
+                <tr key={lineIndex} className={LINE_COLORS[line.type]}>
+                  <LineNumber value={line.oldLine} />
+                  <LineNumber value={line.newLine} />
+                  <DiffCell line={line} path={file.path} />
+                </tr>
+              ))
+            : toSplitRows(hunk).map((row, rowIndex) => (
+                <tr key={rowIndex}>
+                  <LineNumber value={row.left?.oldLine} />
+                  <DiffCell line={row.left} path={file.path} />
+                  <LineNumber value={row.right?.newLine} />
+                  <DiffCell line={row.right} path={file.path} />
+                </tr>
+              ))}
+        </tbody>
+      ))}
+    </table>
+  )
+}
+
+function FileTree({
+  nodes,
+  selectedPath,
+  onSelect,
+  depth = 0,
+}: {
+  nodes: TreeNode[]
+  selectedPath?: string
+  onSelect: (path: string) => void
+  depth?: number
+}) {
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set())
+
+  const toggle = (path: string) => {
+    setCollapsed((prev) => {
+      const next = new Set(prev)
+      if (next.has(path)) {
+        next.delete(path)
+      } else {
+        next.add(path)
+      }
+      return next
+    })
+  }
+
+  return (
+    <ul>
+      {nodes.map((node) => {
+        const padding = { paddingLeft: `${depth * 12 + 4}px` }
+
+        if (!node.file) {
+          const isCollapsed = collapsed.has(node.path)
+          return (
+            <li key={node.path}>
+              <button
+                type="button"
+                onClick={() => toggle(node.path)}
+                className="flex w-full items-center gap-1 rounded py-0.5 text-left text-xs hover:bg-accent"
+                style={padding}
+              >
+                {isCollapsed ? <ChevronRight className="h-3 w-3" /> : <ChevronDown className="h-3 w-3" />}
+                <Folder className="h-3 w-3 text-muted-foreground" />
+                <span className="truncate">{node.name}</span>
+              </button>
+              {!isCollapsed && (
+                <FileTree nodes={node.children} selectedPath={selectedPath} onSelect={onSelect} depth={depth + 1} />
+              )}
+            </li>
+          )
+        }
+
+        return (
+          <li key={node.path}>
+            <button
+              type="button"
+              onClick={() => onSelect(node.path)}
+              className={cn(
+                'flex w-full items-center gap-1 rounded py-0.5 pr-1 text-left text-xs hover:bg-accent',
+                selectedPath === node.path && 'bg-accent',
+              )}
+              style={padding}
+            >
+              <File className={cn('h-3 w-3 shrink-0', FILE_STATUS_COLORS[node.file.status])} />
+              <span className="flex-1 truncate">{node.name}</span>
+              <span className="text-green-600">+{node.file.additions}</span>
+              <span className="text-red-600">-{node.file.deletions}</span>
+            </button>
+          </li>
+        )
+      })}
+    </ul>
+  )
+}
+
+export function DiffViewer({ diff }: DiffViewerProps) {
+  const files = useMemo(() => parseUnifiedDiff(diff.patch), [diff.patch])
+  const tree = useMemo(() => buildFileTree(files), [files])
+  const [selectedPath, setSelectedPath] = useState<string | undefined>(files[0]?.path)
+  const [mode, setMode] = useState<ViewMode>('unified')
+
+  const selectedFile = files.find((file) => file.path === selectedPath) || files[0]
+
+  if (files.length === 0) {
+    return <p className="text-sm text-muted-foreground">No file changes were recorded for this run.</p>
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+        <span>
+          {files.length} {files.length === 1 ? 'file' : 'files'} changed against{' '}
+          <code className="font-mono">{diff.baseCommit.substring(0, 7)}</code>
+          {diff.truncated && ' (diff truncated)'}
+        </span>
+        <div className="flex gap-1">
+          {(['unified', 'split'] as const).map((value) => (
+            <Button
+              key={value}
+              variant={mode === value ? 'secondary' : 'ghost'}
+              size="sm"
+              className="h-7 px-2 text-xs capitalize"
+              onClick={() => setMode(value)}
+            >
+              {value}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-col gap-3 md:flex-row">
+        <div className="max-h-[32rem] shrink-0 overflow-y-auto rounded-md border p-1 md:w-64">
+          <FileTree nodes={tree} selectedPath={selectedFile?.path} onSelect={setSelectedPath} />
+        </div>
+
+        {selectedFile && (
+          <div className="min-w-0 flex-1 overflow-hidden rounded-md border">
+            <div className="border-b bg-muted/50 px-3 py-2 font-mono text-xs">
+              {selectedFile.status === 'renamed' ? `${selectedFile.oldPath} → ${selectedFile.path}` : selectedFile.path}
+            </div>
+            <div className="max-h-[32rem] overflow-auto">
+              <FileDiff file={selectedFile} mode={mode} />
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -6,22 +6,37 @@ import { HomePageHeader } from '@/components/home-page-header'
 import { toast } from 'sonner'
 import { useRouter } from 'next/navigation'
 import { useTasks } from '@/components/app-layout'
-import { getSelectedOwner, setSelectedOwner, getSelectedRepo, setSelectedRepo } from '@/lib/utils/cookies'
+import { AgentChoice } from '@/lib/db/schema'
+import { GitProviderOption, GitProviderType } from '@/lib/git-providers/definitions'
+import {
+  getSelectedOwner,
+  setSelectedOwner,
+  getSelectedRepo,
+  setSelectedRepo,
+  setSelectedProvider,
+} from '@/lib/utils/cookies'
 
 interface HomePageContentProps {
+  gitProviders: GitProviderOption[]
+  initialSelectedProvider?: GitProviderType
   initialSelectedOwner?: string
   initialSelectedRepo?: string
   initialInstallDependencies?: boolean
   initialMaxDuration?: number
+  maxDurationLimit?: number
 }
 
 export function HomePageContent({
+  gitProviders,
+  initialSelectedProvider = 'github',
   initialSelectedOwner = '',
   initialSelectedRepo = '',
   initialInstallDependencies = false,
   initialMaxDuration = 5,
+  maxDurationLimit,
 }: HomePageContentProps) {
   const [isSubmitting, setIsSubmitting] = useState(false)
+  const [selectedProvider, setSelectedProviderState] = useState(initialSelectedProvider)
   const [selectedOwner, setSelectedOwnerState] = useState(initialSelectedOwner)
   const [selectedRepo, setSelectedRepoState] = useState(initialSelectedRepo)
   const router = useRouter()
@@ -30,6 +45,16 @@ export function HomePageContent({
   // No longer need the useEffect for loading cookies - they come from server
 
   // Wrapper functions to update both state and cookies
+  const handleProviderChange = (provider: GitProviderType) => {
+    setSelectedProviderState(provider)
+    setSelectedProvider(provider)
+    // Owners and repos belong to a single host
+    setSelectedOwnerState('')
+    setSelectedOwner('')
+    setSelectedRepoState('')
+    setSelectedRepo('')
+  }
+
   const handleOwnerChange = (owner: string) => {
     setSelectedOwnerState(owner)
     setSelectedOwner(owner)
@@ -52,22 +77,36 @@ export function HomePageContent({
     selectedModel: string
     installDependencies: boolean
     maxDuration: number
+    baseBranch?: string
+    targetPackage?: string
+    prDraft: boolean
+    prLabels: string[]
+    prReviewers: string[]
+    fallbackChain: AgentChoice[]
+    comparisonAgents: AgentChoice[]
+    maxRepairRounds: number
   }) => {
     setIsSubmitting(true)
 
     // Add task optimistically to sidebar immediately
-    const { id } = addTaskOptimistically(data)
+    const { id } = addTaskOptimistically({ ...data, gitProvider: selectedProvider })
 
     // Navigate to the new task page immediately
     router.push(`/tasks/${id}`)
 
     try {
-      const response = await fetch('/api/tasks', {
+      // Comparisons create one run per agent under the new task
+      const isComparison = data.comparisonAgents.length > 0
+      const response = await fetch(isComparison ? '/api/tasks/compare' : '/api/tasks', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ ...data, id }), // Include the pre-generated ID
+        body: JSON.stringify({
+          ...data,
+          comparisonAgents: isComparison ? data.comparisonAgents : undefined,
+          id, // Include the pre-generated ID
+        }),
       })
 
       if (response.ok) {
@@ -94,6 +133,9 @@ export function HomePageContent({
     <div className="flex-1 bg-background">
       <div className="mx-auto p-3">
         <HomePageHeader
+          gitProviders={gitProviders}
+          selectedProvider={selectedProvider}
+          onProviderChange={handleProviderChange}
           selectedOwner={selectedOwner}
           selectedRepo={selectedRepo}
           onOwnerChange={handleOwnerChange}
@@ -104,10 +146,12 @@ export function HomePageContent({
           <TaskForm
             onSubmit={handleTaskSubmit}
             isSubmitting={isSubmitting}
+            selectedProvider={selectedProvider}
             selectedOwner={selectedOwner}
             selectedRepo={selectedRepo}
             initialInstallDependencies={initialInstallDependencies}
             initialMaxDuration={initialMaxDuration}
+            maxDurationLimit={maxDurationLimit}
           />
         </div>
       </div>
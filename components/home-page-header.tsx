@@ -16,19 +16,32 @@ import {
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog'
 import { Checkbox } from '@/components/ui/checkbox'
-import { MoreHorizontal, RefreshCw, Trash2 } from 'lucide-react'
+import { CalendarClock, KeyRound, LogOut, MoreHorizontal, RefreshCw, Trash2 } from 'lucide-react'
+import Link from 'next/link'
 import { useState } from 'react'
 import { toast } from 'sonner'
 import { VERCEL_DEPLOY_URL } from '@/lib/constants'
+import { GitProviderOption, GitProviderType } from '@/lib/git-providers/definitions'
 
 interface HomePageHeaderProps {
+  gitProviders: GitProviderOption[]
+  selectedProvider: GitProviderType
+  onProviderChange: (provider: GitProviderType) => void
   selectedOwner: string
   selectedRepo: string
   onOwnerChange: (owner: string) => void
   onRepoChange: (repo: string) => void
 }
 
-export function HomePageHeader({ selectedOwner, selectedRepo, onOwnerChange, onRepoChange }: HomePageHeaderProps) {
+export function HomePageHeader({
+  gitProviders,
+  selectedProvider,
+  onProviderChange,
+  selectedOwner,
+  selectedRepo,
+  onOwnerChange,
+  onRepoChange,
+}: HomePageHeaderProps) {
   const { toggleSidebar, refreshTasks } = useTasks()
   const [isRefreshing, setIsRefreshing] = useState(false)
   const [isDeleting, setIsDeleting] = useState(false)
@@ -40,10 +53,9 @@ export function HomePageHeader({ selectedOwner, selectedRepo, onOwnerChange, onR
   const handleRefreshRepos = async () => {
     setIsRefreshing(true)
     try {
-      // Clear all GitHub-related caches
-      sessionStorage.removeItem('github-owners')
+      // Clear all cached owners and repositories
       Object.keys(sessionStorage).forEach((key) => {
-        if (key.startsWith('github-repos-')) {
+        if (key.startsWith('git-owners-') || key.startsWith('git-repos-')) {
           sessionStorage.removeItem(key)
         }
       })
@@ -57,6 +69,19 @@ export function HomePageHeader({ selectedOwner, selectedRepo, onOwnerChange, onR
     }
   }
 
+  const handleSignOut = async () => {
+    try {
+      const response = await fetch('/api/auth/logout', { method: 'POST' })
+      if (!response.ok) {
+        throw new Error('Failed to sign out')
+      }
+      window.location.href = '/'
+    } catch (error) {
+      console.error('Error signing out:', error)
+      toast.error('Failed to sign out')
+    }
+  }
+
   const handleDeleteTasks = async () => {
     if (!deleteCompleted && !deleteFailed && !deleteStopped) {
       toast.error('Please select at least one task type to delete')
@@ -125,6 +150,22 @@ export function HomePageHeader({ selectedOwner, selectedRepo, onOwnerChange, onR
             <Trash2 className="h-4 w-4 mr-2" />
             Delete Tasks
           </DropdownMenuItem>
+          <DropdownMenuItem asChild>
+            <Link href="/settings">
+              <KeyRound className="h-4 w-4 mr-2" />
+              API Keys
+            </Link>
+          </DropdownMenuItem>
+          <DropdownMenuItem asChild>
+            <Link href="/schedules">
+              <CalendarClock className="h-4 w-4 mr-2" />
+              Schedules
+            </Link>
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={handleSignOut}>
+            <LogOut className="h-4 w-4 mr-2" />
+            Sign Out
+          </DropdownMenuItem>
         </DropdownMenuContent>
       </DropdownMenu>
     </div>
@@ -132,6 +173,9 @@ export function HomePageHeader({ selectedOwner, selectedRepo, onOwnerChange, onR
 
   const leftActions = (
     <RepoSelector
+      providers={gitProviders}
+      selectedProvider={selectedProvider}
+      onProviderChange={onProviderChange}
       selectedOwner={selectedOwner}
       selectedRepo={selectedRepo}
       onOwnerChange={onOwnerChange}
@@ -1,5 +1,22 @@
-export { default as Claude } from './claude'
-export { default as Codex } from './codex'
-export { default as Cursor } from './cursor'
-export { default as Gemini } from './gemini'
-export { default as OpenCode } from './opencode'
+import type { ComponentType } from 'react'
+import Claude from './claude'
+import Codex from './codex'
+import Cursor from './cursor'
+import Gemini from './gemini'
+import OpenCode from './opencode'
+import { AgentType } from '@/lib/sandbox/agents/definitions'
+
+export { Claude, Codex, Cursor, Gemini, OpenCode }
+
+const AGENT_LOGOS: Record<AgentType, ComponentType<{ className?: string }>> = {
+  claude: Claude,
+  codex: Codex,
+  cursor: Cursor,
+  gemini: Gemini,
+  opencode: OpenCode,
+}
+
+export function getAgentLogo(agent: string | null) {
+  if (!agent) return null
+  return AGENT_LOGOS[agent.toLowerCase() as AgentType] || null
+}
@@ -5,14 +5,15 @@ import Image from 'next/image'
 import { Input } from '@/components/ui/input'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Lock } from 'lucide-react'
+import { GitProviderOption, GitProviderType } from '@/lib/git-providers/definitions'
 
-interface GitHubOwner {
+interface GitOwner {
   login: string
   name: string
   avatar_url: string
 }
 
-interface GitHubRepo {
+interface GitRepo {
   name: string
   full_name: string
   description: string
@@ -22,6 +23,9 @@ interface GitHubRepo {
 }
 
 interface RepoSelectorProps {
+  providers: GitProviderOption[]
+  selectedProvider: GitProviderType
+  onProviderChange: (provider: GitProviderType) => void
   selectedOwner: string
   selectedRepo: string
   onOwnerChange: (owner: string) => void
@@ -31,6 +35,9 @@ interface RepoSelectorProps {
 }
 
 export function RepoSelector({
+  providers,
+  selectedProvider,
+  onProviderChange,
   selectedOwner,
   selectedRepo,
   onOwnerChange,
@@ -40,19 +47,20 @@ export function RepoSelector({
 }: RepoSelectorProps) {
   const [repoFilter, setRepoFilter] = useState('')
   // Initialize with selected owner to prevent flash
-  const [owners, setOwners] = useState<GitHubOwner[]>(() => {
+  const [owners, setOwners] = useState<GitOwner[]>(() => {
     if (selectedOwner) {
       return [
         {
           login: selectedOwner,
           name: selectedOwner,
-          avatar_url: `https://github.com/${selectedOwner}.png`,
+          // Only GitHub serves avatars by account name
+          avatar_url: selectedProvider === 'github' ? `https://github.com/${selectedOwner}.png` : '',
         },
       ]
     }
     return []
   })
-  const [repos, setRepos] = useState<GitHubRepo[]>([])
+  const [repos, setRepos] = useState<GitRepo[]>([])
   const [loadingOwners, setLoadingOwners] = useState(true)
   const [loadingRepos, setLoadingRepos] = useState(false)
   const [repoDropdownOpen, setRepoDropdownOpen] = useState(false)
@@ -60,12 +68,14 @@ export function RepoSelector({
   // Ref for the filter input to focus it when dropdown opens
   const filterInputRef = useRef<HTMLInputElement>(null)
 
-  // Load owners on component mount
+  // Load owners on mount and whenever the git host changes
   useEffect(() => {
     const loadOwners = async () => {
+      setLoadingOwners(true)
       try {
         // Check cache first
-        const cachedOwners = sessionStorage.getItem('github-owners')
+        const cacheKey = `git-owners-${selectedProvider}`
+        const cachedOwners = sessionStorage.getItem(cacheKey)
         if (cachedOwners) {
           const parsedOwners = JSON.parse(cachedOwners)
           setOwners(parsedOwners)
@@ -73,42 +83,16 @@ export function RepoSelector({
           return
         }
 
-        // Fetch both user and organizations
-        const [userResponse, orgsResponse] = await Promise.all([fetch('/api/github/user'), fetch('/api/github/orgs')])
-
-        const ownersList: GitHubOwner[] = []
-        let personalAccount: GitHubOwner | null = null
-
-        // Get user (personal account)
-        if (userResponse.ok) {
-          const user = await userResponse.json()
-          personalAccount = {
-            login: user.login,
-            name: user.name || user.login,
-            avatar_url: user.avatar_url,
-          }
-        }
-
-        // Get organizations and sort them
-        const organizations: GitHubOwner[] = []
-        if (orgsResponse.ok) {
-          const orgs = await orgsResponse.json()
-          organizations.push(...orgs)
-        }
-
-        // Sort organizations by login name
-        organizations.sort((a, b) => a.login.localeCompare(b.login, undefined, { sensitivity: 'base' }))
-
-        // Put personal account first, then sorted organizations
-        const sortedOwners: GitHubOwner[] = []
-        if (personalAccount) {
-          sortedOwners.push(personalAccount)
+        // The personal account comes first, followed by sorted organizations or groups
+        const response = await fetch(`/api/git/${selectedProvider}/owners`)
+        if (response.ok) {
+          const ownersList: GitOwner[] = await response.json()
+          setOwners(ownersList)
+          // Cache the owners
+          sessionStorage.setItem(cacheKey, JSON.stringify(ownersList))
+        } else {
+          setOwners([])
         }
-        sortedOwners.push(...organizations)
-
-        setOwners(sortedOwners)
-        // Cache the owners
-        sessionStorage.setItem('github-owners', JSON.stringify(sortedOwners))
       } catch (error) {
         console.error('Error loading owners:', error)
       } finally {
@@ -117,7 +101,7 @@ export function RepoSelector({
     }
 
     loadOwners()
-  }, [])
+  }, [selectedProvider])
 
   // Auto-select user's personal account if no owner is selected and no saved owner exists
   useEffect(() => {
@@ -143,7 +127,7 @@ export function RepoSelector({
         setLoadingRepos(true)
         try {
           // Check cache first
-          const cacheKey = `github-repos-${selectedOwner}`
+          const cacheKey = `git-repos-${selectedProvider}-${selectedOwner}`
           const cachedRepos = sessionStorage.getItem(cacheKey)
           if (cachedRepos) {
             const parsedRepos = JSON.parse(cachedRepos)
@@ -152,7 +136,7 @@ export function RepoSelector({
             return
           }
 
-          const response = await fetch(`/api/github/repos?owner=${selectedOwner}`)
+          const response = await fetch(`/api/git/${selectedProvider}/repos?owner=${encodeURIComponent(selectedOwner)}`)
           if (response.ok) {
             const reposList = await response.json()
             setRepos(reposList)
@@ -170,7 +154,7 @@ export function RepoSelector({
     } else {
       setRepos([])
     }
-  }, [selectedOwner])
+  }, [selectedProvider, selectedOwner])
 
   // Focus filter input when dropdown opens
   useEffect(() => {
@@ -201,6 +185,13 @@ export function RepoSelector({
     setRepoFilter('') // Reset filter when owner changes
   }
 
+  const handleProviderChange = (value: string) => {
+    onProviderChange(value as GitProviderType)
+    setOwners([])
+    setRepos([])
+    setRepoFilter('')
+  }
+
   const handleRepoChange = (value: string) => {
     onRepoChange(value)
   }
@@ -212,6 +203,21 @@ export function RepoSelector({
 
   return (
     <div className="flex items-center gap-2">
+      {providers.length > 1 && (
+        <Select value={selectedProvider} onValueChange={handleProviderChange} disabled={disabled}>
+          <SelectTrigger className={triggerClassName}>
+            <SelectValue placeholder="Host" />
+          </SelectTrigger>
+          <SelectContent>
+            {providers.map((provider) => (
+              <SelectItem key={provider.value} value={provider.value}>
+                {provider.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+
       <Select
         value={selectedOwner}
         onValueChange={handleOwnerChange}
@@ -224,13 +230,19 @@ export function RepoSelector({
           {owners.map((owner) => (
             <SelectItem key={owner.login} value={owner.login}>
               <div className="flex items-center gap-2">
-                <Image
-                  src={owner.avatar_url}
-                  alt={owner.login}
-                  width={16}
-                  height={16}
-                  className="w-4 h-4 rounded-full"
-                />
+                {owner.avatar_url ? (
+                  <Image
+                    src={owner.avatar_url}
+                    alt={owner.login}
+                    width={16}
+                    height={16}
+                    className="w-4 h-4 rounded-full"
+                    // Self-hosted avatars are not in the image optimizer's allowed domains
+                    unoptimized={selectedProvider !== 'github'}
+                  />
+                ) : (
+                  <div className="w-4 h-4 rounded-full bg-muted" />
+                )}
                 <span>{owner.login}</span>
               </div>
             </SelectItem>
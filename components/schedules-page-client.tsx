@@ -0,0 +1,400 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { ArrowLeft, Loader2, Pause, Play, Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { PageHeader } from '@/components/page-header'
+import { useTasks } from '@/components/app-layout'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Textarea } from '@/components/ui/textarea'
+import { Schedule, Task } from '@/lib/db/schema'
+import {
+  AGENT_DEFINITIONS,
+  getAgentDefinition,
+  getAgentModels,
+  getDefaultModel,
+  getModelLabel,
+} from '@/lib/sandbox/agents/definitions'
+
+type ScheduleWithRuns = Schedule & { runs: Task[] }
+
+const STATUS_VARIANTS: Record<Task['status'], 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  pending: 'outline',
+  processing: 'secondary',
+  completed: 'default',
+  error: 'destructive',
+  stopped: 'outline',
+}
+
+function formatDate(value: Date | string | null): string {
+  if (!value) return 'Never'
+  const date = new Date(value)
+  return `${date.toLocaleDateString()} ${date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`
+}
+
+function getBrowserTimezone(): string {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC'
+  } catch {
+    return 'UTC'
+  }
+}
+
+export function SchedulesPageClient() {
+  const { toggleSidebar } = useTasks()
+  const [schedules, setSchedules] = useState<ScheduleWithRuns[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isCreating, setIsCreating] = useState(false)
+  const [pendingScheduleId, setPendingScheduleId] = useState<string | null>(null)
+
+  // New schedule form
+  const [name, setName] = useState('')
+  const [repoUrl, setRepoUrl] = useState('')
+  const [prompt, setPrompt] = useState('')
+  const [cron, setCron] = useState('0 9 * * 1')
+  const [timezone, setTimezone] = useState('UTC')
+  const [selectedAgent, setSelectedAgent] = useState('claude')
+  const [selectedModel, setSelectedModel] = useState(getDefaultModel('claude') || '')
+  const [installDependencies, setInstallDependencies] = useState(false)
+
+  useEffect(() => {
+    setTimezone(getBrowserTimezone())
+
+    const fetchSchedules = async () => {
+      try {
+        const response = await fetch('/api/schedules')
+        if (!response.ok) {
+          throw new Error('Failed to fetch schedules')
+        }
+        const data: { schedules: ScheduleWithRuns[] } = await response.json()
+        setSchedules(data.schedules)
+      } catch (error) {
+        console.error('Error fetching schedules:', error)
+        toast.error('Failed to load schedules')
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    fetchSchedules()
+  }, [])
+
+  const handleAgentChange = (agent: string) => {
+    setSelectedAgent(agent)
+    setSelectedModel(getDefaultModel(agent) || '')
+  }
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsCreating(true)
+    try {
+      const response = await fetch('/api/schedules', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name,
+          repoUrl: repoUrl.trim(),
+          prompt,
+          cron,
+          timezone,
+          selectedAgent,
+          selectedModel: selectedModel || undefined,
+          installDependencies,
+        }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to create schedule')
+      }
+
+      setSchedules((prev) => [data.schedule, ...prev])
+      setName('')
+      setPrompt('')
+      toast.success('Schedule created')
+    } catch (error) {
+      console.error('Error creating schedule:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to create schedule')
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
+  const handleToggle = async (schedule: ScheduleWithRuns) => {
+    setPendingScheduleId(schedule.id)
+    try {
+      const response = await fetch(`/api/schedules/${schedule.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ enabled: !schedule.enabled }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update schedule')
+      }
+
+      setSchedules((prev) => prev.map((item) => (item.id === schedule.id ? data.schedule : item)))
+      toast.success(schedule.enabled ? 'Schedule paused' : 'Schedule resumed')
+    } catch (error) {
+      console.error('Error updating schedule:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to update schedule')
+    } finally {
+      setPendingScheduleId(null)
+    }
+  }
+
+  const handleDelete = async (schedule: ScheduleWithRuns) => {
+    setPendingScheduleId(schedule.id)
+    try {
+      const response = await fetch(`/api/schedules/${schedule.id}`, { method: 'DELETE' })
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to delete schedule')
+      }
+
+      setSchedules((prev) => prev.filter((item) => item.id !== schedule.id))
+      toast.success('Schedule deleted')
+    } catch (error) {
+      console.error('Error deleting schedule:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to delete schedule')
+    } finally {
+      setPendingScheduleId(null)
+    }
+  }
+
+  const models = getAgentModels(selectedAgent)
+
+  return (
+    <div className="flex-1 bg-background">
+      <div className="mx-auto p-3">
+        <PageHeader
+          showMobileMenu={true}
+          onToggleMobileMenu={toggleSidebar}
+          leftActions={
+            <Button asChild variant="ghost" size="sm" className="h-8 px-2 text-xs">
+              <Link href="/">
+                <ArrowLeft className="h-4 w-4 mr-1" />
+                Back
+              </Link>
+            </Button>
+          }
+        />
+
+        <div className="max-w-2xl mx-auto p-6 space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">New Schedule</CardTitle>
+              <CardDescription>
+                Runs the prompt against the repository with a fixed agent and model, as an ordinary task each time the
+                cron expression matches.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleCreate} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="schedule-name">Name</Label>
+                  <Input
+                    id="schedule-name"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    placeholder="Update dependencies"
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="schedule-repo">Repository URL</Label>
+                  <Input
+                    id="schedule-repo"
+                    value={repoUrl}
+                    onChange={(e) => setRepoUrl(e.target.value)}
+                    placeholder="https://github.com/owner/repo.git"
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="schedule-prompt">Prompt</Label>
+                  <Textarea
+                    id="schedule-prompt"
+                    value={prompt}
+                    onChange={(e) => setPrompt(e.target.value)}
+                    placeholder="Update outdated dependencies and fix anything that breaks"
+                    required
+                  />
+                </div>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="schedule-cron">Cron Expression</Label>
+                    <Input
+                      id="schedule-cron"
+                      value={cron}
+                      onChange={(e) => setCron(e.target.value)}
+                      className="font-mono"
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="schedule-timezone">Time Zone</Label>
+                    <Input
+                      id="schedule-timezone"
+                      value={timezone}
+                      onChange={(e) => setTimezone(e.target.value)}
+                      required
+                    />
+                  </div>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Minute, hour, day of month, month and day of week. <code>0 9 * * 1</code> runs every Monday at 9:00.
+                </p>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label>Agent</Label>
+                    <Select value={selectedAgent} onValueChange={handleAgentChange}>
+                      <SelectTrigger className="w-full">
+                        <SelectValue placeholder="Agent" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {AGENT_DEFINITIONS.map((agent) => (
+                          <SelectItem key={agent.value} value={agent.value}>
+                            {agent.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Model</Label>
+                    <Select value={selectedModel} onValueChange={setSelectedModel}>
+                      <SelectTrigger className="w-full">
+                        <SelectValue placeholder="Model" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {models.map((model) => (
+                          <SelectItem key={model.value} value={model.value}>
+                            {model.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="schedule-install-deps"
+                    checked={installDependencies}
+                    onCheckedChange={(checked) => setInstallDependencies(checked === true)}
+                  />
+                  <Label htmlFor="schedule-install-deps" className="text-sm leading-none">
+                    Install Dependencies
+                  </Label>
+                </div>
+                <Button type="submit" size="sm" disabled={isCreating}>
+                  {isCreating ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Create Schedule'}
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+
+          {isLoading ? (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Loading schedules...
+            </div>
+          ) : schedules.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center">No schedules yet.</p>
+          ) : (
+            schedules.map((schedule) => {
+              const isPending = pendingScheduleId === schedule.id
+
+              return (
+                <Card key={schedule.id}>
+                  <CardHeader>
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="min-w-0">
+                        <CardTitle className="text-base flex items-center gap-2">
+                          <span className="truncate">{schedule.name}</span>
+                          {!schedule.enabled && <Badge variant="outline">Paused</Badge>}
+                        </CardTitle>
+                        <CardDescription className="truncate">
+                          {schedule.repoUrl.replace(/^https?:\/\/[^/]+\//, '').replace(/\.git$/, '')} ·{' '}
+                          {getAgentDefinition(schedule.selectedAgent)?.label || schedule.selectedAgent}
+                          {schedule.selectedModel
+                            ? ` (${getModelLabel(schedule.selectedAgent, schedule.selectedModel)})`
+                            : ''}
+                        </CardDescription>
+                      </div>
+                      <div className="flex gap-1 flex-shrink-0">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 w-8 p-0"
+                          onClick={() => handleToggle(schedule)}
+                          disabled={isPending}
+                          title={schedule.enabled ? 'Pause schedule' : 'Resume schedule'}
+                        >
+                          {schedule.enabled ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 w-8 p-0"
+                          onClick={() => handleDelete(schedule)}
+                          disabled={isPending}
+                          title="Delete schedule"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  </CardHeader>
+                  <CardContent className="space-y-3 text-sm">
+                    <p className="text-muted-foreground line-clamp-2">{schedule.prompt}</p>
+                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 text-xs">
+                      <div>
+                        <span className="text-muted-foreground">Cron: </span>
+                        <code>{schedule.cron}</code> ({schedule.timezone})
+                      </div>
+                      <div>
+                        <span className="text-muted-foreground">Next run: </span>
+                        {schedule.enabled ? formatDate(schedule.nextRunAt) : 'Paused'}
+                      </div>
+                      <div>
+                        <span className="text-muted-foreground">Last run: </span>
+                        {formatDate(schedule.lastRunAt)}
+                      </div>
+                    </div>
+                    {schedule.lastError && (
+                      <p className="text-xs text-destructive">Last run failed to start: {schedule.lastError}</p>
+                    )}
+                    <div className="space-y-1">
+                      <h4 className="text-xs font-medium">Past Runs</h4>
+                      {schedule.runs.length === 0 ? (
+                        <p className="text-xs text-muted-foreground">No runs yet.</p>
+                      ) : (
+                        schedule.runs.map((run) => (
+                          <Link
+                            key={run.id}
+                            href={`/tasks/${run.id}`}
+                            className="flex items-center justify-between gap-2 rounded-md px-2 py-1 text-xs hover:bg-accent"
+                          >
+                            <span className="text-muted-foreground">{formatDate(run.createdAt)}</span>
+                            <Badge variant={STATUS_VARIANTS[run.status]}>{run.status}</Badge>
+                          </Link>
+                        ))
+                      )}
+                    </div>
+                  </CardContent>
+                </Card>
+              )
+            })
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
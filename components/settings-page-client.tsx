@@ -0,0 +1,182 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { ArrowLeft, Loader2, Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { PageHeader } from '@/components/page-header'
+import { useTasks } from '@/components/app-layout'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { ApiKeySummary } from '@/lib/db/schema'
+import { API_KEY_PROVIDERS, ApiKeyProvider } from '@/lib/keys/providers'
+
+export function SettingsPageClient() {
+  const { toggleSidebar } = useTasks()
+  const [keys, setKeys] = useState<ApiKeySummary[]>([])
+  const [encryptionConfigured, setEncryptionConfigured] = useState(true)
+  const [isLoading, setIsLoading] = useState(true)
+  const [drafts, setDrafts] = useState<Partial<Record<ApiKeyProvider, string>>>({})
+  const [pendingProvider, setPendingProvider] = useState<ApiKeyProvider | null>(null)
+
+  useEffect(() => {
+    const fetchKeys = async () => {
+      try {
+        const response = await fetch('/api/api-keys')
+        if (!response.ok) {
+          throw new Error('Failed to fetch API keys')
+        }
+        const data: { keys: ApiKeySummary[]; encryptionConfigured: boolean } = await response.json()
+        setKeys(data.keys)
+        setEncryptionConfigured(data.encryptionConfigured)
+      } catch (error) {
+        console.error('Error fetching API keys:', error)
+        toast.error('Failed to load API keys')
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    fetchKeys()
+  }, [])
+
+  const handleSave = async (provider: ApiKeyProvider) => {
+    const value = drafts[provider]?.trim()
+    if (!value) return
+
+    setPendingProvider(provider)
+    try {
+      const response = await fetch('/api/api-keys', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ provider, value }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save API key')
+      }
+
+      const saved: ApiKeySummary = data.key
+      setKeys((prev) => [...prev.filter((key) => key.provider !== provider), saved])
+      setDrafts((prev) => ({ ...prev, [provider]: '' }))
+      toast.success('API key saved')
+    } catch (error) {
+      console.error('Error saving API key:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to save API key')
+    } finally {
+      setPendingProvider(null)
+    }
+  }
+
+  const handleDelete = async (provider: ApiKeyProvider) => {
+    setPendingProvider(provider)
+    try {
+      const response = await fetch(`/api/api-keys/${provider}`, { method: 'DELETE' })
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to remove API key')
+      }
+
+      setKeys((prev) => prev.filter((key) => key.provider !== provider))
+      toast.success('API key removed')
+    } catch (error) {
+      console.error('Error removing API key:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to remove API key')
+    } finally {
+      setPendingProvider(null)
+    }
+  }
+
+  return (
+    <div className="flex-1 bg-background">
+      <div className="mx-auto p-3">
+        <PageHeader
+          showMobileMenu={true}
+          onToggleMobileMenu={toggleSidebar}
+          leftActions={
+            <Button asChild variant="ghost" size="sm" className="h-8 px-2 text-xs">
+              <Link href="/">
+                <ArrowLeft className="h-4 w-4 mr-1" />
+                Back
+              </Link>
+            </Button>
+          }
+        />
+
+        <div className="max-w-2xl mx-auto p-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">API Keys</CardTitle>
+              <CardDescription>
+                Agents use your keys when they are set and the server&apos;s keys otherwise. GitLab and Gitea tokens
+                give tasks access to repositories on those hosts. Keys are encrypted at rest and never shown again after
+                saving.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-5">
+              {!encryptionConfigured && (
+                <p className="text-sm text-yellow-600">
+                  Storing keys is disabled until <code>ENCRYPTION_KEY</code> is set on the server.
+                </p>
+              )}
+
+              {isLoading ? (
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  Loading API keys...
+                </div>
+              ) : (
+                API_KEY_PROVIDERS.map((provider) => {
+                  const stored = keys.find((key) => key.provider === provider.value)
+                  const isPending = pendingProvider === provider.value
+
+                  return (
+                    <div key={provider.value} className="space-y-2">
+                      <div className="flex items-center justify-between gap-2">
+                        <Label htmlFor={`api-key-${provider.value}`}>{provider.label}</Label>
+                        <span className="font-mono text-xs text-muted-foreground">{provider.envVar}</span>
+                      </div>
+                      <div className="flex gap-2">
+                        <Input
+                          id={`api-key-${provider.value}`}
+                          type="password"
+                          autoComplete="off"
+                          placeholder={stored ? `Saved key ending in ${stored.keyHint}` : 'Not set'}
+                          value={drafts[provider.value] || ''}
+                          onChange={(e) => setDrafts((prev) => ({ ...prev, [provider.value]: e.target.value }))}
+                          disabled={!encryptionConfigured || isPending}
+                        />
+                        <Button
+                          size="sm"
+                          className="h-9"
+                          onClick={() => handleSave(provider.value)}
+                          disabled={!encryptionConfigured || isPending || !drafts[provider.value]?.trim()}
+                        >
+                          {isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Save'}
+                        </Button>
+                        {stored && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-9 w-9 p-0"
+                            onClick={() => handleDelete(provider.value)}
+                            disabled={isPending}
+                            title="Remove key"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  )
+                })
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  )
+}
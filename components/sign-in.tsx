@@ -0,0 +1,45 @@
+'use client'
+
+import { useSearchParams } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+
+interface SignInProps {
+  isConfigured: boolean
+}
+
+export function SignIn({ isConfigured }: SignInProps) {
+  const searchParams = useSearchParams()
+  const authError = searchParams.get('auth_error')
+
+  return (
+    <div className="flex min-h-screen items-center justify-center p-6">
+      <Card className="w-full max-w-sm">
+        <CardHeader>
+          <CardTitle className="text-lg">Sign in</CardTitle>
+          <CardDescription>
+            Tasks run against your repositories with your own GitHub access, and only you can see them.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {authError && <p className="text-sm text-red-600">{authError}</p>}
+          {isConfigured ? (
+            <Button asChild className="w-full">
+              <a href="/api/auth/github/login">
+                <svg viewBox="0 0 16 16" className="mr-2 h-4 w-4" fill="currentColor">
+                  <path d="M8 0C3.58 0 0 3.58 0 8c0 3.54 2.29 6.53 5.47 7.59.4.07.55-.17.55-.38 0-.19-.01-.82-.01-1.49-2.01.37-2.53-.49-2.69-.94-.09-.23-.48-.94-.82-1.13-.28-.15-.68-.52-.01-.53.63-.01 1.08.58 1.23.82.72 1.21 1.87.87 2.33.66.07-.52.28-.87.51-1.07-1.78-.2-3.64-.89-3.64-3.95 0-.87.31-1.59.82-2.15-.08-.2-.36-1.02.08-2.12 0 0 .67-.21 2.2.82.64-.18 1.32-.27 2-.27.68 0 1.36.09 2 .27 1.53-1.04 2.2-.82 2.2-.82.44 1.1.16 1.92.08 2.12.51.56.82 1.27.82 2.15 0 3.07-1.87 3.75-3.65 3.95.29.25.54.73.54 1.48 0 1.07-.01 1.93-.01 2.2 0 .21.15.46.55.38A8.013 8.013 0 0016 8c0-4.42-3.58-8-8-8z" />
+                </svg>
+                Sign in with GitHub
+              </a>
+            </Button>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              GitHub sign-in is not configured. Set <code>GITHUB_CLIENT_ID</code> and <code>GITHUB_CLIENT_SECRET</code>{' '}
+              to enable it.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -5,6 +5,7 @@ import { Task } from '@/lib/db/schema'
 import { Button } from '@/components/ui/button'
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Textarea } from '@/components/ui/textarea'
 import {
   AlertDialog,
   AlertDialogAction,
@@ -15,97 +16,46 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog'
-import { MoreHorizontal, RotateCcw, Trash2, ExternalLink } from 'lucide-react'
+import { MoreHorizontal, RotateCcw, Trash2, ExternalLink, MessageSquarePlus } from 'lucide-react'
 import { useRouter } from 'next/navigation'
 import { toast } from 'sonner'
 import { VERCEL_DEPLOY_URL } from '@/lib/constants'
 import { useTasks } from '@/components/app-layout'
-import { Claude, Codex, Cursor, Gemini, OpenCode } from '@/components/logos'
+import { getAgentLogo } from '@/components/logos'
+import { AGENT_DEFINITIONS, getAgentModels, getDefaultModel } from '@/lib/sandbox/agents/definitions'
+import { getCompareUrl } from '@/lib/git-providers/definitions'
 
 interface TaskActionsProps {
   task: Task
 }
 
-const CODING_AGENTS = [
-  { value: 'claude', label: 'Claude', icon: Claude },
-  { value: 'codex', label: 'Codex', icon: Codex },
-  { value: 'cursor', label: 'Cursor', icon: Cursor },
-  { value: 'gemini', label: 'Gemini', icon: Gemini },
-  { value: 'opencode', label: 'opencode', icon: OpenCode },
-] as const
-
-// Model options for each agent
-const AGENT_MODELS = {
-  claude: [
-    { value: 'claude-sonnet-4-5-20250929', label: 'Sonnet 4.5' },
-    { value: 'claude-sonnet-4-20250514', label: 'Sonnet 4' },
-    { value: 'claude-opus-4-1-20250805', label: 'Opus 4.1' },
-  ],
-  codex: [
-    { value: 'openai/gpt-5', label: 'GPT-5' },
-    { value: 'gpt-5-codex', label: 'GPT-5-Codex' },
-    { value: 'openai/gpt-5-mini', label: 'GPT-5 Mini' },
-    { value: 'openai/gpt-5-nano', label: 'GPT-5 Nano' },
-    { value: 'openai/gpt-4.1', label: 'GPT-4.1' },
-  ],
-  cursor: [
-    { value: 'gpt-5', label: 'GPT-5' },
-    { value: 'gpt-5-mini', label: 'GPT-5 Mini' },
-    { value: 'gpt-5-nano', label: 'GPT-5 Nano' },
-    { value: 'gpt-4.1', label: 'GPT-4.1' },
-    { value: 'claude-sonnet-4-5-20250929', label: 'Sonnet 4.5' },
-    { value: 'claude-sonnet-4-20250514', label: 'Sonnet 4' },
-    { value: 'claude-opus-4-1-20250805', label: 'Opus 4.1' },
-  ],
-  gemini: [
-    { value: 'gemini-2.5-pro', label: 'Gemini 2.5 Pro' },
-    { value: 'gemini-2.5-flash', label: 'Gemini 2.5 Flash' },
-  ],
-  opencode: [
-    { value: 'gpt-5', label: 'GPT-5' },
-    { value: 'gpt-5-mini', label: 'GPT-5 Mini' },
-    { value: 'gpt-5-nano', label: 'GPT-5 Nano' },
-    { value: 'gpt-4.1', label: 'GPT-4.1' },
-    { value: 'claude-sonnet-4-5-20250929', label: 'Sonnet 4.5' },
-    { value: 'claude-sonnet-4-20250514', label: 'Sonnet 4' },
-    { value: 'claude-opus-4-1-20250805', label: 'Opus 4.1' },
-  ],
-} as const
-
-// Default models for each agent
-const DEFAULT_MODELS = {
-  claude: 'claude-sonnet-4-5-20250929',
-  codex: 'openai/gpt-5',
-  cursor: 'gpt-5',
-  gemini: 'gemini-2.5-pro',
-  opencode: 'gpt-5',
-} as const
-
 export function TaskActions({ task }: TaskActionsProps) {
   const [showDeleteDialog, setShowDeleteDialog] = useState(false)
   const [showTryAgainDialog, setShowTryAgainDialog] = useState(false)
   const [isDeleting, setIsDeleting] = useState(false)
   const [isTryingAgain, setIsTryingAgain] = useState(false)
+  const [showContinueDialog, setShowContinueDialog] = useState(false)
+  const [isContinuing, setIsContinuing] = useState(false)
+  const [followUpPrompt, setFollowUpPrompt] = useState('')
   const [selectedAgent, setSelectedAgent] = useState(task.selectedAgent || 'claude')
-  const [selectedModel, setSelectedModel] = useState<string>(task.selectedModel || DEFAULT_MODELS.claude)
+  const [selectedModel, setSelectedModel] = useState<string>(task.selectedModel || getDefaultModel('claude')!)
   const router = useRouter()
   const { refreshTasks } = useTasks()
 
   // Update model when agent changes
   useEffect(() => {
     if (selectedAgent) {
-      const agentModels = AGENT_MODELS[selectedAgent as keyof typeof AGENT_MODELS]
-      const defaultModel = DEFAULT_MODELS[selectedAgent as keyof typeof DEFAULT_MODELS]
-      if (defaultModel && agentModels) {
+      const defaultModel = getDefaultModel(selectedAgent)
+      if (defaultModel) {
         setSelectedModel(defaultModel)
       }
     }
   }, [selectedAgent])
 
   const getPRUrl = () => {
+    if (task.prUrl) return task.prUrl
     if (!task.repoUrl || !task.branchName) return null
-    const baseUrl = task.repoUrl.replace('.git', '')
-    return `${baseUrl}/compare/main...${task.branchName}`
+    return getCompareUrl(task.gitProvider, task.repoUrl, task.baseBranch || 'main', task.branchName)
   }
 
   const handleOpenPR = () => {
@@ -128,6 +78,13 @@ export function TaskActions({ task }: TaskActionsProps) {
           repoUrl: task.repoUrl,
           selectedAgent,
           selectedModel,
+          baseBranch: task.baseBranch || undefined,
+          targetPackage: task.targetPackage || undefined,
+          prDraft: task.prDraft || false,
+          prLabels: task.prLabels || undefined,
+          prReviewers: task.prReviewers || undefined,
+          fallbackChain: task.fallbackChain || undefined,
+          maxRepairRounds: task.maxRepairRounds || 0,
         }),
       })
 
@@ -148,6 +105,43 @@ export function TaskActions({ task }: TaskActionsProps) {
     }
   }
 
+  // Follow-ups need a pushed branch and a task that is no longer running
+  const canContinue = !!task.branchName && task.status !== 'pending' && task.status !== 'processing'
+
+  const handleContinue = async () => {
+    if (!followUpPrompt.trim()) return
+
+    setIsContinuing(true)
+    try {
+      const response = await fetch(`/api/tasks/${task.id}/continue`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          prompt: followUpPrompt.trim(),
+          selectedAgent,
+          selectedModel,
+        }),
+      })
+
+      if (response.ok) {
+        toast.success('Follow-up started!')
+        setShowContinueDialog(false)
+        setFollowUpPrompt('')
+        refreshTasks()
+      } else {
+        const error = await response.json()
+        toast.error(error.error || 'Failed to continue task')
+      }
+    } catch (error) {
+      console.error('Error continuing task:', error)
+      toast.error('Failed to continue task')
+    } finally {
+      setIsContinuing(false)
+    }
+  }
+
   const handleDelete = async () => {
     setIsDeleting(true)
     try {
@@ -204,6 +198,12 @@ export function TaskActions({ task }: TaskActionsProps) {
                 Open PR
               </DropdownMenuItem>
             )}
+            {canContinue && (
+              <DropdownMenuItem onClick={() => setShowContinueDialog(true)}>
+                <MessageSquarePlus className="h-4 w-4 mr-2" />
+                Continue
+              </DropdownMenuItem>
+            )}
             <DropdownMenuItem onClick={() => setShowTryAgainDialog(true)}>
               <RotateCcw className="h-4 w-4 mr-2" />
               Try Again
@@ -223,39 +223,12 @@ export function TaskActions({ task }: TaskActionsProps) {
             <AlertDialogDescription>Create a new task with the same prompt and repository.</AlertDialogDescription>
           </AlertDialogHeader>
           <div className="py-4">
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <div>
-                <Select value={selectedAgent} onValueChange={setSelectedAgent}>
-                  <SelectTrigger className="w-full">
-                    <SelectValue placeholder="Select an agent" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {CODING_AGENTS.map((agent) => (
-                      <SelectItem key={agent.value} value={agent.value}>
-                        <div className="flex items-center gap-2">
-                          <agent.icon className="w-4 h-4" />
-                          <span>{agent.label}</span>
-                        </div>
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-              </div>
-              <div>
-                <Select value={selectedModel} onValueChange={setSelectedModel}>
-                  <SelectTrigger className="w-full">
-                    <SelectValue placeholder="Select a model" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {AGENT_MODELS[selectedAgent as keyof typeof AGENT_MODELS]?.map((model) => (
-                      <SelectItem key={model.value} value={model.value}>
-                        {model.label}
-                      </SelectItem>
-                    )) || []}
-                  </SelectContent>
-                </Select>
-              </div>
-            </div>
+            <AgentModelSelector
+              selectedAgent={selectedAgent}
+              selectedModel={selectedModel}
+              onAgentChange={setSelectedAgent}
+              onModelChange={setSelectedModel}
+            />
           </div>
           <AlertDialogFooter>
             <AlertDialogCancel>Cancel</AlertDialogCancel>
@@ -266,6 +239,38 @@ export function TaskActions({ task }: TaskActionsProps) {
         </AlertDialogContent>
       </AlertDialog>
 
+      <AlertDialog open={showContinueDialog} onOpenChange={setShowContinueDialog}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Continue Task</AlertDialogTitle>
+            <AlertDialogDescription>
+              Send a follow-up instruction. The agent picks up from the {task.branchName} branch and pushes new commits
+              to it.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="py-4 space-y-4">
+            <Textarea
+              value={followUpPrompt}
+              onChange={(e) => setFollowUpPrompt(e.target.value)}
+              placeholder="What should the agent do next?"
+              className="min-h-24"
+            />
+            <AgentModelSelector
+              selectedAgent={selectedAgent}
+              selectedModel={selectedModel}
+              onAgentChange={setSelectedAgent}
+              onModelChange={setSelectedModel}
+            />
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleContinue} disabled={isContinuing || !followUpPrompt.trim()}>
+              {isContinuing ? 'Starting...' : 'Continue'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
         <AlertDialogContent>
           <AlertDialogHeader>
@@ -285,3 +290,51 @@ export function TaskActions({ task }: TaskActionsProps) {
     </>
   )
 }
+
+interface AgentModelSelectorProps {
+  selectedAgent: string
+  selectedModel: string
+  onAgentChange: (agent: string) => void
+  onModelChange: (model: string) => void
+}
+
+function AgentModelSelector({ selectedAgent, selectedModel, onAgentChange, onModelChange }: AgentModelSelectorProps) {
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      <div>
+        <Select value={selectedAgent} onValueChange={onAgentChange}>
+          <SelectTrigger className="w-full">
+            <SelectValue placeholder="Select an agent" />
+          </SelectTrigger>
+          <SelectContent>
+            {AGENT_DEFINITIONS.map((agent) => {
+              const AgentLogo = getAgentLogo(agent.value)
+              return (
+                <SelectItem key={agent.value} value={agent.value}>
+                  <div className="flex items-center gap-2">
+                    {AgentLogo && <AgentLogo className="w-4 h-4" />}
+                    <span>{agent.label}</span>
+                  </div>
+                </SelectItem>
+              )
+            })}
+          </SelectContent>
+        </Select>
+      </div>
+      <div>
+        <Select value={selectedModel} onValueChange={onModelChange}>
+          <SelectTrigger className="w-full">
+            <SelectValue placeholder="Select a model" />
+          </SelectTrigger>
+          <SelectContent>
+            {getAgentModels(selectedAgent).map((model) => (
+              <SelectItem key={model.value} value={model.value}>
+                {model.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,95 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Loader2 } from 'lucide-react'
+import { Task, TaskArtifact } from '@/lib/db/schema'
+import { DiffViewer } from '@/components/diff-viewer'
+import { Button } from '@/components/ui/button'
+
+interface TaskChangesProps {
+  task: Task
+}
+
+export function TaskChanges({ task }: TaskChangesProps) {
+  const [diffs, setDiffs] = useState<TaskArtifact[]>([])
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  // Diffs are captured when a run pushes, so reload whenever the status changes
+  useEffect(() => {
+    let cancelled = false
+
+    const fetchDiffs = async () => {
+      try {
+        const response = await fetch(`/api/tasks/${task.id}/diff`)
+        if (!response.ok) {
+          throw new Error('Failed to fetch changes')
+        }
+        const data: { diffs: TaskArtifact[] } = await response.json()
+        if (!cancelled) {
+          setDiffs(data.diffs)
+          setError(null)
+        }
+      } catch (err) {
+        console.error('Error fetching task changes:', err)
+        if (!cancelled) setError('Failed to load changes')
+      } finally {
+        if (!cancelled) setIsLoading(false)
+      }
+    }
+
+    fetchDiffs()
+
+    return () => {
+      cancelled = true
+    }
+  }, [task.id, task.status])
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Loading changes...
+      </div>
+    )
+  }
+
+  if (error) {
+    return <p className="text-sm text-red-600">{error}</p>
+  }
+
+  if (diffs.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        {task.status === 'pending' || task.status === 'processing'
+          ? 'Changes will appear here once the agent finishes and they are committed.'
+          : 'No changes were committed for this task.'}
+      </p>
+    )
+  }
+
+  // Show the latest run unless an earlier one was picked
+  const current = diffs[selectedIndex ?? diffs.length - 1]
+
+  return (
+    <div className="space-y-3">
+      {diffs.length > 1 && (
+        <div className="flex flex-wrap gap-1">
+          {diffs.map((diff, index) => (
+            <Button
+              key={diff.id}
+              variant={diff.id === current.id ? 'secondary' : 'ghost'}
+              size="sm"
+              className="h-7 px-2 text-xs"
+              onClick={() => setSelectedIndex(index)}
+            >
+              Run {index + 1}
+            </Button>
+          ))}
+        </div>
+      )}
+      <DiffViewer key={current.id} diff={current.data} />
+    </div>
+  )
+}
@@ -0,0 +1,218 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import Link from 'next/link'
+import { ExternalLink, GitPullRequest, Loader2, Trophy } from 'lucide-react'
+import { toast } from 'sonner'
+import { Task } from '@/lib/db/schema'
+import type { ComparisonRun } from '@/lib/tasks/comparisons'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { getAgentLogo } from '@/components/logos'
+import { getModelLabel } from '@/lib/sandbox/agents/definitions'
+import { getBranchUrl } from '@/lib/git-providers/definitions'
+import { cn } from '@/lib/utils'
+
+// How often runs are refreshed while any of them is still going
+const POLL_INTERVAL_MS = 5000
+
+interface TaskComparisonProps {
+  task: Task
+}
+
+function formatDuration(durationMs: number | null) {
+  if (durationMs === null) return '—'
+  const seconds = Math.floor(durationMs / 1000)
+  const minutes = Math.floor(seconds / 60)
+  return minutes > 0 ? `${minutes}m ${seconds % 60}s` : `${seconds}s`
+}
+
+function getStatusColor(status: Task['status']) {
+  switch (status) {
+    case 'completed':
+      return 'text-green-600'
+    case 'error':
+      return 'text-red-600'
+    case 'stopped':
+      return 'text-orange-600'
+    default:
+      return 'text-muted-foreground'
+  }
+}
+
+export function TaskComparison({ task }: TaskComparisonProps) {
+  const [runs, setRuns] = useState<ComparisonRun[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [pickingRunId, setPickingRunId] = useState<string | null>(null)
+
+  const fetchRuns = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/tasks/${task.id}/comparison`)
+      if (response.ok) {
+        const data: { runs: ComparisonRun[] } = await response.json()
+        setRuns(data.runs)
+      }
+    } catch (error) {
+      console.error('Error fetching comparison:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [task.id])
+
+  // The comparison task changes whenever a run finishes or a winner is picked
+  useEffect(() => {
+    fetchRuns()
+  }, [fetchRuns, task.updatedAt])
+
+  const isRunning = runs.some((run) => run.task.status === 'pending' || run.task.status === 'processing')
+
+  useEffect(() => {
+    if (!isRunning) return
+    const interval = setInterval(fetchRuns, POLL_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [isRunning, fetchRuns])
+
+  const winner = runs.find((run) => run.task.prUrl)
+
+  const handlePick = async (runId: string) => {
+    setPickingRunId(runId)
+    try {
+      const response = await fetch(`/api/tasks/${task.id}/comparison`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ runId }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to open pull request')
+      }
+
+      toast.success('Pull request opened')
+      await fetchRuns()
+    } catch (error) {
+      console.error('Error picking comparison winner:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to open pull request')
+    } finally {
+      setPickingRunId(null)
+    }
+  }
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="text-lg">Comparison</CardTitle>
+        <CardDescription>
+          Each agent ran the prompt in its own sandbox. Pick one to open its pull request.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading runs...
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-muted-foreground border-b">
+                  <th className="py-2 pr-4 font-medium">Agent</th>
+                  <th className="py-2 pr-4 font-medium">Status</th>
+                  <th className="py-2 pr-4 font-medium">Duration</th>
+                  <th className="py-2 pr-4 font-medium">Changes</th>
+                  <th className="py-2 pr-4 font-medium">Checks</th>
+                  <th className="py-2 pr-4 font-medium">Branch</th>
+                  <th className="py-2 font-medium" />
+                </tr>
+              </thead>
+              <tbody>
+                {runs.map(({ task: run, durationMs, diff, checks }) => {
+                  const AgentLogo = getAgentLogo(run.selectedAgent)
+                  return (
+                    <tr key={run.id} className="border-b last:border-0">
+                      <td className="py-2 pr-4">
+                        <Link href={`/tasks/${run.id}`} className="flex items-center gap-2 hover:underline">
+                          {AgentLogo && <AgentLogo className="w-4 h-4" />}
+                          <span className="capitalize">{run.selectedAgent}</span>
+                          {run.selectedModel && (
+                            <span className="text-muted-foreground">
+                              {getModelLabel(run.selectedAgent, run.selectedModel)}
+                            </span>
+                          )}
+                        </Link>
+                      </td>
+                      <td className={cn('py-2 pr-4 capitalize', getStatusColor(run.status))}>{run.status}</td>
+                      <td className="py-2 pr-4 text-muted-foreground">{formatDuration(durationMs)}</td>
+                      <td className="py-2 pr-4">
+                        {diff ? (
+                          <span>
+                            {diff.filesChanged} files <span className="text-green-600">+{diff.insertions}</span>{' '}
+                            <span className="text-red-600">-{diff.deletions}</span>
+                          </span>
+                        ) : (
+                          <span className="text-muted-foreground">—</span>
+                        )}
+                      </td>
+                      <td className="py-2 pr-4">
+                        {checks ? (
+                          <span className={checks.passed === checks.total ? 'text-green-600' : 'text-red-600'}>
+                            {checks.passed}/{checks.total} passed
+                          </span>
+                        ) : (
+                          <span className="text-muted-foreground">—</span>
+                        )}
+                      </td>
+                      <td className="py-2 pr-4">
+                        {run.branchName && run.repoUrl && diff ? (
+                          <a
+                            href={getBranchUrl(run.gitProvider, run.repoUrl, run.branchName)}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="flex items-center gap-1 text-muted-foreground hover:text-foreground"
+                          >
+                            <span className="truncate max-w-[160px]">{run.branchName}</span>
+                            <ExternalLink className="h-3 w-3 flex-shrink-0" />
+                          </a>
+                        ) : (
+                          <span className="text-muted-foreground">—</span>
+                        )}
+                      </td>
+                      <td className="py-2 text-right">
+                        {run.prUrl ? (
+                          <Badge variant="outline" className="gap-1">
+                            <Trophy className="h-3 w-3" />
+                            <a href={run.prUrl} target="_blank" rel="noopener noreferrer">
+                              #{run.prNumber}
+                            </a>
+                          </Badge>
+                        ) : (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            className="h-7 text-xs"
+                            onClick={() => handlePick(run.id)}
+                            disabled={!!winner || run.status !== 'completed' || !diff || pickingRunId !== null}
+                          >
+                            {pickingRunId === run.id ? (
+                              <Loader2 className="h-3 w-3 animate-spin" />
+                            ) : (
+                              <>
+                                <GitPullRequest className="h-3 w-3 mr-1" />
+                                Open PR
+                              </>
+                            )}
+                          </Button>
+                        )}
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
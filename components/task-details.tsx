@@ -1,27 +1,62 @@
 'use client'
 
-import { Task, LogEntry } from '@/lib/db/schema'
+import { Task, TaskAttempt, TaskCheck, TaskMessage, LogEntry } from '@/lib/db/schema'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
-import { ExternalLink, GitBranch, Clock, CheckCircle, AlertCircle, Loader2, Copy, Check, Square } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import {
+  ExternalLink,
+  GitBranch,
+  GitPullRequest,
+  Clock,
+  CheckCircle,
+  AlertCircle,
+  Loader2,
+  Copy,
+  Check,
+  Square,
+  Package,
+} from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { useState, useEffect, useRef } from 'react'
 import { toast } from 'sonner'
-import { Claude, Codex, Cursor, OpenCode } from '@/components/logos'
+import { getAgentLogo } from '@/components/logos'
 import { useTasks } from '@/components/app-layout'
 import { TaskDuration } from '@/components/task-duration'
+import { AgentTimeline } from '@/components/agent-timeline'
+import { TaskChanges } from '@/components/task-changes'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { TASK_PHASE_LABELS, formatDuration } from '@/lib/utils/time-budget'
+import { AGENT_FAILURE_LABELS } from '@/lib/sandbox/agents/failures'
+import { CHECK_LABELS } from '@/lib/sandbox/checks/definitions'
+import { getBranchUrl } from '@/lib/git-providers/definitions'
 
 interface TaskDetailsProps {
   task: Task
+  messages?: TaskMessage[]
+  attempts?: TaskAttempt[]
+  checks?: TaskCheck[]
+  logs?: LogEntry[]
+  hasMoreLogs?: boolean
+  onLoadEarlierLogs?: () => Promise<void>
 }
 
-export function TaskDetails({ task }: TaskDetailsProps) {
+export function TaskDetails({
+  task,
+  messages = [],
+  attempts = [],
+  checks = [],
+  logs = [],
+  hasMoreLogs = false,
+  onLoadEarlierLogs,
+}: TaskDetailsProps) {
   const [copiedPrompt, setCopiedPrompt] = useState(false)
   const [copiedLogs, setCopiedLogs] = useState(false)
   const [isStopping, setIsStopping] = useState(false)
+  const [isLoadingEarlierLogs, setIsLoadingEarlierLogs] = useState(false)
   const [optimisticStatus, setOptimisticStatus] = useState<Task['status'] | null>(null)
   const logsContainerRef = useRef<HTMLDivElement>(null)
-  const prevLogsLengthRef = useRef<number>(0)
+  const prevLastSeqRef = useRef<number | undefined>(undefined)
   const hasInitialScrolled = useRef<boolean>(false)
   const { refreshTasks } = useTasks()
 
@@ -37,6 +72,9 @@ export function TaskDetails({ task }: TaskDetailsProps) {
     }
   }
 
+  // The most recent result of each kind of check
+  const latestChecks = [...new Map(checks.map((check) => [check.kind, check])).values()]
+
   // Use optimistic status if available, otherwise use actual task status
   const currentStatus = optimisticStatus || task.status
 
@@ -47,26 +85,9 @@ export function TaskDetails({ task }: TaskDetailsProps) {
     }
   }, [task.status, optimisticStatus])
 
-  const getAgentLogo = (agent: string | null) => {
-    if (!agent) return null
-
-    switch (agent.toLowerCase()) {
-      case 'claude':
-        return Claude
-      case 'codex':
-        return Codex
-      case 'cursor':
-        return Cursor
-      case 'opencode':
-        return OpenCode
-      default:
-        return null
-    }
-  }
-
   // Scroll to bottom on initial load
   useEffect(() => {
-    if (task.logs && task.logs.length > 0 && !hasInitialScrolled.current && logsContainerRef.current) {
+    if (logs.length > 0 && !hasInitialScrolled.current && logsContainerRef.current) {
       // Use setTimeout to ensure the DOM is fully rendered
       setTimeout(() => {
         if (logsContainerRef.current) {
@@ -75,22 +96,21 @@ export function TaskDetails({ task }: TaskDetailsProps) {
         }
       }, 100)
     }
-  }, [task.logs])
+  }, [logs])
 
-  // Auto-scroll to bottom when new logs are added (after initial load)
+  // Auto-scroll to bottom when new logs are appended (after initial load, not when loading earlier pages)
   useEffect(() => {
-    const currentLogsLength = task.logs?.length || 0
+    const lastSeq = logs[logs.length - 1]?.seq
 
-    // Only scroll if new logs were added (not on initial load)
-    if (currentLogsLength > prevLogsLengthRef.current && prevLogsLengthRef.current > 0) {
+    if (prevLastSeqRef.current !== undefined && lastSeq !== prevLastSeqRef.current) {
       if (logsContainerRef.current) {
         logsContainerRef.current.scrollTop = logsContainerRef.current.scrollHeight
       }
     }
 
-    // Update the previous logs length
-    prevLogsLengthRef.current = currentLogsLength
-  }, [task.logs])
+    // Remember the newest entry seen
+    prevLastSeqRef.current = lastSeq
+  }, [logs])
 
   const copyPromptToClipboard = async (text: string) => {
     try {
@@ -105,7 +125,7 @@ export function TaskDetails({ task }: TaskDetailsProps) {
 
   const copyLogsToClipboard = async () => {
     try {
-      const logsText = (task.logs || []).map((log) => log.message).join('\n')
+      const logsText = logs.map((log) => log.message).join('\n')
 
       await navigator.clipboard.writeText(logsText)
       setCopiedLogs(true)
@@ -116,6 +136,16 @@ export function TaskDetails({ task }: TaskDetailsProps) {
     }
   }
 
+  const handleLoadEarlierLogs = async () => {
+    if (!onLoadEarlierLogs) return
+    setIsLoadingEarlierLogs(true)
+    try {
+      await onLoadEarlierLogs()
+    } finally {
+      setIsLoadingEarlierLogs(false)
+    }
+  }
+
   const handleStopTask = async () => {
     setIsStopping(true)
     // Optimistically update the status to 'stopped'
@@ -240,6 +270,13 @@ export function TaskDetails({ task }: TaskDetailsProps) {
               <TaskDuration task={task} />
             </div>
 
+            {task.timeoutPhase && (
+              <div className="text-sm bg-muted p-3 rounded-md text-red-500">
+                Ran out of time during {TASK_PHASE_LABELS[task.timeoutPhase]}
+                {task.maxDuration ? ` (${task.maxDuration}-minute budget)` : ''}. Try a longer maximum duration.
+              </div>
+            )}
+
             <div>
               <div className="flex items-center justify-between mb-2">
                 <h4 className="font-medium">Prompt</h4>
@@ -293,7 +330,7 @@ export function TaskDetails({ task }: TaskDetailsProps) {
                         rel="noopener noreferrer"
                         className="text-muted-foreground hover:text-foreground truncate"
                       >
-                        {task.repoUrl.replace('https://github.com/', '').replace('.git', '')}
+                        {task.repoUrl.replace(/^https?:\/\/[^/]+\//, '').replace(/\.git$/, '')}
                       </a>
                     </div>
                   </div>
@@ -306,7 +343,7 @@ export function TaskDetails({ task }: TaskDetailsProps) {
                       <GitBranch className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
                       {task.repoUrl ? (
                         <a
-                          href={`${task.repoUrl.replace('.git', '')}/tree/${task.branchName}`}
+                          href={getBranchUrl(task.gitProvider, task.repoUrl, task.branchName)}
                           target="_blank"
                           rel="noopener noreferrer"
                           className="text-muted-foreground hover:text-foreground truncate"
@@ -319,74 +356,261 @@ export function TaskDetails({ task }: TaskDetailsProps) {
                     </div>
                   </div>
                 )}
+
+                {task.targetPackage && (
+                  <div className="min-w-0">
+                    <h4 className="font-medium mb-2">Package</h4>
+                    <div className="flex items-center gap-2 text-sm">
+                      <Package className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+                      <span className="text-muted-foreground truncate">{task.targetPackage}</span>
+                    </div>
+                  </div>
+                )}
               </div>
             )}
-          </CardContent>
-        </Card>
 
-        {/* Logs */}
-        {task.logs && task.logs.length > 0 && (
-          <Card>
-            <CardHeader>
-              <div className="flex items-center justify-between">
-                <div>
-                  <CardTitle className="text-lg">Execution Logs</CardTitle>
-                  <CardDescription>Detailed logs from the task execution</CardDescription>
+            {task.prUrl && (
+              <div className="min-w-0">
+                <h4 className="font-medium mb-2">Pull Request</h4>
+                <div className="flex items-center gap-2 text-sm">
+                  <GitPullRequest className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+                  <a
+                    href={task.prUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-muted-foreground hover:text-foreground truncate"
+                  >
+                    #{task.prNumber}
+                  </a>
+                  {task.prState && (
+                    <Badge variant="outline" className="capitalize">
+                      {task.prState}
+                    </Badge>
+                  )}
                 </div>
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  onClick={copyLogsToClipboard}
-                  className="h-8 w-8 p-0"
-                  title="Copy logs to clipboard"
-                >
-                  {copiedLogs ? <Check className="h-4 w-4 text-green-600" /> : <Copy className="h-4 w-4" />}
-                </Button>
               </div>
-            </CardHeader>
-            <CardContent>
-              <div
-                ref={logsContainerRef}
-                className="bg-black text-green-400 p-4 rounded-md font-mono text-sm max-h-96 overflow-y-auto"
-              >
-                {(task.logs || []).map((log, index) => {
-                  const getLogColor = (logType: LogEntry['type']) => {
-                    switch (logType) {
-                      case 'command':
-                        return 'text-gray-400'
-                      case 'error':
-                        return 'text-red-400'
-                      case 'success':
-                        return 'text-green-400'
-                      case 'info':
-                      default:
-                        return 'text-white'
-                    }
-                  }
-
-                  const formatTime = (timestamp: Date) => {
-                    return new Date(timestamp).toLocaleTimeString('en-US', {
-                      hour12: false,
-                      hour: '2-digit',
-                      minute: '2-digit',
-                      second: '2-digit',
-                      fractionalSecondDigits: 3,
-                    })
-                  }
-
-                  return (
-                    <div key={index} className={cn('mb-1 flex gap-2', getLogColor(log.type))}>
-                      <span className="text-gray-500 text-xs shrink-0 mt-0.5">
-                        [{formatTime(log.timestamp || new Date())}]
-                      </span>
-                      <span className="flex-1">{log.message}</span>
+            )}
+          </CardContent>
+        </Card>
+
+        <Tabs defaultValue="activity" className="gap-6">
+          <TabsList>
+            <TabsTrigger value="activity">Activity</TabsTrigger>
+            <TabsTrigger value="changes">Changes</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="activity" className="space-y-6">
+            {/* Conversation - shown once the task has follow-up turns */}
+            {messages.length > 2 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg">Conversation</CardTitle>
+                  <CardDescription>Prompts and agent replies for each turn on this branch</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {messages.map((message) => {
+                    const AgentLogo = message.role === 'agent' ? getAgentLogo(message.selectedAgent) : null
+                    return (
+                      <div
+                        key={message.id}
+                        className={cn('rounded-md p-3 text-sm', message.role === 'user' ? 'bg-muted' : 'border')}
+                      >
+                        <div className="flex items-center gap-2 mb-1 text-xs text-muted-foreground">
+                          {AgentLogo && <AgentLogo className="w-3 h-3" />}
+                          <span className="capitalize">
+                            {message.role === 'user' ? 'You' : message.selectedAgent || 'Agent'}
+                          </span>
+                          <span>{formatDateTime(new Date(message.createdAt))}</span>
+                        </div>
+                        <p className="whitespace-pre-wrap break-words">{message.content}</p>
+                      </div>
+                    )
+                  })}
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Checks - tests, lint, type-check and build run against the agent's changes */}
+            {latestChecks.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg">Checks</CardTitle>
+                  <CardDescription>Latest result of each check run against the changes</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {latestChecks.map((check) => (
+                    <div key={check.id} className="text-sm">
+                      <div className="flex items-center gap-2">
+                        {check.status === 'passed' ? (
+                          <CheckCircle className="h-4 w-4 text-green-600 flex-shrink-0" />
+                        ) : (
+                          <AlertCircle className="h-4 w-4 text-red-600 flex-shrink-0" />
+                        )}
+                        <span>{CHECK_LABELS[check.kind]}</span>
+                        <code className="text-xs text-muted-foreground truncate">{check.command}</code>
+                        <span className="ml-auto text-xs text-muted-foreground flex-shrink-0">
+                          {check.round > 0 && `after repair ${check.round} · `}
+                          {formatDuration(check.durationMs)}
+                        </span>
+                      </div>
+                      {check.status === 'failed' && check.output && (
+                        <details className="mt-1 ml-6">
+                          <summary className="text-xs text-muted-foreground cursor-pointer">Output</summary>
+                          <pre className="mt-1 text-xs bg-muted p-2 rounded-md overflow-x-auto whitespace-pre-wrap">
+                            {check.output}
+                          </pre>
+                        </details>
+                      )}
                     </div>
-                  )
-                })}
-              </div>
-            </CardContent>
-          </Card>
-        )}
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Attempts - shown once an agent was retried or fell back to another one */}
+            {attempts.length > 1 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg">Attempts</CardTitle>
+                  <CardDescription>Each agent run, including retries and fallbacks</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {attempts.map((attempt) => {
+                    const AgentLogo = getAgentLogo(attempt.agent)
+                    return (
+                      <div key={attempt.id} className="flex items-start gap-2 text-sm">
+                        <span className="text-muted-foreground w-6 flex-shrink-0">#{attempt.attemptNumber}</span>
+                        {AgentLogo && <AgentLogo className="w-4 h-4 mt-0.5 flex-shrink-0" />}
+                        <div className="min-w-0 flex-1">
+                          <div className="flex items-center gap-2">
+                            <span className="capitalize">{attempt.agent}</span>
+                            {attempt.model && <span className="text-muted-foreground truncate">{attempt.model}</span>}
+                            <Badge
+                              variant="outline"
+                              className={cn(
+                                attempt.status === 'succeeded' && 'text-green-600',
+                                attempt.status === 'failed' && 'text-red-600',
+                              )}
+                            >
+                              {attempt.failureKind ? AGENT_FAILURE_LABELS[attempt.failureKind] : attempt.status}
+                            </Badge>
+                          </div>
+                          {attempt.error && (
+                            <p className="text-xs text-muted-foreground truncate" title={attempt.error}>
+                              {attempt.error}
+                            </p>
+                          )}
+                        </div>
+                      </div>
+                    )
+                  })}
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Agent activity - structured events parsed from the agent's output */}
+            {logs.some((log) => log.event) && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg">Agent Activity</CardTitle>
+                  <CardDescription>Tool calls, file edits and commands the agent ran</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <AgentTimeline logs={logs} />
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Logs */}
+            {logs.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <CardTitle className="text-lg">Execution Logs</CardTitle>
+                      <CardDescription>Detailed logs from the task execution</CardDescription>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={copyLogsToClipboard}
+                      className="h-8 w-8 p-0"
+                      title="Copy logs to clipboard"
+                    >
+                      {copiedLogs ? <Check className="h-4 w-4 text-green-600" /> : <Copy className="h-4 w-4" />}
+                    </Button>
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  <div
+                    ref={logsContainerRef}
+                    className="bg-black text-green-400 p-4 rounded-md font-mono text-sm max-h-96 overflow-y-auto"
+                  >
+                    {hasMoreLogs && onLoadEarlierLogs && (
+                      <div className="mb-2 flex justify-center">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={handleLoadEarlierLogs}
+                          disabled={isLoadingEarlierLogs}
+                          className="h-6 text-xs text-gray-400 hover:text-white hover:bg-gray-800"
+                        >
+                          {isLoadingEarlierLogs && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+                          Load earlier logs
+                        </Button>
+                      </div>
+                    )}
+                    {logs.map((log, index) => {
+                      const getLogColor = (logType: LogEntry['type']) => {
+                        switch (logType) {
+                          case 'command':
+                            return 'text-gray-400'
+                          case 'error':
+                            return 'text-red-400'
+                          case 'success':
+                            return 'text-green-400'
+                          case 'agent':
+                            return 'text-sky-300'
+                          case 'info':
+                          default:
+                            return 'text-white'
+                        }
+                      }
+
+                      const formatTime = (timestamp: Date) => {
+                        return new Date(timestamp).toLocaleTimeString('en-US', {
+                          hour12: false,
+                          hour: '2-digit',
+                          minute: '2-digit',
+                          second: '2-digit',
+                          fractionalSecondDigits: 3,
+                        })
+                      }
+
+                      return (
+                        <div key={log.seq ?? index} className={cn('mb-1 flex gap-2', getLogColor(log.type))}>
+                          <span className="text-gray-500 text-xs shrink-0 mt-0.5">
+                            [{formatTime(log.timestamp || new Date())}]
+                          </span>
+                          <span className="flex-1">{log.message}</span>
+                        </div>
+                      )
+                    })}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+          </TabsContent>
+
+          {/* Changes - the diff of each run, captured before it was pushed */}
+          <TabsContent value="changes">
+            <Card>
+              <CardContent>
+                <TaskChanges task={task} />
+              </CardContent>
+            </Card>
+          </TabsContent>
+        </Tabs>
       </div>
     </div>
   )
@@ -6,6 +6,7 @@ import { Textarea } from '@/components/ui/textarea'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Checkbox } from '@/components/ui/checkbox'
 import { Label } from '@/components/ui/label'
+import { Input } from '@/components/ui/input'
 import { Badge } from '@/components/ui/badge'
 import {
   Dialog,
@@ -16,10 +17,20 @@ import {
   DialogTrigger,
 } from '@/components/ui/dialog'
 import { Loader2, ArrowUp, Settings, X } from 'lucide-react'
-import { Claude, Codex, Cursor, Gemini, OpenCode } from '@/components/logos'
+import { getAgentLogo } from '@/components/logos'
+import {
+  AGENT_DEFINITIONS,
+  getAgentModels,
+  getDefaultModel,
+  isAgentType,
+  AgentType,
+} from '@/lib/sandbox/agents/definitions'
+import { AgentChoice, MAX_COMPARISON_AGENTS } from '@/lib/db/schema'
+import { MAX_REPAIR_ROUNDS } from '@/lib/sandbox/checks/definitions'
+import { GitProviderType } from '@/lib/git-providers/definitions'
 import { getInstallDependencies, setInstallDependencies, getMaxDuration, setMaxDuration } from '@/lib/utils/cookies'
 
-interface GitHubRepo {
+interface GitRepo {
   name: string
   full_name: string
   description: string
@@ -28,6 +39,17 @@ interface GitHubRepo {
   language: string
 }
 
+// Maximum durations offered, in minutes; those above the deployment's limit are left out
+const MAX_DURATION_OPTIONS = [1, 2, 3, 5, 10, 15, 30]
+
+// Split a comma separated input into trimmed, non-empty values
+function parseList(value: string): string[] {
+  return value
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean)
+}
+
 interface TaskFormProps {
   onSubmit: (data: {
     prompt: string
@@ -36,82 +58,39 @@ interface TaskFormProps {
     selectedModel: string
     installDependencies: boolean
     maxDuration: number
+    baseBranch?: string
+    targetPackage?: string
+    prDraft: boolean
+    prLabels: string[]
+    prReviewers: string[]
+    fallbackChain: AgentChoice[]
+    comparisonAgents: AgentChoice[]
+    maxRepairRounds: number
   }) => void
   isSubmitting: boolean
+  selectedProvider: GitProviderType
   selectedOwner: string
   selectedRepo: string
   initialInstallDependencies?: boolean
   initialMaxDuration?: number
+  // Longest duration workers on this deployment can run, in minutes
+  maxDurationLimit?: number
 }
 
-const CODING_AGENTS = [
-  { value: 'claude', label: 'Claude', icon: Claude },
-  { value: 'codex', label: 'Codex', icon: Codex },
-  { value: 'cursor', label: 'Cursor', icon: Cursor },
-  { value: 'gemini', label: 'Gemini', icon: Gemini },
-  { value: 'opencode', label: 'opencode', icon: OpenCode },
-] as const
-
-// Model options for each agent
-const AGENT_MODELS = {
-  claude: [
-    { value: 'claude-sonnet-4-5-20250929', label: 'Sonnet 4.5' },
-    { value: 'claude-sonnet-4-20250514', label: 'Sonnet 4' },
-    { value: 'claude-opus-4-1-20250805', label: 'Opus 4.1' },
-  ],
-  codex: [
-    { value: 'openai/gpt-5', label: 'GPT-5' },
-    { value: 'gpt-5-codex', label: 'GPT-5-Codex' },
-    { value: 'openai/gpt-5-mini', label: 'GPT-5 Mini' },
-    { value: 'openai/gpt-5-nano', label: 'GPT-5 Nano' },
-    { value: 'openai/gpt-4.1', label: 'GPT-4.1' },
-  ],
-  cursor: [
-    { value: 'auto', label: 'Auto' },
-    { value: 'gpt-5', label: 'GPT-5' },
-    { value: 'gpt-5-mini', label: 'GPT-5 Mini' },
-    { value: 'gpt-5-nano', label: 'GPT-5 Nano' },
-    { value: 'gpt-4.1', label: 'GPT-4.1' },
-    { value: 'claude-sonnet-4-5-20250929', label: 'Sonnet 4.5' },
-    { value: 'claude-sonnet-4-20250514', label: 'Sonnet 4' },
-    { value: 'claude-opus-4-1-20250805', label: 'Opus 4.1' },
-  ],
-  gemini: [
-    { value: 'gemini-2.5-pro', label: 'Gemini 2.5 Pro' },
-    { value: 'gemini-2.5-flash', label: 'Gemini 2.5 Flash' },
-  ],
-  opencode: [
-    { value: 'gpt-5', label: 'GPT-5' },
-    { value: 'gpt-5-mini', label: 'GPT-5 Mini' },
-    { value: 'gpt-5-nano', label: 'GPT-5 Nano' },
-    { value: 'gpt-4.1', label: 'GPT-4.1' },
-    { value: 'claude-sonnet-4-5-20250929', label: 'Sonnet 4.5' },
-    { value: 'claude-sonnet-4-20250514', label: 'Sonnet 4' },
-    { value: 'claude-opus-4-1-20250805', label: 'Opus 4.1' },
-  ],
-} as const
-
-// Default models for each agent
-const DEFAULT_MODELS = {
-  claude: 'claude-sonnet-4-5-20250929',
-  codex: 'openai/gpt-5',
-  cursor: 'auto',
-  gemini: 'gemini-2.5-pro',
-  opencode: 'gpt-5',
-} as const
-
 export function TaskForm({
   onSubmit,
   isSubmitting,
+  selectedProvider,
   selectedOwner,
   selectedRepo,
   initialInstallDependencies = false,
   initialMaxDuration = 5,
+  maxDurationLimit = 30,
 }: TaskFormProps) {
   const [prompt, setPrompt] = useState('')
   const [selectedAgent, setSelectedAgent] = useState('claude')
-  const [selectedModel, setSelectedModel] = useState<string>(DEFAULT_MODELS.claude)
-  const [repos, setRepos] = useState<GitHubRepo[]>([])
+  const [selectedModel, setSelectedModel] = useState<string>(getDefaultModel('claude')!)
+  const [repos, setRepos] = useState<GitRepo[]>([])
   const [loadingRepos, setLoadingRepos] = useState(false)
 
   // Options state - initialize with server values
@@ -119,6 +98,19 @@ export function TaskForm({
   const [maxDuration, setMaxDurationState] = useState(initialMaxDuration)
   const [showOptionsDialog, setShowOptionsDialog] = useState(false)
 
+  // Pull request options apply to this task only
+  const [baseBranch, setBaseBranch] = useState('')
+  // Workspace package to scope the task to in a monorepo
+  const [targetPackage, setTargetPackage] = useState('')
+  const [prDraft, setPrDraft] = useState(false)
+  const [prLabels, setPrLabels] = useState('')
+  const [prReviewers, setPrReviewers] = useState('')
+  // Agents to fall back to, in the order they were picked
+  const [fallbackAgents, setFallbackAgents] = useState<AgentType[]>([])
+  // Agents to run the same prompt with alongside the selected one
+  const [compareAgents, setCompareAgents] = useState<AgentType[]>([])
+  const [maxRepairRounds, setMaxRepairRounds] = useState(0)
+
   // Ref for the textarea to focus it programmatically
   const textareaRef = useRef<HTMLTextAreaElement>(null)
 
@@ -161,16 +153,15 @@ export function TaskForm({
     }
 
     const savedAgent = localStorage.getItem('last-selected-agent')
-    if (savedAgent && CODING_AGENTS.some((agent) => agent.value === savedAgent)) {
+    if (savedAgent && isAgentType(savedAgent)) {
       setSelectedAgent(savedAgent)
 
       // Load saved model for this agent
       const savedModel = localStorage.getItem(`last-selected-model-${savedAgent}`)
-      const agentModels = AGENT_MODELS[savedAgent as keyof typeof AGENT_MODELS]
-      if (savedModel && agentModels?.some((model) => model.value === savedModel)) {
+      if (savedModel && getAgentModels(savedAgent).some((model) => model.value === savedModel)) {
         setSelectedModel(savedModel)
       } else {
-        const defaultModel = DEFAULT_MODELS[savedAgent as keyof typeof DEFAULT_MODELS]
+        const defaultModel = getDefaultModel(savedAgent)
         if (defaultModel) {
           setSelectedModel(defaultModel)
         }
@@ -199,11 +190,10 @@ export function TaskForm({
     if (selectedAgent) {
       // Load saved model for this agent or use default
       const savedModel = localStorage.getItem(`last-selected-model-${selectedAgent}`)
-      const agentModels = AGENT_MODELS[selectedAgent as keyof typeof AGENT_MODELS]
-      if (savedModel && agentModels?.some((model) => model.value === savedModel)) {
+      if (savedModel && getAgentModels(selectedAgent).some((model) => model.value === savedModel)) {
         setSelectedModel(savedModel)
       } else {
-        const defaultModel = DEFAULT_MODELS[selectedAgent as keyof typeof DEFAULT_MODELS]
+        const defaultModel = getDefaultModel(selectedAgent)
         if (defaultModel) {
           setSelectedModel(defaultModel)
         }
@@ -222,7 +212,7 @@ export function TaskForm({
       setLoadingRepos(true)
       try {
         // Check cache first
-        const cacheKey = `github-repos-${selectedOwner}`
+        const cacheKey = `git-repos-${selectedProvider}-${selectedOwner}`
         const cachedRepos = sessionStorage.getItem(cacheKey)
 
         if (cachedRepos) {
@@ -237,7 +227,7 @@ export function TaskForm({
           }
         }
 
-        const response = await fetch(`/api/github/repos?owner=${selectedOwner}`)
+        const response = await fetch(`/api/git/${selectedProvider}/repos?owner=${encodeURIComponent(selectedOwner)}`)
         if (response.ok) {
           const reposList = await response.json()
           setRepos(reposList)
@@ -253,7 +243,20 @@ export function TaskForm({
     }
 
     fetchRepos()
-  }, [selectedOwner])
+  }, [selectedProvider, selectedOwner])
+
+  // The selected agent always runs, so it is never its own fallback or comparison
+  const activeComparisons = compareAgents.filter((agent) => agent !== selectedAgent)
+  // Comparisons show how each agent does on its own, so they run without fallbacks
+  const activeFallbacks = activeComparisons.length > 0 ? [] : fallbackAgents.filter((agent) => agent !== selectedAgent)
+
+  const toggleFallbackAgent = (agent: AgentType, checked: boolean) => {
+    setFallbackAgents((prev) => (checked ? [...prev, agent] : prev.filter((value) => value !== agent)))
+  }
+
+  const toggleCompareAgent = (agent: AgentType, checked: boolean) => {
+    setCompareAgents((prev) => (checked ? [...prev, agent] : prev.filter((value) => value !== agent)))
+  }
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault()
@@ -270,6 +273,20 @@ export function TaskForm({
           selectedModel,
           installDependencies,
           maxDuration,
+          baseBranch: baseBranch.trim() || undefined,
+          targetPackage: targetPackage.trim() || undefined,
+          prDraft,
+          prLabels: parseList(prLabels),
+          prReviewers: parseList(prReviewers),
+          fallbackChain: activeFallbacks.map((agent) => ({ agent })),
+          comparisonAgents:
+            activeComparisons.length > 0
+              ? [
+                  { agent: selectedAgent as AgentType, model: selectedModel },
+                  ...activeComparisons.map((agent) => ({ agent })),
+                ]
+              : [],
+          maxRepairRounds,
         })
       }
     }
@@ -337,14 +354,17 @@ export function TaskForm({
                     <SelectValue placeholder="Agent" />
                   </SelectTrigger>
                   <SelectContent>
-                    {CODING_AGENTS.map((agent) => (
-                      <SelectItem key={agent.value} value={agent.value}>
-                        <div className="flex items-center gap-2">
-                          <agent.icon className="w-4 h-4" />
-                          <span>{agent.label}</span>
-                        </div>
-                      </SelectItem>
-                    ))}
+                    {AGENT_DEFINITIONS.map((agent) => {
+                      const AgentLogo = getAgentLogo(agent.value)
+                      return (
+                        <SelectItem key={agent.value} value={agent.value}>
+                          <div className="flex items-center gap-2">
+                            {AgentLogo && <AgentLogo className="w-4 h-4" />}
+                            <span>{agent.label}</span>
+                          </div>
+                        </SelectItem>
+                      )
+                    })}
                   </SelectContent>
                 </Select>
 
@@ -362,16 +382,21 @@ export function TaskForm({
                     <SelectValue placeholder="Model" />
                   </SelectTrigger>
                   <SelectContent>
-                    {AGENT_MODELS[selectedAgent as keyof typeof AGENT_MODELS]?.map((model) => (
+                    {getAgentModels(selectedAgent).map((model) => (
                       <SelectItem key={model.value} value={model.value}>
                         {model.label}
                       </SelectItem>
-                    )) || []}
+                    ))}
                   </SelectContent>
                 </Select>
 
                 {/* Option Chips */}
-                {(!installDependencies || maxDuration !== 5) && (
+                {(!installDependencies ||
+                  maxDuration !== 5 ||
+                  prDraft ||
+                  activeFallbacks.length > 0 ||
+                  activeComparisons.length > 0 ||
+                  maxRepairRounds > 0) && (
                   <div className="flex items-center gap-2 flex-wrap">
                     {!installDependencies && (
                       <Badge
@@ -413,6 +438,86 @@ export function TaskForm({
                         </Button>
                       </Badge>
                     )}
+                    {prDraft && (
+                      <Badge
+                        variant="secondary"
+                        className="text-xs h-6 px-2 gap-1 cursor-pointer hover:bg-muted/20 bg-transparent border-0"
+                        onClick={() => setShowOptionsDialog(true)}
+                      >
+                        Draft PR
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-3 w-3 p-0 hover:bg-transparent"
+                          onClick={(e) => {
+                            e.stopPropagation()
+                            setPrDraft(false)
+                          }}
+                        >
+                          <X className="h-2 w-2" />
+                        </Button>
+                      </Badge>
+                    )}
+                    {maxRepairRounds > 0 && (
+                      <Badge
+                        variant="secondary"
+                        className="text-xs h-6 px-2 gap-1 cursor-pointer hover:bg-muted/20 bg-transparent border-0"
+                        onClick={() => setShowOptionsDialog(true)}
+                      >
+                        Self-repair ×{maxRepairRounds}
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-3 w-3 p-0 hover:bg-transparent"
+                          onClick={(e) => {
+                            e.stopPropagation()
+                            setMaxRepairRounds(0)
+                          }}
+                        >
+                          <X className="h-2 w-2" />
+                        </Button>
+                      </Badge>
+                    )}
+                    {activeComparisons.length > 0 && (
+                      <Badge
+                        variant="secondary"
+                        className="text-xs h-6 px-2 gap-1 cursor-pointer hover:bg-muted/20 bg-transparent border-0"
+                        onClick={() => setShowOptionsDialog(true)}
+                      >
+                        Compare: {[selectedAgent, ...activeComparisons].join(' vs ')}
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-3 w-3 p-0 hover:bg-transparent"
+                          onClick={(e) => {
+                            e.stopPropagation()
+                            setCompareAgents([])
+                          }}
+                        >
+                          <X className="h-2 w-2" />
+                        </Button>
+                      </Badge>
+                    )}
+                    {activeFallbacks.length > 0 && (
+                      <Badge
+                        variant="secondary"
+                        className="text-xs h-6 px-2 gap-1 cursor-pointer hover:bg-muted/20 bg-transparent border-0"
+                        onClick={() => setShowOptionsDialog(true)}
+                      >
+                        Fallback: {activeFallbacks.join(' → ')}
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-3 w-3 p-0 hover:bg-transparent"
+                          onClick={(e) => {
+                            e.stopPropagation()
+                            setFallbackAgents([])
+                          }}
+                        >
+                          <X className="h-2 w-2" />
+                        </Button>
+                      </Badge>
+                    )}
                   </div>
                 )}
               </div>
@@ -456,15 +561,143 @@ export function TaskForm({
                             <SelectValue />
                           </SelectTrigger>
                           <SelectContent>
-                            <SelectItem value="1">1 minute</SelectItem>
-                            <SelectItem value="2">2 minutes</SelectItem>
-                            <SelectItem value="3">3 minutes</SelectItem>
-                            <SelectItem value="5">5 minutes</SelectItem>
-                            <SelectItem value="10">10 minutes</SelectItem>
-                            <SelectItem value="15">15 minutes</SelectItem>
-                            <SelectItem value="30">30 minutes</SelectItem>
+                            {MAX_DURATION_OPTIONS.filter((minutes) => minutes <= maxDurationLimit).map((minutes) => (
+                              <SelectItem key={minutes} value={minutes.toString()}>
+                                {minutes === 1 ? '1 minute' : `${minutes} minutes`}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="repair-rounds" className="text-sm font-medium">
+                          Self-Repair Rounds
+                        </Label>
+                        <Select
+                          value={maxRepairRounds.toString()}
+                          onValueChange={(value) => setMaxRepairRounds(parseInt(value))}
+                        >
+                          <SelectTrigger id="repair-rounds" className="w-full">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="0">None</SelectItem>
+                            {Array.from({ length: MAX_REPAIR_ROUNDS }, (_, index) => (
+                              <SelectItem key={index + 1} value={(index + 1).toString()}>
+                                {index + 1} {index === 0 ? 'round' : 'rounds'}
+                              </SelectItem>
+                            ))}
                           </SelectContent>
                         </Select>
+                        <p className="text-xs text-muted-foreground">
+                          After the agent finishes, the repository&apos;s tests, lint, type-check and build run.
+                          Failures are sent back to the agent this many times.
+                        </p>
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="base-branch" className="text-sm font-medium">
+                          Base Branch
+                        </Label>
+                        <Input
+                          id="base-branch"
+                          value={baseBranch}
+                          onChange={(e) => setBaseBranch(e.target.value)}
+                          placeholder="Repository default"
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="target-package" className="text-sm font-medium">
+                          Target Package
+                        </Label>
+                        <Input
+                          id="target-package"
+                          value={targetPackage}
+                          onChange={(e) => setTargetPackage(e.target.value)}
+                          placeholder="Whole repository"
+                        />
+                        <p className="text-xs text-muted-foreground">
+                          In a monorepo, the workspace package name or directory (e.g. @acme/web or apps/web) to
+                          install, work in and check.
+                        </p>
+                      </div>
+                      <div className="space-y-2">
+                        <Label className="text-sm font-medium">Compare With</Label>
+                        <p className="text-xs text-muted-foreground">
+                          Runs the prompt with each agent in its own sandbox and branch, so you can pick the best
+                          result.
+                        </p>
+                        {AGENT_DEFINITIONS.filter((agent) => agent.value !== selectedAgent).map((agent) => (
+                          <div key={agent.value} className="flex items-center space-x-2">
+                            <Checkbox
+                              id={`compare-${agent.value}`}
+                              checked={activeComparisons.includes(agent.value)}
+                              disabled={
+                                !activeComparisons.includes(agent.value) &&
+                                activeComparisons.length >= MAX_COMPARISON_AGENTS - 1
+                              }
+                              onCheckedChange={(checked) => toggleCompareAgent(agent.value, checked === true)}
+                            />
+                            <Label htmlFor={`compare-${agent.value}`} className="text-sm leading-none">
+                              {agent.label}
+                            </Label>
+                          </div>
+                        ))}
+                      </div>
+                      {activeComparisons.length === 0 && (
+                        <div className="space-y-2">
+                          <Label className="text-sm font-medium">Fallback Agents</Label>
+                          <p className="text-xs text-muted-foreground">
+                            Tried in the order picked when {selectedAgent} fails.
+                          </p>
+                          {AGENT_DEFINITIONS.filter((agent) => agent.value !== selectedAgent).map((agent) => {
+                            const position = activeFallbacks.indexOf(agent.value)
+                            return (
+                              <div key={agent.value} className="flex items-center space-x-2">
+                                <Checkbox
+                                  id={`fallback-${agent.value}`}
+                                  checked={position !== -1}
+                                  onCheckedChange={(checked) => toggleFallbackAgent(agent.value, checked === true)}
+                                />
+                                <Label htmlFor={`fallback-${agent.value}`} className="text-sm leading-none">
+                                  {agent.label}
+                                  {position !== -1 && <span className="text-muted-foreground"> ({position + 1})</span>}
+                                </Label>
+                              </div>
+                            )
+                          })}
+                        </div>
+                      )}
+                      <div className="flex items-center space-x-2">
+                        <Checkbox
+                          id="pr-draft"
+                          checked={prDraft}
+                          onCheckedChange={(checked) => setPrDraft(checked === true)}
+                        />
+                        <Label htmlFor="pr-draft" className="text-sm font-medium leading-none">
+                          Open pull request as draft
+                        </Label>
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="pr-labels" className="text-sm font-medium">
+                          Pull Request Labels
+                        </Label>
+                        <Input
+                          id="pr-labels"
+                          value={prLabels}
+                          onChange={(e) => setPrLabels(e.target.value)}
+                          placeholder="bug, agent (comma separated)"
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="pr-reviewers" className="text-sm font-medium">
+                          Reviewers
+                        </Label>
+                        <Input
+                          id="pr-reviewers"
+                          value={prReviewers}
+                          onChange={(e) => setPrReviewers(e.target.value)}
+                          placeholder="GitHub usernames (comma separated)"
+                        />
                       </div>
                     </div>
                   </DialogContent>
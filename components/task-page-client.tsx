@@ -2,6 +2,7 @@
 
 import { useTask } from '@/lib/hooks/use-task'
 import { TaskDetails } from '@/components/task-details'
+import { TaskComparison } from '@/components/task-comparison'
 import { TaskPageHeader } from '@/components/task-page-header'
 import { PageHeader } from '@/components/page-header'
 import { Card, CardContent } from '@/components/ui/card'
@@ -15,7 +16,7 @@ interface TaskPageClientProps {
 }
 
 export function TaskPageClient({ taskId }: TaskPageClientProps) {
-  const { task, isLoading, error } = useTask(taskId)
+  const { task, messages, attempts, checks, logs, hasMoreLogs, loadEarlierLogs, isLoading, error } = useTask(taskId)
   const { toggleSidebar } = useTasks()
 
   if (isLoading) {
@@ -97,7 +98,16 @@ export function TaskPageClient({ taskId }: TaskPageClientProps) {
 
         {/* Task details */}
         <div className="max-w-4xl mx-auto">
-          <TaskDetails task={task} />
+          {task.comparisonAgents && <TaskComparison task={task} />}
+          <TaskDetails
+            task={task}
+            messages={messages}
+            attempts={attempts}
+            checks={checks}
+            logs={logs}
+            hasMoreLogs={hasMoreLogs}
+            onLoadEarlierLogs={loadEarlierLogs}
+          />
         </div>
       </div>
     </div>
@@ -7,45 +7,8 @@ import { AlertCircle, Plus } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import Link from 'next/link'
 import { usePathname } from 'next/navigation'
-import { Claude, Codex, Cursor, Gemini, OpenCode } from '@/components/logos'
-
-// Model mappings for human-friendly names
-const AGENT_MODELS = {
-  claude: [
-    { value: 'claude-sonnet-4-5-20250929', label: 'Sonnet 4.5' },
-    { value: 'claude-sonnet-4-20250514', label: 'Sonnet 4' },
-    { value: 'claude-opus-4-1-20250805', label: 'Opus 4.1' },
-  ],
-  codex: [
-    { value: 'openai/gpt-5', label: 'GPT-5' },
-    { value: 'gpt-5-codex', label: 'GPT-5-Codex' },
-    { value: 'openai/gpt-5-mini', label: 'GPT-5 Mini' },
-    { value: 'openai/gpt-5-nano', label: 'GPT-5 Nano' },
-    { value: 'openai/gpt-4.1', label: 'GPT-4.1' },
-  ],
-  cursor: [
-    { value: 'gpt-5', label: 'GPT-5' },
-    { value: 'gpt-5-mini', label: 'GPT-5 Mini' },
-    { value: 'gpt-5-nano', label: 'GPT-5 Nano' },
-    { value: 'gpt-4.1', label: 'GPT-4.1' },
-    { value: 'claude-sonnet-4-5-20250929', label: 'Sonnet 4.5' },
-    { value: 'claude-sonnet-4-20250514', label: 'Sonnet 4' },
-    { value: 'claude-opus-4-1-20250805', label: 'Opus 4.1' },
-  ],
-  gemini: [
-    { value: 'gemini-2.5-pro', label: 'Gemini 2.5 Pro' },
-    { value: 'gemini-2.5-flash', label: 'Gemini 2.5 Flash' },
-  ],
-  opencode: [
-    { value: 'gpt-5', label: 'GPT-5' },
-    { value: 'gpt-5-mini', label: 'GPT-5 Mini' },
-    { value: 'gpt-5-nano', label: 'GPT-5 Nano' },
-    { value: 'gpt-4.1', label: 'GPT-4.1' },
-    { value: 'claude-sonnet-4-5-20250929', label: 'Sonnet 4.5' },
-    { value: 'claude-sonnet-4-20250514', label: 'Sonnet 4' },
-    { value: 'claude-opus-4-1-20250805', label: 'Opus 4.1' },
-  ],
-} as const
+import { getAgentLogo } from '@/components/logos'
+import { getModelLabel } from '@/lib/sandbox/agents/definitions'
 
 interface TaskSidebarProps {
   tasks: Task[]
@@ -56,35 +19,6 @@ interface TaskSidebarProps {
 export function TaskSidebar({ tasks, onTaskSelect, width = 288 }: TaskSidebarProps) {
   const pathname = usePathname()
 
-  const getHumanFriendlyModelName = (agent: string | null, model: string | null) => {
-    if (!agent || !model) return model
-
-    const agentModels = AGENT_MODELS[agent as keyof typeof AGENT_MODELS]
-    if (!agentModels) return model
-
-    const modelInfo = agentModels.find((m) => m.value === model)
-    return modelInfo ? modelInfo.label : model
-  }
-
-  const getAgentLogo = (agent: string | null) => {
-    if (!agent) return null
-
-    switch (agent.toLowerCase()) {
-      case 'claude':
-        return Claude
-      case 'codex':
-        return Codex
-      case 'cursor':
-        return Cursor
-      case 'gemini':
-        return Gemini
-      case 'opencode':
-        return OpenCode
-      default:
-        return null
-    }
-  }
-
   return (
     <div className="h-full border-r bg-muted p-3 overflow-y-auto" style={{ width: `${width}px` }}>
       <div className="mb-3">
@@ -169,12 +103,19 @@ export function TaskSidebar({ tasks, onTaskSelect, width = 288 }: TaskSidebarPro
                               return AgentLogo ? <AgentLogo className="w-3 h-3" /> : null
                             })()}
                             {task.selectedModel && (
-                              <span className="truncate">
-                                {getHumanFriendlyModelName(task.selectedAgent, task.selectedModel)}
-                              </span>
+                              <span className="truncate">{getModelLabel(task.selectedAgent, task.selectedModel)}</span>
                             )}
                           </div>
                         )}
+                        {task.comparisonAgents && (
+                          <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                            {task.comparisonAgents.map((choice, index) => {
+                              const AgentLogo = getAgentLogo(choice.agent)
+                              return AgentLogo ? <AgentLogo key={index} className="w-3 h-3" /> : null
+                            })}
+                            <span className="truncate">Comparing {task.comparisonAgents.length} agents</span>
+                          </div>
+                        )}
                       </div>
                     </div>
                   </CardContent>
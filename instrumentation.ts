@@ -0,0 +1,17 @@
+// Runs once when a server instance starts
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return
+
+  const { isEncryptionConfigured } = await import('@/lib/keys/encryption')
+  if (!isEncryptionConfigured()) {
+    console.error('ENCRYPTION_KEY is not set: GitHub sign-in cannot store tokens')
+    return
+  }
+
+  try {
+    const { encryptPlaintextAccessTokens } = await import('@/lib/auth/access-token')
+    await encryptPlaintextAccessTokens()
+  } catch (error) {
+    console.error('Error encrypting stored GitHub tokens:', error)
+  }
+}
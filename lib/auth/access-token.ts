@@ -0,0 +1,40 @@
+import { and, eq, isNotNull } from 'drizzle-orm'
+import { db } from '@/lib/db/client'
+import { users, User } from '@/lib/db/schema'
+import { decryptSecret, encryptSecret } from '@/lib/keys/encryption'
+
+// Column values that store a GitHub token for a user, replacing any plaintext one
+export function encryptAccessToken(accessToken: string) {
+  const { encryptedValue, encryptedDataKey } = encryptSecret(accessToken)
+  return { encryptedAccessToken: encryptedValue, accessTokenDataKey: encryptedDataKey, accessToken: null }
+}
+
+// The user's GitHub token; empty when none is stored or it cannot be decrypted (e.g. after ENCRYPTION_KEY changed)
+export function getAccessToken(user: User): string {
+  if (!user.encryptedAccessToken || !user.accessTokenDataKey) return ''
+
+  try {
+    return decryptSecret({ encryptedValue: user.encryptedAccessToken, encryptedDataKey: user.accessTokenDataKey })
+  } catch (error) {
+    console.error(`Failed to decrypt GitHub token of @${user.login}:`, error)
+    return ''
+  }
+}
+
+/**
+ * Encrypt the tokens stored in plaintext before tokens were encrypted, and clear the plaintext.
+ * A row is left alone if the user signed in again in the meantime, since that stored a new token.
+ */
+export async function encryptPlaintextAccessTokens(): Promise<void> {
+  const rows = await db
+    .select({ id: users.id, accessToken: users.accessToken })
+    .from(users)
+    .where(isNotNull(users.accessToken))
+
+  for (const row of rows) {
+    await db
+      .update(users)
+      .set(encryptAccessToken(row.accessToken!))
+      .where(and(eq(users.id, row.id), eq(users.accessToken, row.accessToken!)))
+  }
+}
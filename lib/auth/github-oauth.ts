@@ -0,0 +1,65 @@
+const GITHUB_AUTHORIZE_URL = 'https://github.com/login/oauth/authorize'
+const GITHUB_TOKEN_URL = 'https://github.com/login/oauth/access_token'
+
+// repo: clone, push and open pull requests; read:org: list the user's organizations
+const GITHUB_OAUTH_SCOPES = ['repo', 'read:org', 'read:user']
+
+export interface GitHubProfile {
+  id: number
+  login: string
+  name: string | null
+  avatar_url: string
+}
+
+export function isGitHubOAuthConfigured(): boolean {
+  return !!(process.env.GITHUB_CLIENT_ID && process.env.GITHUB_CLIENT_SECRET)
+}
+
+export function getGitHubAuthorizeUrl(state: string, redirectUri: string): string {
+  const params = new URLSearchParams({
+    client_id: process.env.GITHUB_CLIENT_ID!,
+    redirect_uri: redirectUri,
+    scope: GITHUB_OAUTH_SCOPES.join(' '),
+    state,
+    allow_signup: 'false',
+  })
+  return `${GITHUB_AUTHORIZE_URL}?${params}`
+}
+
+export async function exchangeCodeForToken(
+  code: string,
+  redirectUri: string,
+): Promise<{ success: boolean; accessToken?: string; error?: string }> {
+  try {
+    const response = await fetch(GITHUB_TOKEN_URL, {
+      method: 'POST',
+      headers: { Accept: 'application/json', 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        client_id: process.env.GITHUB_CLIENT_ID,
+        client_secret: process.env.GITHUB_CLIENT_SECRET,
+        code,
+        redirect_uri: redirectUri,
+      }),
+    })
+
+    const data: { access_token?: string; error?: string; error_description?: string } = await response.json()
+    if (!response.ok || !data.access_token) {
+      return { success: false, error: data.error_description || data.error || `GitHub returned ${response.status}` }
+    }
+
+    return { success: true, accessToken: data.access_token }
+  } catch (error: unknown) {
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to exchange OAuth code' }
+  }
+}
+
+export async function fetchGitHubProfile(accessToken: string): Promise<GitHubProfile | null> {
+  const response = await fetch('https://api.github.com/user', {
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      Accept: 'application/vnd.github.v3+json',
+    },
+  })
+
+  return response.ok ? response.json() : null
+}
@@ -0,0 +1,103 @@
+import { createHash, randomBytes } from 'crypto'
+import { cookies } from 'next/headers'
+import { and, eq, gt, lt } from 'drizzle-orm'
+import { db } from '@/lib/db/client'
+import { sessions, users, User } from '@/lib/db/schema'
+import { generateId } from '@/lib/utils/id'
+import { encryptAccessToken } from './access-token'
+import { GitHubProfile } from './github-oauth'
+
+export const SESSION_COOKIE = 'session'
+export const OAUTH_STATE_COOKIE = 'oauth-state'
+const SESSION_DURATION_MS = 30 * 24 * 60 * 60 * 1000
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+export function createRandomToken(): string {
+  return randomBytes(32).toString('base64url')
+}
+
+// Create the user on first sign-in, otherwise refresh their profile and token
+export async function upsertGitHubUser(profile: GitHubProfile, accessToken: string): Promise<User> {
+  const token = encryptAccessToken(accessToken)
+  const [user] = await db
+    .insert(users)
+    .values({
+      id: generateId(12),
+      githubId: String(profile.id),
+      login: profile.login,
+      name: profile.name,
+      avatarUrl: profile.avatar_url,
+      ...token,
+    })
+    .onConflictDoUpdate({
+      target: users.githubId,
+      set: {
+        login: profile.login,
+        name: profile.name,
+        avatarUrl: profile.avatar_url,
+        ...token,
+        updatedAt: new Date(),
+      },
+    })
+    .returning()
+  return user
+}
+
+/**
+ * Start a session for the user and set its cookie. Expired sessions are cleared out along the way.
+ */
+export async function createSession(userId: string): Promise<void> {
+  const token = createRandomToken()
+  const expiresAt = new Date(Date.now() + SESSION_DURATION_MS)
+
+  await db.delete(sessions).where(lt(sessions.expiresAt, new Date()))
+  await db.insert(sessions).values({ id: hashToken(token), userId, expiresAt })
+
+  const cookieStore = await cookies()
+  cookieStore.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    expires: expiresAt,
+  })
+}
+
+/**
+ * The signed-in user for the current request, or null
+ */
+export async function getCurrentUser(): Promise<User | null> {
+  const cookieStore = await cookies()
+  const token = cookieStore.get(SESSION_COOKIE)?.value
+  if (!token) return null
+
+  const [row] = await db
+    .select({ user: users })
+    .from(sessions)
+    .innerJoin(users, eq(sessions.userId, users.id))
+    .where(and(eq(sessions.id, hashToken(token)), gt(sessions.expiresAt, new Date())))
+    .limit(1)
+
+  return row?.user ?? null
+}
+
+// Admins are listed by GitHub login in ADMIN_GITHUB_LOGINS, comma-separated
+export function isAdmin(user: User): boolean {
+  const logins = (process.env.ADMIN_GITHUB_LOGINS || '')
+    .split(',')
+    .map((login) => login.trim().toLowerCase())
+    .filter(Boolean)
+  return logins.includes(user.login.toLowerCase())
+}
+
+export async function deleteSession(): Promise<void> {
+  const cookieStore = await cookies()
+  const token = cookieStore.get(SESSION_COOKIE)?.value
+  if (token) {
+    await db.delete(sessions).where(eq(sessions.id, hashToken(token)))
+  }
+  cookieStore.delete(SESSION_COOKIE)
+}
@@ -0,0 +1,15 @@
+import { createLocalBlobStore } from './local'
+import { vercelBlobStore } from './vercel'
+import { BlobStore } from './types'
+
+export type { BlobStore } from './types'
+
+/**
+ * Where large artifacts such as dependency caches are kept: the BLOB_STORE_DIR directory when it is
+ * set, otherwise Vercel Blob when BLOB_READ_WRITE_TOKEN is. Null when neither is configured.
+ */
+export function getBlobStore(): BlobStore | null {
+  if (process.env.BLOB_STORE_DIR) return createLocalBlobStore(process.env.BLOB_STORE_DIR)
+  if (process.env.BLOB_READ_WRITE_TOKEN) return vercelBlobStore
+  return null
+}
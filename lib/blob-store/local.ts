@@ -0,0 +1,32 @@
+import { createWriteStream } from 'fs'
+import { mkdir, readFile, rename } from 'fs/promises'
+import { dirname, join } from 'path'
+import { Readable } from 'stream'
+import { pipeline } from 'stream/promises'
+import { generateId } from '@/lib/utils/id'
+import { BlobStore } from './types'
+
+// Keeps blobs as files under a directory, for local development and testing
+export function createLocalBlobStore(root: string): BlobStore {
+  return {
+    name: `local directory ${root}`,
+
+    async get(key) {
+      try {
+        return await readFile(join(root, key))
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null
+        throw error
+      }
+    },
+
+    async put(key, body: Readable) {
+      const path = join(root, key)
+      await mkdir(dirname(path), { recursive: true })
+      // Written aside and renamed so a reader never sees half a blob
+      const partial = `${path}.${generateId(8)}.partial`
+      await pipeline(body, createWriteStream(partial))
+      await rename(partial, path)
+    },
+  }
+}
@@ -0,0 +1,10 @@
+import { Readable } from 'stream'
+
+export interface BlobStore {
+  // Shown in the task logs
+  name: string
+  // The blob's contents, or null when nothing is stored under the key
+  get(key: string): Promise<Buffer | null>
+  // Stores the blob, replacing any stored under the same key
+  put(key: string, body: Readable): Promise<void>
+}
@@ -0,0 +1,23 @@
+import { get, put } from '@vercel/blob'
+import { BlobStore } from './types'
+
+// Private Vercel Blob storage; the SDK reads BLOB_READ_WRITE_TOKEN
+export const vercelBlobStore: BlobStore = {
+  name: 'Vercel Blob',
+
+  async get(key) {
+    const result = await get(key, { access: 'private', useCache: false })
+    if (!result || !result.stream) return null
+    return Buffer.from(await new Response(result.stream).arrayBuffer())
+  },
+
+  async put(key, body) {
+    await put(key, body, {
+      access: 'private',
+      allowOverwrite: true,
+      // Dependency archives run to hundreds of megabytes
+      multipart: true,
+      contentType: 'application/gzip',
+    })
+  },
+}
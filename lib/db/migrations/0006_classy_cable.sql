@@ -0,0 +1 @@
+ALTER TABLE "tasks" ADD COLUMN "timeout_phase" text;
\ No newline at end of file
@@ -0,0 +1,11 @@
+CREATE TABLE "task_messages" (
+	"id" text PRIMARY KEY NOT NULL,
+	"task_id" text NOT NULL,
+	"role" text NOT NULL,
+	"content" text NOT NULL,
+	"selected_agent" text,
+	"selected_model" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "task_messages" ADD CONSTRAINT "task_messages_task_id_tasks_id_fk" FOREIGN KEY ("task_id") REFERENCES "public"."tasks"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
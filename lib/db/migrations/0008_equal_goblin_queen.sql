@@ -0,0 +1,7 @@
+ALTER TABLE "tasks" ADD COLUMN "base_branch" text;--> statement-breakpoint
+ALTER TABLE "tasks" ADD COLUMN "pr_draft" boolean DEFAULT false;--> statement-breakpoint
+ALTER TABLE "tasks" ADD COLUMN "pr_labels" jsonb;--> statement-breakpoint
+ALTER TABLE "tasks" ADD COLUMN "pr_reviewers" jsonb;--> statement-breakpoint
+ALTER TABLE "tasks" ADD COLUMN "pr_number" integer;--> statement-breakpoint
+ALTER TABLE "tasks" ADD COLUMN "pr_url" text;--> statement-breakpoint
+ALTER TABLE "tasks" ADD COLUMN "pr_state" text;
\ No newline at end of file
@@ -0,0 +1,20 @@
+CREATE TABLE "task_logs" (
+	"seq" bigserial PRIMARY KEY NOT NULL,
+	"task_id" text NOT NULL,
+	"type" text NOT NULL,
+	"message" text NOT NULL,
+	"timestamp" timestamp DEFAULT now() NOT NULL,
+	"phase" text,
+	"agent" text
+);
+--> statement-breakpoint
+ALTER TABLE "task_logs" ADD CONSTRAINT "task_logs_task_id_tasks_id_fk" FOREIGN KEY ("task_id") REFERENCES "public"."tasks"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "task_logs_task_id_seq_idx" ON "task_logs" USING btree ("task_id","seq");--> statement-breakpoint
+INSERT INTO "task_logs" ("task_id", "type", "message", "timestamp")
+SELECT "tasks"."id",
+	coalesce("entry"."value"->>'type', 'info'),
+	coalesce("entry"."value"->>'message', ''),
+	coalesce(("entry"."value"->>'timestamp')::timestamp, "tasks"."created_at")
+FROM "tasks", jsonb_array_elements(coalesce("tasks"."logs", '[]'::jsonb)) WITH ORDINALITY AS "entry"("value", "position")
+ORDER BY "tasks"."created_at", "tasks"."id", "entry"."position";--> statement-breakpoint
+ALTER TABLE "tasks" DROP COLUMN "logs";
\ No newline at end of file
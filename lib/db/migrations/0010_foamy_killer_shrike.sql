@@ -0,0 +1 @@
+ALTER TABLE "task_logs" ADD COLUMN "event" jsonb;
\ No newline at end of file
@@ -0,0 +1,11 @@
+CREATE TABLE "sandboxes" (
+	"id" text PRIMARY KEY NOT NULL,
+	"task_id" text,
+	"state" text DEFAULT 'running' NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"stopped_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "sandboxes" ADD CONSTRAINT "sandboxes_task_id_tasks_id_fk" FOREIGN KEY ("task_id") REFERENCES "public"."tasks"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "sandboxes_task_id_idx" ON "sandboxes" USING btree ("task_id");--> statement-breakpoint
+CREATE INDEX "sandboxes_state_idx" ON "sandboxes" USING btree ("state");
\ No newline at end of file
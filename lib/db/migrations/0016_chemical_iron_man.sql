@@ -0,0 +1,16 @@
+CREATE TABLE "task_attempts" (
+	"id" text PRIMARY KEY NOT NULL,
+	"task_id" text NOT NULL,
+	"attempt_number" integer NOT NULL,
+	"agent" text NOT NULL,
+	"model" text,
+	"status" text DEFAULT 'running' NOT NULL,
+	"failure_kind" text,
+	"error" text,
+	"started_at" timestamp DEFAULT now() NOT NULL,
+	"finished_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "tasks" ADD COLUMN "fallback_chain" jsonb;--> statement-breakpoint
+ALTER TABLE "task_attempts" ADD CONSTRAINT "task_attempts_task_id_tasks_id_fk" FOREIGN KEY ("task_id") REFERENCES "public"."tasks"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "task_attempts_task_id_idx" ON "task_attempts" USING btree ("task_id");
\ No newline at end of file
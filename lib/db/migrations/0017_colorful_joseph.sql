@@ -0,0 +1,4 @@
+ALTER TABLE "tasks" ADD COLUMN "parent_task_id" text;--> statement-breakpoint
+ALTER TABLE "tasks" ADD COLUMN "comparison_agents" jsonb;--> statement-breakpoint
+ALTER TABLE "tasks" ADD CONSTRAINT "tasks_parent_task_id_tasks_id_fk" FOREIGN KEY ("parent_task_id") REFERENCES "public"."tasks"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "tasks_parent_task_id_idx" ON "tasks" USING btree ("parent_task_id");
\ No newline at end of file
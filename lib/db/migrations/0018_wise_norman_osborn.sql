@@ -0,0 +1,17 @@
+CREATE TABLE "task_checks" (
+	"id" text PRIMARY KEY NOT NULL,
+	"task_id" text NOT NULL,
+	"round" integer NOT NULL,
+	"kind" text NOT NULL,
+	"command" text NOT NULL,
+	"source" text NOT NULL,
+	"status" text NOT NULL,
+	"exit_code" integer,
+	"output" text,
+	"duration_ms" integer NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "tasks" ADD COLUMN "max_repair_rounds" integer DEFAULT 0;--> statement-breakpoint
+ALTER TABLE "task_checks" ADD CONSTRAINT "task_checks_task_id_tasks_id_fk" FOREIGN KEY ("task_id") REFERENCES "public"."tasks"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "task_checks_task_id_idx" ON "task_checks" USING btree ("task_id");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "tasks" ADD COLUMN "git_provider" text;
\ No newline at end of file
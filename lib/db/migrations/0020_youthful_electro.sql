@@ -0,0 +1 @@
+ALTER TABLE "tasks" ADD COLUMN "target_package" text;
\ No newline at end of file
@@ -0,0 +1,28 @@
+CREATE TABLE "schedules" (
+	"id" text PRIMARY KEY NOT NULL,
+	"user_id" text NOT NULL,
+	"name" text NOT NULL,
+	"cron" text NOT NULL,
+	"timezone" text DEFAULT 'UTC' NOT NULL,
+	"prompt" text NOT NULL,
+	"repo_url" text NOT NULL,
+	"selected_agent" text DEFAULT 'claude' NOT NULL,
+	"selected_model" text,
+	"install_dependencies" boolean DEFAULT false NOT NULL,
+	"max_duration" integer DEFAULT 5 NOT NULL,
+	"base_branch" text,
+	"target_package" text,
+	"max_repair_rounds" integer DEFAULT 0 NOT NULL,
+	"enabled" boolean DEFAULT true NOT NULL,
+	"next_run_at" timestamp NOT NULL,
+	"last_run_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "tasks" ADD COLUMN "schedule_id" text;--> statement-breakpoint
+ALTER TABLE "schedules" ADD CONSTRAINT "schedules_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "schedules_user_id_idx" ON "schedules" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX "schedules_enabled_next_run_at_idx" ON "schedules" USING btree ("enabled","next_run_at");--> statement-breakpoint
+ALTER TABLE "tasks" ADD CONSTRAINT "tasks_schedule_id_schedules_id_fk" FOREIGN KEY ("schedule_id") REFERENCES "public"."schedules"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "tasks_schedule_id_idx" ON "tasks" USING btree ("schedule_id");
\ No newline at end of file
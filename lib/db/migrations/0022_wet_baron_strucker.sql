@@ -0,0 +1,2 @@
+ALTER TABLE "tasks" ADD COLUMN "issue_number" integer;--> statement-breakpoint
+ALTER TABLE "tasks" ADD COLUMN "issue_comment_id" text;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "jobs" ADD COLUMN "phase" text;--> statement-breakpoint
+ALTER TABLE "jobs" ADD COLUMN "pushed_branch" text;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "users" ALTER COLUMN "access_token" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "encrypted_access_token" text;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "access_token_data_key" text;
\ No newline at end of file
@@ -0,0 +1,14 @@
+CREATE TABLE "task_log_sequences" (
+	"task_id" text PRIMARY KEY NOT NULL,
+	"last_seq" bigint NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "task_log_sequences" ADD CONSTRAINT "task_log_sequences_task_id_tasks_id_fk" FOREIGN KEY ("task_id") REFERENCES "public"."tasks"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+-- Existing entries keep their seq; each task's log continues from its highest one
+INSERT INTO "task_log_sequences" ("task_id", "last_seq")
+SELECT "task_id", max("seq") FROM "task_logs" GROUP BY "task_id";--> statement-breakpoint
+DROP INDEX "task_logs_task_id_seq_idx";--> statement-breakpoint
+ALTER TABLE "task_logs" DROP CONSTRAINT "task_logs_pkey";--> statement-breakpoint
+ALTER TABLE "task_logs" ALTER COLUMN "seq" DROP DEFAULT;--> statement-breakpoint
+DROP SEQUENCE "task_logs_seq_seq";--> statement-breakpoint
+ALTER TABLE "task_logs" ADD CONSTRAINT "task_logs_task_id_seq_pk" PRIMARY KEY("task_id","seq");
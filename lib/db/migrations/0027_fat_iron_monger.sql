@@ -0,0 +1 @@
+ALTER TABLE "schedules" ADD COLUMN "last_error" text;
\ No newline at end of file
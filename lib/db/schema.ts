@@ -1,53 +1,326 @@
-import { pgTable, text, timestamp, integer, jsonb, boolean } from 'drizzle-orm/pg-core'
+import {
+  pgTable,
+  text,
+  timestamp,
+  integer,
+  jsonb,
+  boolean,
+  bigint,
+  index,
+  primaryKey,
+  uniqueIndex,
+  AnyPgColumn,
+} from 'drizzle-orm/pg-core'
 import { z } from 'zod'
+import { AGENT_TYPES } from '@/lib/sandbox/agents/definitions'
+import { AGENT_FAILURE_KINDS } from '@/lib/sandbox/agents/failures'
+import { CHECK_KINDS, CHECK_SOURCES, CHECK_STATUSES, MAX_REPAIR_ROUNDS } from '@/lib/sandbox/checks/definitions'
+import { API_KEY_PROVIDER_VALUES } from '@/lib/keys/providers'
+import { GIT_PROVIDER_TYPES } from '@/lib/git-providers/definitions'
+import { TASK_PHASES } from '@/lib/utils/time-budget'
+
+// Log entry types; 'agent' entries carry a structured agent event
+export const LOG_TYPES = ['info', 'command', 'error', 'success', 'agent'] as const
+
+// Normalized events parsed from agent CLI output streams
+export const agentEventSchema = z.discriminatedUnion('kind', [
+  z.object({ kind: z.literal('tool_call'), tool: z.string(), input: z.string().optional() }),
+  z.object({
+    kind: z.literal('file_edit'),
+    path: z.string(),
+    action: z.enum(['create', 'edit', 'delete']).optional(),
+  }),
+  z.object({
+    kind: z.literal('shell_command'),
+    command: z.string(),
+    exitCode: z.number().optional(),
+    output: z.string().optional(),
+  }),
+  z.object({ kind: z.literal('reasoning'), text: z.string() }),
+  z.object({
+    kind: z.literal('token_usage'),
+    inputTokens: z.number(),
+    outputTokens: z.number(),
+    cachedInputTokens: z.number().optional(),
+    costUsd: z.number().optional(),
+  }),
+  z.object({ kind: z.literal('final_message'), text: z.string() }),
+])
+
+export type AgentEvent = z.infer<typeof agentEventSchema>
+export type AgentEventKind = AgentEvent['kind']
 
-// Log entry types
 export const logEntrySchema = z.object({
-  type: z.enum(['info', 'command', 'error', 'success']),
+  seq: z.number().optional(),
+  type: z.enum(LOG_TYPES),
   message: z.string(),
   timestamp: z.date().optional(),
+  phase: z.enum(TASK_PHASES).nullable().optional(),
+  agent: z.string().nullable().optional(),
+  event: agentEventSchema.nullable().optional(),
 })
 
 export type LogEntry = z.infer<typeof logEntrySchema>
 
-export const tasks = pgTable('tasks', {
+export const PR_STATES = ['open', 'draft', 'closed', 'merged'] as const
+
+// Agent to try when the ones before it fail; without a model the agent's default is used
+export const agentChoiceSchema = z.object({
+  agent: z.enum(AGENT_TYPES),
+  model: z.string().optional(),
+})
+
+export type AgentChoice = z.infer<typeof agentChoiceSchema>
+
+export const MAX_FALLBACK_AGENTS = 4
+export const MAX_COMPARISON_AGENTS = 4
+
+// Accounts created on first GitHub sign-in; the OAuth token is used for the user's git and API calls.
+// The token is envelope-encrypted like stored API keys.
+export const users = pgTable('users', {
   id: text('id').primaryKey(),
-  prompt: text('prompt').notNull(),
-  repoUrl: text('repo_url'),
-  selectedAgent: text('selected_agent').default('claude'),
-  selectedModel: text('selected_model'),
-  installDependencies: boolean('install_dependencies').default(false),
-  maxDuration: integer('max_duration').default(5),
-  status: text('status', {
-    enum: ['pending', 'processing', 'completed', 'error', 'stopped'],
-  })
-    .notNull()
-    .default('pending'),
-  progress: integer('progress').default(0),
-  logs: jsonb('logs').$type<LogEntry[]>(),
-  error: text('error'),
-  branchName: text('branch_name'),
-  sandboxUrl: text('sandbox_url'),
+  githubId: text('github_id').notNull().unique(),
+  login: text('login').notNull(),
+  name: text('name'),
+  avatarUrl: text('avatar_url'),
+  encryptedAccessToken: text('encrypted_access_token'),
+  accessTokenDataKey: text('access_token_data_key'),
+  // Plaintext token stored before tokens were encrypted; encrypted and cleared when the server starts
+  accessToken: text('access_token'),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
-  completedAt: timestamp('completed_at'),
 })
 
+export const selectUserSchema = z.object({
+  id: z.string(),
+  githubId: z.string(),
+  login: z.string(),
+  name: z.string().nullable(),
+  avatarUrl: z.string().nullable(),
+  encryptedAccessToken: z.string().nullable(),
+  accessTokenDataKey: z.string().nullable(),
+  accessToken: z.string().nullable(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+})
+
+export type User = z.infer<typeof selectUserSchema>
+
+// Sessions are looked up by the SHA-256 hash of the cookie value, so a leaked table cannot be replayed
+export const sessions = pgTable(
+  'sessions',
+  {
+    id: text('id').primaryKey(),
+    userId: text('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    expiresAt: timestamp('expires_at').notNull(),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  (table) => [index('sessions_user_id_idx').on(table.userId)],
+)
+
+// Keys are envelope-encrypted: each value has its own data key, which is wrapped by ENCRYPTION_KEY
+export const apiKeys = pgTable(
+  'api_keys',
+  {
+    id: text('id').primaryKey(),
+    userId: text('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    provider: text('provider', {
+      enum: API_KEY_PROVIDER_VALUES,
+    }).notNull(),
+    encryptedValue: text('encrypted_value').notNull(),
+    encryptedDataKey: text('encrypted_data_key').notNull(),
+    // Last characters of the key so users can tell which one is stored
+    keyHint: text('key_hint').notNull(),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+  },
+  (table) => [uniqueIndex('api_keys_user_id_provider_idx').on(table.userId, table.provider)],
+)
+
+export const apiKeySummarySchema = z.object({
+  provider: z.enum(API_KEY_PROVIDER_VALUES),
+  keyHint: z.string(),
+  updatedAt: z.date(),
+})
+
+export type ApiKeySummary = z.infer<typeof apiKeySummarySchema>
+
+// A prompt run against a repository on a cron schedule. Each run is an ordinary task linked back here.
+export const schedules = pgTable(
+  'schedules',
+  {
+    id: text('id').primaryKey(),
+    userId: text('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    name: text('name').notNull(),
+    // Five-field cron expression, read in the schedule's time zone
+    cron: text('cron').notNull(),
+    timezone: text('timezone').notNull().default('UTC'),
+    prompt: text('prompt').notNull(),
+    repoUrl: text('repo_url').notNull(),
+    selectedAgent: text('selected_agent').notNull().default('claude'),
+    selectedModel: text('selected_model'),
+    installDependencies: boolean('install_dependencies').notNull().default(false),
+    maxDuration: integer('max_duration').notNull().default(5),
+    baseBranch: text('base_branch'),
+    targetPackage: text('target_package'),
+    maxRepairRounds: integer('max_repair_rounds').notNull().default(0),
+    enabled: boolean('enabled').notNull().default(true),
+    nextRunAt: timestamp('next_run_at').notNull(),
+    lastRunAt: timestamp('last_run_at'),
+    // Why the last run could not be started; cleared once a run starts
+    lastError: text('last_error'),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+  },
+  (table) => [
+    index('schedules_user_id_idx').on(table.userId),
+    index('schedules_enabled_next_run_at_idx').on(table.enabled, table.nextRunAt),
+  ],
+)
+
+// Fields a user sets; left out on create, the column defaults apply, and on update, the value is kept
+export const insertScheduleSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  cron: z.string().trim().min(1, 'Cron expression is required'),
+  timezone: z.string().trim().min(1).optional(),
+  prompt: z.string().trim().min(1, 'Prompt is required'),
+  repoUrl: z.string().url('Must be a valid URL'),
+  selectedAgent: z.enum(AGENT_TYPES).optional(),
+  selectedModel: z.string().optional(),
+  installDependencies: z.boolean().optional(),
+  maxDuration: z.number().int().min(1).max(30).optional(),
+  baseBranch: z.string().trim().min(1).optional(),
+  targetPackage: z.string().trim().min(1).optional(),
+  maxRepairRounds: z.number().int().min(0).max(MAX_REPAIR_ROUNDS).optional(),
+  enabled: z.boolean().optional(),
+})
+
+export const updateScheduleSchema = insertScheduleSchema.partial()
+
+export const selectScheduleSchema = z.object({
+  id: z.string(),
+  userId: z.string(),
+  name: z.string(),
+  cron: z.string(),
+  timezone: z.string(),
+  prompt: z.string(),
+  repoUrl: z.string(),
+  selectedAgent: z.string(),
+  selectedModel: z.string().nullable(),
+  installDependencies: z.boolean(),
+  maxDuration: z.number(),
+  baseBranch: z.string().nullable(),
+  targetPackage: z.string().nullable(),
+  maxRepairRounds: z.number(),
+  enabled: z.boolean(),
+  nextRunAt: z.date(),
+  lastRunAt: z.date().nullable(),
+  lastError: z.string().nullable(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+})
+
+export type Schedule = z.infer<typeof selectScheduleSchema>
+export type InsertSchedule = z.infer<typeof insertScheduleSchema>
+
+export const tasks = pgTable(
+  'tasks',
+  {
+    id: text('id').primaryKey(),
+    // Nullable so tasks created before sign-in existed keep their rows; they are not visible to anyone
+    userId: text('user_id').references(() => users.id, { onDelete: 'cascade' }),
+    // Set on the runs of a comparison, which are grouped under the comparison's own task
+    parentTaskId: text('parent_task_id').references((): AnyPgColumn => tasks.id, { onDelete: 'cascade' }),
+    // Set on a comparison: the agents it runs the prompt with, one child task each
+    comparisonAgents: jsonb('comparison_agents').$type<AgentChoice[]>(),
+    // Set on the runs a schedule started
+    scheduleId: text('schedule_id').references(() => schedules.id, { onDelete: 'set null' }),
+    // Set on tasks started from a GitHub issue or pull request: its number, and the comment that reports the status
+    issueNumber: integer('issue_number'),
+    // Text because GitHub comment IDs outgrow a Postgres integer
+    issueCommentId: text('issue_comment_id'),
+    prompt: text('prompt').notNull(),
+    repoUrl: text('repo_url'),
+    // Host of repoUrl, used for links; null for hosts this deployment does not know
+    gitProvider: text('git_provider', { enum: GIT_PROVIDER_TYPES }),
+    selectedAgent: text('selected_agent').default('claude'),
+    selectedModel: text('selected_model'),
+    installDependencies: boolean('install_dependencies').default(false),
+    maxDuration: integer('max_duration').default(5),
+    status: text('status', {
+      enum: ['pending', 'processing', 'completed', 'error', 'stopped'],
+    })
+      .notNull()
+      .default('pending'),
+    progress: integer('progress').default(0),
+    error: text('error'),
+    branchName: text('branch_name'),
+    sandboxUrl: text('sandbox_url'),
+    timeoutPhase: text('timeout_phase', { enum: TASK_PHASES }),
+    baseBranch: text('base_branch'),
+    // Workspace package (name or directory) a monorepo task is scoped to
+    targetPackage: text('target_package'),
+    prDraft: boolean('pr_draft').default(false),
+    prLabels: jsonb('pr_labels').$type<string[]>(),
+    prReviewers: jsonb('pr_reviewers').$type<string[]>(),
+    // Agents to fall back to, in order, when the selected one fails
+    fallbackChain: jsonb('fallback_chain').$type<AgentChoice[]>(),
+    // Times the agent is asked to fix failing checks before the task is marked as failed
+    maxRepairRounds: integer('max_repair_rounds').default(0),
+    prNumber: integer('pr_number'),
+    prUrl: text('pr_url'),
+    prState: text('pr_state', {
+      enum: PR_STATES,
+    }),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+    completedAt: timestamp('completed_at'),
+  },
+  (table) => [
+    index('tasks_parent_task_id_idx').on(table.parentTaskId),
+    index('tasks_schedule_id_idx').on(table.scheduleId),
+  ],
+)
+
 // Manual Zod schemas for validation
 export const insertTaskSchema = z.object({
   id: z.string().optional(),
+  userId: z.string().optional(),
+  parentTaskId: z.string().optional(),
+  comparisonAgents: z.array(agentChoiceSchema).min(2).max(MAX_COMPARISON_AGENTS).optional(),
+  scheduleId: z.string().optional(),
+  issueNumber: z.number().int().positive().optional(),
+  issueCommentId: z.string().optional(),
   prompt: z.string().min(1, 'Prompt is required'),
   repoUrl: z.string().url('Must be a valid URL').optional(),
-  selectedAgent: z.enum(['claude', 'codex', 'cursor', 'gemini', 'opencode']).default('claude'),
+  gitProvider: z.enum(GIT_PROVIDER_TYPES).optional(),
+  // Left out to use the repository's default agent, or Claude
+  selectedAgent: z.enum(AGENT_TYPES).optional(),
   selectedModel: z.string().optional(),
   installDependencies: z.boolean().default(false),
-  maxDuration: z.number().default(5),
+  maxDuration: z.number().int().min(1).max(30).default(5),
   status: z.enum(['pending', 'processing', 'completed', 'error', 'stopped']).default('pending'),
   progress: z.number().min(0).max(100).default(0),
-  logs: z.array(logEntrySchema).optional(),
   error: z.string().optional(),
   branchName: z.string().optional(),
   sandboxUrl: z.string().optional(),
+  timeoutPhase: z.enum(TASK_PHASES).optional(),
+  baseBranch: z.string().trim().min(1).optional(),
+  targetPackage: z.string().trim().min(1).optional(),
+  prDraft: z.boolean().default(false),
+  prLabels: z.array(z.string().trim().min(1)).optional(),
+  prReviewers: z.array(z.string().trim().min(1)).optional(),
+  fallbackChain: z.array(agentChoiceSchema).max(MAX_FALLBACK_AGENTS).optional(),
+  maxRepairRounds: z.number().int().min(0).max(MAX_REPAIR_ROUNDS).default(0),
+  prNumber: z.number().optional(),
+  prUrl: z.string().optional(),
+  prState: z.enum(PR_STATES).optional(),
   createdAt: z.date().optional(),
   updatedAt: z.date().optional(),
   completedAt: z.date().optional(),
@@ -55,18 +328,35 @@ export const insertTaskSchema = z.object({
 
 export const selectTaskSchema = z.object({
   id: z.string(),
+  userId: z.string().nullable(),
+  parentTaskId: z.string().nullable(),
+  comparisonAgents: z.array(agentChoiceSchema).nullable(),
+  scheduleId: z.string().nullable(),
+  issueNumber: z.number().nullable(),
+  issueCommentId: z.string().nullable(),
   prompt: z.string(),
   repoUrl: z.string().nullable(),
+  gitProvider: z.enum(GIT_PROVIDER_TYPES).nullable(),
   selectedAgent: z.string().nullable(),
   selectedModel: z.string().nullable(),
   installDependencies: z.boolean().nullable(),
   maxDuration: z.number().nullable(),
   status: z.enum(['pending', 'processing', 'completed', 'error', 'stopped']),
   progress: z.number().nullable(),
-  logs: z.array(logEntrySchema).nullable(),
   error: z.string().nullable(),
   branchName: z.string().nullable(),
   sandboxUrl: z.string().nullable(),
+  timeoutPhase: z.enum(TASK_PHASES).nullable(),
+  baseBranch: z.string().nullable(),
+  targetPackage: z.string().nullable(),
+  prDraft: z.boolean().nullable(),
+  prLabels: z.array(z.string()).nullable(),
+  prReviewers: z.array(z.string()).nullable(),
+  fallbackChain: z.array(agentChoiceSchema).nullable(),
+  maxRepairRounds: z.number().nullable(),
+  prNumber: z.number().nullable(),
+  prUrl: z.string().nullable(),
+  prState: z.enum(PR_STATES).nullable(),
   createdAt: z.date(),
   updatedAt: z.date(),
   completedAt: z.date().nullable(),
@@ -74,3 +364,312 @@ export const selectTaskSchema = z.object({
 
 export type Task = z.infer<typeof selectTaskSchema>
 export type InsertTask = z.infer<typeof insertTaskSchema>
+
+// Append-only log of a task run, ordered by seq. Seqs are numbered per task from taskLogSequences,
+// so an entry never becomes visible after one with a higher seq and readers can resume from a seq.
+export const taskLogs = pgTable(
+  'task_logs',
+  {
+    taskId: text('task_id')
+      .notNull()
+      .references(() => tasks.id, { onDelete: 'cascade' }),
+    seq: bigint('seq', { mode: 'number' }).notNull(),
+    type: text('type', {
+      enum: LOG_TYPES,
+    }).notNull(),
+    message: text('message').notNull(),
+    timestamp: timestamp('timestamp').defaultNow().notNull(),
+    phase: text('phase', { enum: TASK_PHASES }),
+    agent: text('agent'),
+    event: jsonb('event').$type<AgentEvent>(),
+  },
+  (table) => [primaryKey({ columns: [table.taskId, table.seq] })],
+)
+
+// Last seq given out in each task's log. Taking the next one locks the row until the entry is committed.
+export const taskLogSequences = pgTable('task_log_sequences', {
+  taskId: text('task_id')
+    .primaryKey()
+    .references(() => tasks.id, { onDelete: 'cascade' }),
+  lastSeq: bigint('last_seq', { mode: 'number' }).notNull(),
+})
+
+export const taskMessages = pgTable('task_messages', {
+  id: text('id').primaryKey(),
+  taskId: text('task_id')
+    .notNull()
+    .references(() => tasks.id, { onDelete: 'cascade' }),
+  role: text('role', {
+    enum: ['user', 'agent'],
+  }).notNull(),
+  content: text('content').notNull(),
+  selectedAgent: text('selected_agent'),
+  selectedModel: text('selected_model'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+})
+
+export const insertTaskMessageSchema = z.object({
+  id: z.string().optional(),
+  taskId: z.string(),
+  role: z.enum(['user', 'agent']),
+  content: z.string().min(1, 'Message content is required'),
+  selectedAgent: z.enum(AGENT_TYPES).optional(),
+  selectedModel: z.string().optional(),
+  createdAt: z.date().optional(),
+})
+
+export const selectTaskMessageSchema = z.object({
+  id: z.string(),
+  taskId: z.string(),
+  role: z.enum(['user', 'agent']),
+  content: z.string(),
+  selectedAgent: z.string().nullable(),
+  selectedModel: z.string().nullable(),
+  createdAt: z.date(),
+})
+
+export type TaskMessage = z.infer<typeof selectTaskMessageSchema>
+export type InsertTaskMessage = z.infer<typeof insertTaskMessageSchema>
+
+export const ATTEMPT_STATUSES = ['running', 'succeeded', 'failed'] as const
+
+// One row per agent run within a task, including retries and fallbacks
+export const taskAttempts = pgTable(
+  'task_attempts',
+  {
+    id: text('id').primaryKey(),
+    taskId: text('task_id')
+      .notNull()
+      .references(() => tasks.id, { onDelete: 'cascade' }),
+    // Counts up across every run of the task, follow-ups included
+    attemptNumber: integer('attempt_number').notNull(),
+    agent: text('agent').notNull(),
+    model: text('model'),
+    status: text('status', {
+      enum: ATTEMPT_STATUSES,
+    })
+      .notNull()
+      .default('running'),
+    failureKind: text('failure_kind', { enum: AGENT_FAILURE_KINDS }),
+    error: text('error'),
+    startedAt: timestamp('started_at').defaultNow().notNull(),
+    finishedAt: timestamp('finished_at'),
+  },
+  (table) => [index('task_attempts_task_id_idx').on(table.taskId)],
+)
+
+export const selectTaskAttemptSchema = z.object({
+  id: z.string(),
+  taskId: z.string(),
+  attemptNumber: z.number(),
+  agent: z.string(),
+  model: z.string().nullable(),
+  status: z.enum(ATTEMPT_STATUSES),
+  failureKind: z.enum(AGENT_FAILURE_KINDS).nullable(),
+  error: z.string().nullable(),
+  startedAt: z.date(),
+  finishedAt: z.date().nullable(),
+})
+
+export type TaskAttempt = z.infer<typeof selectTaskAttemptSchema>
+
+// Outputs captured from a task run, one row per run
+export const ARTIFACT_KINDS = ['diff'] as const
+
+export const diffArtifactSchema = z.object({
+  // Commit the run started from; the patch is relative to it
+  baseCommit: z.string(),
+  stat: z.string(),
+  patch: z.string(),
+  // Set when the patch was cut off at the size limit
+  truncated: z.boolean(),
+})
+
+export type DiffArtifact = z.infer<typeof diffArtifactSchema>
+
+export const taskArtifacts = pgTable('task_artifacts', {
+  id: text('id').primaryKey(),
+  taskId: text('task_id')
+    .notNull()
+    .references(() => tasks.id, { onDelete: 'cascade' }),
+  kind: text('kind', {
+    enum: ARTIFACT_KINDS,
+  }).notNull(),
+  data: jsonb('data').$type<DiffArtifact>().notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+})
+
+export const selectTaskArtifactSchema = z.object({
+  id: z.string(),
+  taskId: z.string(),
+  kind: z.enum(ARTIFACT_KINDS),
+  data: diffArtifactSchema,
+  createdAt: z.date(),
+})
+
+export type TaskArtifact = z.infer<typeof selectTaskArtifactSchema>
+
+// Results of the checks run after the agent, one row per check per round. Round 0 checks the
+// agent's own changes, later rounds follow each self-repair attempt.
+export const taskChecks = pgTable(
+  'task_checks',
+  {
+    id: text('id').primaryKey(),
+    taskId: text('task_id')
+      .notNull()
+      .references(() => tasks.id, { onDelete: 'cascade' }),
+    round: integer('round').notNull(),
+    kind: text('kind', {
+      enum: CHECK_KINDS,
+    }).notNull(),
+    command: text('command').notNull(),
+    source: text('source', {
+      enum: CHECK_SOURCES,
+    }).notNull(),
+    status: text('status', {
+      enum: CHECK_STATUSES,
+    }).notNull(),
+    exitCode: integer('exit_code'),
+    // Tail of the combined output
+    output: text('output'),
+    durationMs: integer('duration_ms').notNull(),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  (table) => [index('task_checks_task_id_idx').on(table.taskId)],
+)
+
+export const selectTaskCheckSchema = z.object({
+  id: z.string(),
+  taskId: z.string(),
+  round: z.number(),
+  kind: z.enum(CHECK_KINDS),
+  command: z.string(),
+  source: z.enum(CHECK_SOURCES),
+  status: z.enum(CHECK_STATUSES),
+  exitCode: z.number().nullable(),
+  output: z.string().nullable(),
+  durationMs: z.number(),
+  createdAt: z.date(),
+})
+
+export type TaskCheck = z.infer<typeof selectTaskCheckSchema>
+
+export const SANDBOX_STATES = ['running', 'stopped'] as const
+
+// Sandboxes started for tasks, so any instance can find and stop them. Rows outlive deleted
+// tasks so their sandboxes can still be reaped.
+export const sandboxes = pgTable(
+  'sandboxes',
+  {
+    // ID assigned by Vercel Sandbox
+    id: text('id').primaryKey(),
+    taskId: text('task_id').references(() => tasks.id, { onDelete: 'set null' }),
+    state: text('state', {
+      enum: SANDBOX_STATES,
+    })
+      .notNull()
+      .default('running'),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    stoppedAt: timestamp('stopped_at'),
+  },
+  (table) => [index('sandboxes_task_id_idx').on(table.taskId), index('sandboxes_state_idx').on(table.state)],
+)
+
+export const selectSandboxSchema = z.object({
+  id: z.string(),
+  taskId: z.string().nullable(),
+  state: z.enum(SANDBOX_STATES),
+  createdAt: z.date(),
+  stoppedAt: z.date().nullable(),
+})
+
+export type SandboxRecord = z.infer<typeof selectSandboxSchema>
+
+export const JOB_STATUSES = ['queued', 'running', 'completed', 'failed'] as const
+
+// Options a task run is queued with; the owner's GitHub token is looked up when the job runs
+export const taskJobPayloadSchema = z.object({
+  taskId: z.string(),
+  userId: z.string(),
+  prompt: z.string(),
+  repoUrl: z.string(),
+  selectedAgent: z.string().optional(),
+  selectedModel: z.string().optional(),
+  installDependencies: z.boolean().optional(),
+  maxDuration: z.number().optional(),
+  instruction: z.string().optional(),
+  existingBranchName: z.string().optional(),
+  baseBranch: z.string().optional(),
+  targetPackage: z.string().optional(),
+  fallbackChain: z.array(agentChoiceSchema).optional(),
+  maxRepairRounds: z.number().optional(),
+  // Comparison runs leave the pull request to whichever run is picked
+  openPullRequest: z.boolean().optional(),
+})
+
+export type TaskJobPayload = z.infer<typeof taskJobPayloadSchema>
+
+// Durable queue of task runs. Workers lease a job and keep extending the lease while they run it,
+// so a job whose worker disappears is picked up again once the lease expires.
+export const jobs = pgTable(
+  'jobs',
+  {
+    id: text('id').primaryKey(),
+    taskId: text('task_id')
+      .notNull()
+      .references(() => tasks.id, { onDelete: 'cascade' }),
+    userId: text('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    payload: jsonb('payload').$type<TaskJobPayload>().notNull(),
+    status: text('status', {
+      enum: JOB_STATUSES,
+    })
+      .notNull()
+      .default('queued'),
+    attempts: integer('attempts').notNull().default(0),
+    maxAttempts: integer('max_attempts').notNull().default(3),
+    runAt: timestamp('run_at').defaultNow().notNull(),
+    lockedBy: text('locked_by'),
+    leaseExpiresAt: timestamp('lease_expires_at'),
+    heartbeatAt: timestamp('heartbeat_at'),
+    lastError: text('last_error'),
+    // Phase the latest attempt reached, so a retry can say where that attempt stopped
+    phase: text('phase', { enum: TASK_PHASES }),
+    // Set once an attempt pushed its changes; a retry then finishes the task without running the agent again
+    pushedBranch: text('pushed_branch'),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+  },
+  (table) => [
+    index('jobs_status_run_at_idx').on(table.status, table.runAt),
+    index('jobs_user_id_status_idx').on(table.userId, table.status),
+  ],
+)
+
+export const selectJobSchema = z.object({
+  id: z.string(),
+  taskId: z.string(),
+  userId: z.string(),
+  payload: taskJobPayloadSchema,
+  status: z.enum(JOB_STATUSES),
+  attempts: z.number(),
+  maxAttempts: z.number(),
+  runAt: z.date(),
+  lockedBy: z.string().nullable(),
+  leaseExpiresAt: z.date().nullable(),
+  heartbeatAt: z.date().nullable(),
+  lastError: z.string().nullable(),
+  phase: z.enum(TASK_PHASES).nullable(),
+  pushedBranch: z.string().nullable(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+})
+
+export type Job = z.infer<typeof selectJobSchema>
+
+// GitHub webhook deliveries already received, by their X-GitHub-Delivery ID, so a redelivery starts nothing
+export const webhookDeliveries = pgTable('webhook_deliveries', {
+  id: text('id').primaryKey(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+})
@@ -0,0 +1,42 @@
+// Client-safe metadata for the git hosts tasks can run against.
+// API clients live in the per-host modules and are looked up in ./index.
+
+export const GIT_PROVIDER_TYPES = ['github', 'gitlab', 'gitea'] as const
+
+export type GitProviderType = (typeof GIT_PROVIDER_TYPES)[number]
+
+export const GIT_PROVIDER_LABELS: Record<GitProviderType, string> = {
+  github: 'GitHub',
+  gitlab: 'GitLab',
+  gitea: 'Gitea',
+}
+
+export interface GitProviderOption {
+  value: GitProviderType
+  label: string
+}
+
+export function isGitProviderType(value: string): value is GitProviderType {
+  return (GIT_PROVIDER_TYPES as readonly string[]).includes(value)
+}
+
+function repoWebUrl(repoUrl: string): string {
+  return repoUrl.replace(/\.git$/, '')
+}
+
+// Tasks from before providers were recorded are all on GitHub
+export function getBranchUrl(provider: GitProviderType | null, repoUrl: string, branch: string): string {
+  switch (provider) {
+    case 'gitlab':
+      return `${repoWebUrl(repoUrl)}/-/tree/${branch}`
+    case 'gitea':
+      return `${repoWebUrl(repoUrl)}/src/branch/${branch}`
+    default:
+      return `${repoWebUrl(repoUrl)}/tree/${branch}`
+  }
+}
+
+export function getCompareUrl(provider: GitProviderType | null, repoUrl: string, base: string, head: string): string {
+  const path = provider === 'gitlab' ? '/-/compare' : '/compare'
+  return `${repoWebUrl(repoUrl)}${path}/${base}...${head}`
+}
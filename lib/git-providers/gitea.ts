@@ -0,0 +1,236 @@
+import { apiRequest, fetchAllPages, repoPathSegments } from './http'
+import {
+  CreatePullRequestOptions,
+  GitOwner,
+  GitProvider,
+  GitRepository,
+  PullRequestInfo,
+  PullRequestResult,
+  PullRequestState,
+  RepoRef,
+} from './types'
+
+// Gitea's default maximum page size
+const PER_PAGE = 50
+// Gitea marks a pull request as a draft by this title prefix
+const DRAFT_PREFIX = 'WIP: '
+
+interface GiteaPullRequest {
+  number: number
+  html_url: string
+  state: 'open' | 'closed'
+  merged: boolean
+  draft?: boolean
+  title: string
+  head: { ref: string }
+}
+
+interface GiteaUser {
+  login: string
+  full_name: string
+  avatar_url: string
+}
+
+interface GiteaOrg {
+  name: string
+  full_name: string
+  avatar_url: string
+}
+
+interface GiteaRepo {
+  name: string
+  full_name: string
+  description: string
+  private: boolean
+  clone_url: string
+  updated_at: string
+  language?: string
+  owner: { login: string }
+}
+
+interface GiteaLabel {
+  id: number
+  name: string
+}
+
+function toPullRequestInfo(pr: GiteaPullRequest): PullRequestInfo {
+  let state: PullRequestState = pr.state
+  if (pr.merged) {
+    state = 'merged'
+  } else if (pr.state === 'open' && (pr.draft || pr.title.startsWith(DRAFT_PREFIX))) {
+    state = 'draft'
+  }
+  return { number: pr.number, url: pr.html_url, state }
+}
+
+function toRepository(repo: GiteaRepo): GitRepository {
+  return {
+    name: repo.name,
+    full_name: repo.full_name,
+    description: repo.description || undefined,
+    private: repo.private,
+    clone_url: repo.clone_url,
+    updated_at: repo.updated_at,
+    language: repo.language || undefined,
+  }
+}
+
+/**
+ * A self-hosted Gitea (or Forgejo) instance. Tokens are access tokens with repository and
+ * organization read access plus repository write access.
+ */
+export function createGiteaProvider(baseUrl: string): GitProvider {
+  const { host, protocol } = new URL(baseUrl)
+  const apiUrl = `${baseUrl.replace(/\/$/, '')}/api/v1`
+  const headers = (token: string) => ({ Authorization: `token ${token}` })
+
+  const request = <T>(path: string, token: string, init?: { method?: string; body?: unknown }) =>
+    apiRequest<T>('Gitea', `${apiUrl}${path}`, headers(token), init)
+
+  const parseRepo = (repoUrl: string): RepoRef | null => {
+    const [owner, repo] = repoPathSegments(repoUrl, host) || []
+    return owner && repo ? { owner, repo } : null
+  }
+
+  const listAll = <T>(path: string, token: string) =>
+    fetchAllPages<T>(
+      'Gitea',
+      (page) => `${apiUrl}${path}${path.includes('?') ? '&' : '?'}limit=${PER_PAGE}&page=${page}`,
+      headers(token),
+      PER_PAGE,
+    )
+
+  const getDefaultBranch = async (repoUrl: string, token: string) => {
+    const ref = parseRepo(repoUrl)
+    if (!ref || !token) return null
+
+    const result = await request<{ default_branch: string }>(`/repos/${ref.owner}/${ref.repo}`, token)
+    return result.ok ? result.data.default_branch : null
+  }
+
+  return {
+    type: 'gitea',
+    baseUrl,
+    parseRepo,
+
+    // Gitea accepts a token as the username when the password is x-oauth-basic, as GitHub does
+    authenticatedRepoUrl(repoUrl, token) {
+      const url = new URL(repoUrl)
+      url.username = token
+      url.password = 'x-oauth-basic'
+      return url.toString()
+    },
+
+    credentialLine(token) {
+      return `${protocol}//${token}:x-oauth-basic@${host}\n`
+    },
+
+    async listOwners(token) {
+      const user = await request<GiteaUser>('/user', token)
+      if (!user.ok) throw new Error(user.error)
+
+      const orgs = await listAll<GiteaOrg>('/user/orgs', token)
+      const owners: GitOwner[] = orgs.map((org) => ({
+        login: org.name,
+        name: org.full_name || org.name,
+        avatar_url: org.avatar_url,
+      }))
+      owners.sort((a, b) => a.login.localeCompare(b.login, undefined, { sensitivity: 'base' }))
+      return [
+        { login: user.data.login, name: user.data.full_name || user.data.login, avatar_url: user.data.avatar_url },
+        ...owners,
+      ]
+    },
+
+    async listRepositories(owner, token) {
+      const user = await request<GiteaUser>('/user', token)
+      if (user.ok && user.data.login === owner) {
+        // /user/repos includes private repos, but also those of the user's organizations
+        const repos = await listAll<GiteaRepo>('/user/repos', token)
+        return repos.filter((repo) => repo.owner.login === owner).map(toRepository)
+      }
+
+      const org = await request(`/orgs/${owner}`, token)
+      const repos = await listAll<GiteaRepo>(org.ok ? `/orgs/${owner}/repos` : `/users/${owner}/repos`, token)
+      return repos.map(toRepository)
+    },
+
+    getDefaultBranch,
+
+    async createPullRequest(options: CreatePullRequestOptions, token: string): Promise<PullRequestResult> {
+      if (!token) {
+        return { success: false, error: 'A Gitea access token is required to create pull requests' }
+      }
+
+      const ref = parseRepo(options.repoUrl)
+      if (!ref) {
+        return { success: false, error: `Not a ${host} repository URL` }
+      }
+
+      const repoPath = `/repos/${ref.owner}/${ref.repo}`
+      const base = options.base || (await getDefaultBranch(options.repoUrl, token)) || 'main'
+
+      const createResult = await request<GiteaPullRequest>(`${repoPath}/pulls`, token, {
+        method: 'POST',
+        body: {
+          head: options.head,
+          base,
+          title: options.draft ? `${DRAFT_PREFIX}${options.title}` : options.title,
+          body: options.body,
+        },
+      })
+
+      if (!createResult.ok) {
+        // 409 is returned when a pull request already exists for this branch
+        if (createResult.status === 409) {
+          const open = await request<GiteaPullRequest[]>(`${repoPath}/pulls?state=open`, token)
+          const existing = open.ok ? open.data.find((pr) => pr.head.ref === options.head) : undefined
+          if (existing) {
+            return { success: true, pullRequest: toPullRequestInfo(existing) }
+          }
+        }
+        return { success: false, error: createResult.error }
+      }
+
+      const pullRequest = toPullRequestInfo(createResult.data)
+      const warnings: string[] = []
+
+      // Labels and reviewers are applied after creation and never fail the pull request.
+      // Gitea takes label IDs, so only labels that already exist on the repository can be added.
+      if (options.labels && options.labels.length > 0) {
+        const labels = await request<GiteaLabel[]>(`${repoPath}/labels?limit=${PER_PAGE}`, token)
+        const existing = labels.ok ? labels.data.filter((label) => options.labels!.includes(label.name)) : []
+        const ids = existing.map((label) => label.id)
+        const missing = options.labels.filter((name) => !existing.some((label) => label.name === name))
+        if (missing.length > 0) {
+          warnings.push(`Labels not found on the repository: ${missing.join(', ')}`)
+        }
+        if (ids.length > 0) {
+          const labelResult = await request(`${repoPath}/issues/${pullRequest.number}/labels`, token, {
+            method: 'POST',
+            body: { labels: ids },
+          })
+          if (!labelResult.ok) warnings.push(`Failed to add labels: ${labelResult.error}`)
+        }
+      }
+
+      if (options.reviewers && options.reviewers.length > 0) {
+        const reviewerResult = await request(`${repoPath}/pulls/${pullRequest.number}/requested_reviewers`, token, {
+          method: 'POST',
+          body: { reviewers: options.reviewers },
+        })
+        if (!reviewerResult.ok) warnings.push(`Failed to request reviewers: ${reviewerResult.error}`)
+      }
+
+      return { success: true, pullRequest, warnings }
+    },
+
+    async getPullRequest(repoUrl, number, token) {
+      const ref = parseRepo(repoUrl)
+      if (!ref || !token) return null
+
+      const result = await request<GiteaPullRequest>(`/repos/${ref.owner}/${ref.repo}/pulls/${number}`, token)
+      return result.ok ? toPullRequestInfo(result.data) : null
+    },
+  }
+}
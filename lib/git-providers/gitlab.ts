@@ -0,0 +1,234 @@
+import { apiRequest, fetchAllPages, repoPathSegments } from './http'
+import {
+  CreatePullRequestOptions,
+  GitOwner,
+  GitProvider,
+  GitRepository,
+  PullRequestInfo,
+  PullRequestResult,
+  PullRequestState,
+  RepoRef,
+} from './types'
+
+// GitLab's maximum page size
+const PER_PAGE = 100
+// GitLab marks a merge request as a draft by this title prefix
+const DRAFT_PREFIX = 'Draft: '
+
+interface GitLabMergeRequest {
+  iid: number
+  web_url: string
+  state: 'opened' | 'closed' | 'locked' | 'merged'
+  draft?: boolean
+}
+
+interface GitLabUser {
+  id: number
+  username: string
+  name: string
+  avatar_url: string | null
+}
+
+interface GitLabGroup {
+  full_path: string
+  name: string
+  avatar_url: string | null
+}
+
+interface GitLabProject {
+  path: string
+  path_with_namespace: string
+  description: string | null
+  visibility: 'private' | 'internal' | 'public'
+  http_url_to_repo: string
+  last_activity_at: string
+}
+
+function toPullRequestInfo(mr: GitLabMergeRequest): PullRequestInfo {
+  let state: PullRequestState
+  if (mr.state === 'merged') {
+    state = 'merged'
+  } else if (mr.state === 'opened') {
+    state = mr.draft ? 'draft' : 'open'
+  } else {
+    state = 'closed'
+  }
+  return { number: mr.iid, url: mr.web_url, state }
+}
+
+function toRepository(project: GitLabProject): GitRepository {
+  return {
+    name: project.path,
+    full_name: project.path_with_namespace,
+    description: project.description || undefined,
+    private: project.visibility !== 'public',
+    clone_url: project.http_url_to_repo,
+    updated_at: project.last_activity_at,
+  }
+}
+
+/**
+ * GitLab, on gitlab.com or a self-managed instance. Merge requests stand in for pull requests,
+ * numbered by their project-scoped iid. Tokens are personal access tokens with the api scope.
+ */
+export function createGitLabProvider(baseUrl: string): GitProvider {
+  const { host, protocol } = new URL(baseUrl)
+  const apiUrl = `${baseUrl.replace(/\/$/, '')}/api/v4`
+  const headers = (token: string) => ({ Authorization: `Bearer ${token}` })
+
+  const request = <T>(path: string, token: string, init?: { method?: string; body?: unknown }) =>
+    apiRequest<T>('GitLab', `${apiUrl}${path}`, headers(token), init)
+
+  // Everything before the last segment is the namespace, which can be nested
+  const parseRepo = (repoUrl: string): RepoRef | null => {
+    const segments = repoPathSegments(repoUrl, host)
+    if (!segments || segments.length < 2) return null
+    return { owner: segments.slice(0, -1).join('/'), repo: segments[segments.length - 1] }
+  }
+
+  const projectPath = (ref: RepoRef) => `/projects/${encodeURIComponent(`${ref.owner}/${ref.repo}`)}`
+
+  const getDefaultBranch = async (repoUrl: string, token: string) => {
+    const ref = parseRepo(repoUrl)
+    if (!ref || !token) return null
+
+    const result = await request<{ default_branch: string }>(projectPath(ref), token)
+    return result.ok ? result.data.default_branch : null
+  }
+
+  // GitLab takes reviewer IDs, so usernames are looked up first
+  const findUserIds = async (usernames: string[], token: string) => {
+    const ids: number[] = []
+    const missing: string[] = []
+    for (const username of usernames) {
+      const result = await request<GitLabUser[]>(`/users?username=${encodeURIComponent(username)}`, token)
+      if (result.ok && result.data[0]) {
+        ids.push(result.data[0].id)
+      } else {
+        missing.push(username)
+      }
+    }
+    return { ids, missing }
+  }
+
+  return {
+    type: 'gitlab',
+    baseUrl,
+    parseRepo,
+
+    authenticatedRepoUrl(repoUrl, token) {
+      const url = new URL(repoUrl)
+      url.username = 'oauth2'
+      url.password = token
+      return url.toString()
+    },
+
+    credentialLine(token) {
+      return `${protocol}//oauth2:${token}@${host}\n`
+    },
+
+    async listOwners(token) {
+      const user = await request<GitLabUser>('/user', token)
+      if (!user.ok) throw new Error(user.error)
+
+      const groups = await fetchAllPages<GitLabGroup>(
+        'GitLab',
+        (page) => `${apiUrl}/groups?min_access_level=10&per_page=${PER_PAGE}&page=${page}`,
+        headers(token),
+        PER_PAGE,
+      )
+
+      const owners: GitOwner[] = groups.map((group) => ({
+        login: group.full_path,
+        name: group.name,
+        avatar_url: group.avatar_url || '',
+      }))
+      owners.sort((a, b) => a.login.localeCompare(b.login, undefined, { sensitivity: 'base' }))
+      return [{ login: user.data.username, name: user.data.name, avatar_url: user.data.avatar_url || '' }, ...owners]
+    },
+
+    async listRepositories(owner, token) {
+      // Namespaces are either groups or users; groups include their private projects the token can see
+      const group = await request(`/groups/${encodeURIComponent(owner)}`, token)
+      const listPath = group.ok
+        ? `/groups/${encodeURIComponent(owner)}/projects?order_by=name&sort=asc`
+        : `/users/${encodeURIComponent(owner)}/projects?order_by=name&sort=asc`
+
+      const projects = await fetchAllPages<GitLabProject>(
+        'GitLab',
+        (page) => `${apiUrl}${listPath}&per_page=${PER_PAGE}&page=${page}`,
+        headers(token),
+        PER_PAGE,
+      )
+      return projects.map(toRepository)
+    },
+
+    getDefaultBranch,
+
+    async createPullRequest(options: CreatePullRequestOptions, token: string): Promise<PullRequestResult> {
+      if (!token) {
+        return { success: false, error: 'A GitLab access token is required to create merge requests' }
+      }
+
+      const ref = parseRepo(options.repoUrl)
+      if (!ref) {
+        return { success: false, error: `Not a ${host} repository URL` }
+      }
+
+      const project = projectPath(ref)
+      const targetBranch = options.base || (await getDefaultBranch(options.repoUrl, token)) || 'main'
+
+      const createResult = await request<GitLabMergeRequest>(`${project}/merge_requests`, token, {
+        method: 'POST',
+        body: {
+          source_branch: options.head,
+          target_branch: targetBranch,
+          title: options.draft ? `${DRAFT_PREFIX}${options.title}` : options.title,
+          description: options.body,
+          // Labels are created on the project if they do not exist yet
+          labels: options.labels?.length ? options.labels.join(',') : undefined,
+        },
+      })
+
+      if (!createResult.ok) {
+        // 409 is returned when an open merge request already exists for this branch
+        if (createResult.status === 409) {
+          const existing = await request<GitLabMergeRequest[]>(
+            `${project}/merge_requests?state=opened&source_branch=${encodeURIComponent(options.head)}`,
+            token,
+          )
+          if (existing.ok && existing.data[0]) {
+            return { success: true, pullRequest: toPullRequestInfo(existing.data[0]) }
+          }
+        }
+        return { success: false, error: createResult.error }
+      }
+
+      const pullRequest = toPullRequestInfo(createResult.data)
+      const warnings: string[] = []
+
+      // Reviewers are applied after creation and never fail the merge request
+      if (options.reviewers && options.reviewers.length > 0) {
+        const { ids, missing } = await findUserIds(options.reviewers, token)
+        if (missing.length > 0) warnings.push(`Unknown reviewers: ${missing.join(', ')}`)
+        if (ids.length > 0) {
+          const reviewerResult = await request(`${project}/merge_requests/${pullRequest.number}`, token, {
+            method: 'PUT',
+            body: { reviewer_ids: ids },
+          })
+          if (!reviewerResult.ok) warnings.push(`Failed to request reviewers: ${reviewerResult.error}`)
+        }
+      }
+
+      return { success: true, pullRequest, warnings }
+    },
+
+    async getPullRequest(repoUrl, number, token) {
+      const ref = parseRepo(repoUrl)
+      if (!ref || !token) return null
+
+      const result = await request<GitLabMergeRequest>(`${projectPath(ref)}/merge_requests/${number}`, token)
+      return result.ok ? toPullRequestInfo(result.data) : null
+    },
+  }
+}
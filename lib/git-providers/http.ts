@@ -0,0 +1,80 @@
+export type ApiResponse<T> = { ok: true; status: number; data: T } | { ok: false; status: number; error: string }
+
+// Hosts report errors as { message } (sometimes an object of field errors), { error } or GitHub's { errors: [...] }
+function describeError(data: unknown, fallback: string): string[] {
+  if (!data || typeof data !== 'object') return [fallback]
+
+  const body = data as { message?: unknown; error?: unknown; errors?: unknown }
+  const message = body.message ?? body.error
+  const summary = typeof message === 'string' ? message : message ? JSON.stringify(message) : fallback
+  const details = Array.isArray(body.errors)
+    ? body.errors.map((e: { message?: string }) => e?.message).filter((e): e is string => !!e)
+    : []
+  return [summary, ...details]
+}
+
+/**
+ * JSON request against a git host's REST API. Failures come back as a result rather than throwing,
+ * with the host's own error message.
+ */
+export async function apiRequest<T>(
+  label: string,
+  url: string,
+  headers: Record<string, string>,
+  init?: { method?: string; body?: unknown },
+): Promise<ApiResponse<T>> {
+  const response = await fetch(url, {
+    method: init?.method || 'GET',
+    headers: {
+      ...headers,
+      ...(init?.body ? { 'Content-Type': 'application/json' } : {}),
+    },
+    body: init?.body ? JSON.stringify(init.body) : undefined,
+  })
+
+  const data = await response.json().catch(() => null)
+  if (!response.ok) {
+    const [message, ...details] = describeError(data, response.statusText)
+    return {
+      ok: false,
+      status: response.status,
+      error: [`${label} API error (${response.status}): ${message}`, ...details].join(' - '),
+    }
+  }
+
+  return { ok: true, status: response.status, data: data as T }
+}
+
+// Fetch every page of a list endpoint; pageUrl builds the URL for a 1-based page number
+export async function fetchAllPages<T>(
+  label: string,
+  pageUrl: (page: number) => string,
+  headers: Record<string, string>,
+  perPage: number,
+): Promise<T[]> {
+  const items: T[] = []
+  for (let page = 1; ; page++) {
+    const result = await apiRequest<T[]>(label, pageUrl(page), headers)
+    if (!result.ok) throw new Error(result.error)
+
+    items.push(...result.data)
+    if (result.data.length < perPage) return items
+  }
+}
+
+// Split a repository URL on the given host into its path segments, without a trailing .git
+export function repoPathSegments(repoUrl: string, host: string): string[] | null {
+  try {
+    const url = new URL(repoUrl)
+    if (url.host !== host) return null
+
+    return url.pathname
+      .replace(/^\//, '')
+      .replace(/\/$/, '')
+      .replace(/\.git$/, '')
+      .split('/')
+      .filter(Boolean)
+  } catch {
+    return null
+  }
+}
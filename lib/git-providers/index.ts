@@ -0,0 +1,52 @@
+import { getAccessToken } from '@/lib/auth/access-token'
+import { User } from '@/lib/db/schema'
+import { getApiKey } from '@/lib/keys/vault'
+import { GIT_PROVIDER_LABELS, GitProviderOption, GitProviderType } from './definitions'
+import { githubProvider } from './github'
+import { createGitLabProvider } from './gitlab'
+import { createGiteaProvider } from './gitea'
+import { GitProvider } from './types'
+
+export type { GitProvider, GitOwner, GitRepository, PullRequestInfo, PullRequestState } from './types'
+
+const DEFAULT_GITLAB_URL = 'https://gitlab.com'
+
+/**
+ * The git hosts this deployment works with. GitHub and GitLab (gitlab.com unless GITLAB_URL points
+ * at a self-managed instance) are always available; Gitea needs GITEA_URL.
+ */
+export function getGitProviders(): GitProvider[] {
+  const providers = [githubProvider, createGitLabProvider(process.env.GITLAB_URL || DEFAULT_GITLAB_URL)]
+  if (process.env.GITEA_URL) {
+    providers.push(createGiteaProvider(process.env.GITEA_URL))
+  }
+  return providers
+}
+
+export function getGitProviderOptions(): GitProviderOption[] {
+  return getGitProviders().map((provider) => ({ value: provider.type, label: GIT_PROVIDER_LABELS[provider.type] }))
+}
+
+export function getGitProvider(type: GitProviderType): GitProvider | null {
+  return getGitProviders().find((provider) => provider.type === type) || null
+}
+
+// The provider hosting a repository URL, or null for hosts this deployment does not know
+export function findGitProvider(repoUrl: string): GitProvider | null {
+  return getGitProviders().find((provider) => provider.parseRepo(repoUrl)) || null
+}
+
+/**
+ * The token used for a user's git and API calls on a host: the GitHub sign-in token, or the
+ * access token they stored for GitLab or Gitea. Empty when they have none.
+ */
+export async function getGitToken(provider: GitProvider, user: User): Promise<string> {
+  if (provider.type === 'github') return getAccessToken(user)
+  return (await getApiKey(user.id, provider.type)) || ''
+}
+
+// Token for a repository's host; empty for unknown hosts, which still allows cloning public repositories
+export async function resolveGitToken(repoUrl: string, user: User): Promise<string> {
+  const provider = findGitProvider(repoUrl)
+  return provider ? getGitToken(provider, user) : ''
+}
@@ -0,0 +1,73 @@
+import type { PR_STATES } from '@/lib/db/schema'
+import { GitProviderType } from './definitions'
+
+export type PullRequestState = (typeof PR_STATES)[number]
+
+export interface PullRequestInfo {
+  number: number
+  url: string
+  state: PullRequestState
+}
+
+export interface CreatePullRequestOptions {
+  repoUrl: string
+  head: string
+  base?: string
+  title: string
+  body: string
+  draft?: boolean
+  labels?: string[]
+  reviewers?: string[]
+}
+
+export interface PullRequestResult {
+  success: boolean
+  pullRequest?: PullRequestInfo
+  error?: string
+  // Problems applying labels or reviewers; the PR itself was still opened
+  warnings?: string[]
+}
+
+// Owner and name of a repository; GitLab owners can be nested group paths such as "group/subgroup"
+export interface RepoRef {
+  owner: string
+  repo: string
+}
+
+// A user or organization whose repositories can be listed
+export interface GitOwner {
+  login: string
+  name: string
+  avatar_url: string
+}
+
+export interface GitRepository {
+  name: string
+  full_name: string
+  description?: string
+  private: boolean
+  clone_url: string
+  updated_at: string
+  language?: string
+}
+
+/**
+ * A git host tasks can clone from, push to and open pull requests on.
+ * Listing methods throw on API errors; pull request methods report them in their result.
+ */
+export interface GitProvider {
+  type: GitProviderType
+  // Web origin of the host, e.g. https://gitlab.com
+  baseUrl: string
+  parseRepo(repoUrl: string): RepoRef | null
+  // Clone URL with the token embedded, for hosts that need credentials to clone
+  authenticatedRepoUrl(repoUrl: string, token: string): string
+  // Entry for git's credential store so pushes from the sandbox authenticate
+  credentialLine(token: string): string
+  // The token's own account first, then the organizations or groups it belongs to
+  listOwners(token: string): Promise<GitOwner[]>
+  listRepositories(owner: string, token: string): Promise<GitRepository[]>
+  getDefaultBranch(repoUrl: string, token: string): Promise<string | null>
+  createPullRequest(options: CreatePullRequestOptions, token: string): Promise<PullRequestResult>
+  getPullRequest(repoUrl: string, number: number, token: string): Promise<PullRequestInfo | null>
+}
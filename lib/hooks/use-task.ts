@@ -1,20 +1,29 @@
 'use client'
 
 import { useState, useEffect, useCallback } from 'react'
-import { Task } from '@/lib/db/schema'
+import { Task, TaskAttempt, TaskCheck, TaskMessage, LogEntry } from '@/lib/db/schema'
 
 export function useTask(taskId: string) {
   const [task, setTask] = useState<Task | null>(null)
+  const [messages, setMessages] = useState<TaskMessage[]>([])
+  const [attempts, setAttempts] = useState<TaskAttempt[]>([])
+  const [checks, setChecks] = useState<TaskCheck[]>([])
+  const [logs, setLogs] = useState<LogEntry[]>([])
+  const [hasMoreLogs, setHasMoreLogs] = useState(false)
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
 
-  const fetchTask = useCallback(async () => {
+  const fetchTask = useCallback(async (): Promise<Task | null> => {
     try {
       const response = await fetch(`/api/tasks/${taskId}`)
       if (response.ok) {
         const data = await response.json()
         setTask(data.task)
+        setMessages(data.messages || [])
+        setAttempts(data.attempts || [])
+        setChecks(data.checks || [])
         setError(null)
+        return data.task
       } else if (response.status === 404) {
         setError('Task not found')
         setTask(null)
@@ -27,21 +36,87 @@ export function useTask(taskId: string) {
     } finally {
       setIsLoading(false)
     }
+    return null
   }, [taskId])
 
-  // Initial fetch
-  useEffect(() => {
-    fetchTask()
-  }, [fetchTask])
+  // Fetch the page of logs before the oldest one loaded
+  const loadEarlierLogs = useCallback(async () => {
+    const oldestSeq = logs[0]?.seq
+    if (oldestSeq === undefined) return
 
-  // Poll for updates every 5 seconds
+    try {
+      const response = await fetch(`/api/tasks/${taskId}/logs?before=${oldestSeq}`)
+      if (response.ok) {
+        const page: { logs: LogEntry[]; hasMore: boolean } = await response.json()
+        setLogs((prev) => [...page.logs, ...prev])
+        setHasMoreLogs(page.hasMore)
+      }
+    } catch (err) {
+      console.error('Error fetching earlier logs:', err)
+    }
+  }, [taskId, logs])
+
+  // Load the task and its latest logs once, then tail new logs and status changes over Server-Sent Events
   useEffect(() => {
-    const interval = setInterval(() => {
-      fetchTask()
-    }, 5000)
+    let eventSource: EventSource | null = null
+    let cancelled = false
+
+    const connect = async () => {
+      const initialTask = await fetchTask()
+      if (cancelled || !initialTask) return
+
+      let cursor = 0
+      try {
+        const response = await fetch(`/api/tasks/${taskId}/logs`)
+        if (response.ok) {
+          const page: { logs: LogEntry[]; hasMore: boolean } = await response.json()
+          setLogs(page.logs)
+          setHasMoreLogs(page.hasMore)
+          cursor = page.logs[page.logs.length - 1]?.seq || 0
+        }
+      } catch (err) {
+        console.error('Error fetching task logs:', err)
+      }
+      if (cancelled) return
+
+      eventSource = new EventSource(`/api/tasks/${taskId}/events?cursor=${cursor}`)
 
-    return () => clearInterval(interval)
-  }, [fetchTask])
+      eventSource.addEventListener('log', (event) => {
+        const entry: LogEntry = JSON.parse(event.data)
+        setLogs((prev) => [...prev, entry])
+      })
+
+      eventSource.addEventListener('task', (event) => {
+        setTask(JSON.parse(event.data))
+      })
+
+      eventSource.addEventListener('messages', (event) => {
+        setMessages(JSON.parse(event.data))
+      })
+
+      eventSource.addEventListener('attempts', (event) => {
+        setAttempts(JSON.parse(event.data))
+      })
+
+      eventSource.addEventListener('checks', (event) => {
+        setChecks(JSON.parse(event.data))
+      })
+
+      // The browser reconnects on its own unless the server refused the stream (e.g. task deleted)
+      eventSource.onerror = () => {
+        if (eventSource?.readyState === EventSource.CLOSED) {
+          fetchTask()
+        }
+      }
+    }
+
+    connect()
+
+    return () => {
+      cancelled = true
+      eventSource?.close()
+    }
+  }, [taskId, fetchTask])
 
-  return { task, isLoading, error, refetch: fetchTask }
+  return { task, messages, attempts, checks, logs, hasMoreLogs, loadEarlierLogs, isLoading, error, refetch: fetchTask }
 }
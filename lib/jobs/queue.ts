@@ -0,0 +1,258 @@
+import { and, asc, count, eq, lt, lte, notInArray, sql } from 'drizzle-orm'
+import { db } from '@/lib/db/client'
+import { jobs, tasks, Job, TaskJobPayload } from '@/lib/db/schema'
+import { generateId } from '@/lib/utils/id'
+import { createTaskLogger } from '@/lib/utils/task-logger'
+import { syncComparisonForTask } from '@/lib/tasks/comparisons'
+import { syncIssueCommentForTask } from '@/lib/webhooks/github'
+import { TASK_PHASE_LABELS, TaskPhase } from '@/lib/utils/time-budget'
+
+// A worker that stops heartbeating loses its job after this long
+const LEASE_DURATION_MS = 2 * 60 * 1000
+export const HEARTBEAT_INTERVAL_MS = 30 * 1000
+// Retries wait a little longer after each failed attempt
+const RETRY_BACKOFF_MS = 30 * 1000
+
+// Serializes claims so concurrency limits hold across workers
+const CLAIM_LOCK_ID = 727_001
+
+// Left after a task's budget for shutting its sandbox down, the pull request and bookkeeping
+export const JOB_OVERHEAD_MS = 60 * 1000
+// The maxDuration of the routes that run workers, the longest Vercel allows
+const DEFAULT_WORKER_LIFETIME_SECONDS = 800
+
+export function getConcurrencyLimits() {
+  return {
+    global: parseInt(process.env.JOB_CONCURRENCY || '10', 10),
+    perUser: parseInt(process.env.JOB_CONCURRENCY_PER_USER || '2', 10),
+  }
+}
+
+/**
+ * How long a worker runs before its function is stopped. WORKER_LIFETIME_SECONDS raises it for
+ * deployments on a server of their own, where routes are not stopped after their maxDuration.
+ */
+export function getWorkerLifetimeMs(): number {
+  const seconds = parseInt(process.env.WORKER_LIFETIME_SECONDS || '', 10)
+  return (seconds > 0 ? seconds : DEFAULT_WORKER_LIFETIME_SECONDS) * 1000
+}
+
+// Longest maxDuration, in minutes, a worker can run to the end
+export function getMaxTaskDuration(): number {
+  return Math.floor((getWorkerLifetimeMs() - JOB_OVERHEAD_MS) / (60 * 1000))
+}
+
+// Error for a maxDuration no worker can run to the end, or null
+export function validateTaskDuration(maxDuration: number): string | null {
+  const limit = getMaxTaskDuration()
+  if (maxDuration <= limit) return null
+  return `Tasks can run for at most ${limit} minutes on this deployment; choose a shorter maximum duration`
+}
+
+function leaseExpiry(): Date {
+  return new Date(Date.now() + LEASE_DURATION_MS)
+}
+
+export async function enqueueTaskJob(payload: TaskJobPayload): Promise<Job> {
+  const [job] = await db
+    .insert(jobs)
+    .values({ id: generateId(12), taskId: payload.taskId, userId: payload.userId, payload })
+    .returning()
+  return job
+}
+
+/**
+ * Lease the next runnable job, skipping users at their concurrency limit and jobs whose task
+ * could not finish within maxDurationMinutes. Returns undefined when nothing can run right now.
+ */
+export async function claimNextJob(workerId: string, maxDurationMinutes: number): Promise<Job | undefined> {
+  const limits = getConcurrencyLimits()
+
+  return db.transaction(async (tx) => {
+    await tx.execute(sql`select pg_advisory_xact_lock(${CLAIM_LOCK_ID})`)
+
+    const running = await tx
+      .select({ userId: jobs.userId, value: count() })
+      .from(jobs)
+      .where(eq(jobs.status, 'running'))
+      .groupBy(jobs.userId)
+
+    const totalRunning = running.reduce((sum, row) => sum + row.value, 0)
+    if (totalRunning >= limits.global) return undefined
+
+    const saturatedUsers = running.filter((row) => row.value >= limits.perUser).map((row) => row.userId)
+
+    const [candidate] = await tx
+      .select({ id: jobs.id })
+      .from(jobs)
+      .where(
+        and(
+          eq(jobs.status, 'queued'),
+          lte(jobs.runAt, new Date()),
+          saturatedUsers.length > 0 ? notInArray(jobs.userId, saturatedUsers) : undefined,
+          sql`coalesce((${jobs.payload}->>'maxDuration')::int, 5) <= ${maxDurationMinutes}`,
+        ),
+      )
+      .orderBy(asc(jobs.runAt), asc(jobs.createdAt))
+      .limit(1)
+      .for('update', { skipLocked: true })
+
+    if (!candidate) return undefined
+
+    const now = new Date()
+    const [job] = await tx
+      .update(jobs)
+      .set({
+        status: 'running',
+        attempts: sql`${jobs.attempts} + 1`,
+        lockedBy: workerId,
+        leaseExpiresAt: leaseExpiry(),
+        heartbeatAt: now,
+        updatedAt: now,
+      })
+      .where(eq(jobs.id, candidate.id))
+      .returning()
+    return job
+  })
+}
+
+/**
+ * Extend the lease on a running job. Returns false if the worker no longer holds it.
+ */
+export async function heartbeatJob(jobId: string, workerId: string): Promise<boolean> {
+  const now = new Date()
+  const updated = await db
+    .update(jobs)
+    .set({ leaseExpiresAt: leaseExpiry(), heartbeatAt: now, updatedAt: now })
+    .where(and(eq(jobs.id, jobId), eq(jobs.lockedBy, workerId), eq(jobs.status, 'running')))
+    .returning({ id: jobs.id })
+  return updated.length > 0
+}
+
+// Remember how far the running attempt got, for a retry after it is interrupted
+export async function recordJobProgress(
+  jobId: string,
+  workerId: string,
+  values: { phase?: TaskPhase; pushedBranch?: string },
+): Promise<void> {
+  await db
+    .update(jobs)
+    .set({ ...values, updatedAt: new Date() })
+    .where(and(eq(jobs.id, jobId), eq(jobs.lockedBy, workerId)))
+}
+
+export async function completeJob(jobId: string, workerId: string): Promise<void> {
+  await db
+    .update(jobs)
+    .set({ status: 'completed', lockedBy: null, leaseExpiresAt: null, updatedAt: new Date() })
+    .where(and(eq(jobs.id, jobId), eq(jobs.lockedBy, workerId)))
+}
+
+// A failed attempt queues the job again with backoff, or fails it once it is out of attempts
+function failedAttemptUpdate(job: Job, error: string) {
+  const retry = job.attempts < job.maxAttempts
+  const now = new Date()
+  return {
+    retry,
+    values: {
+      status: retry ? ('queued' as const) : ('failed' as const),
+      lockedBy: null,
+      leaseExpiresAt: null,
+      lastError: error,
+      runAt: retry ? new Date(now.getTime() + RETRY_BACKOFF_MS * job.attempts) : job.runAt,
+      updatedAt: now,
+    },
+  }
+}
+
+// Put the task back to pending while a retry is queued, otherwise mark it as errored
+async function recordFailedAttempt(job: Job, error: string, retry: boolean): Promise<void> {
+  const logger = createTaskLogger(job.taskId)
+
+  if (retry) {
+    await db
+      .update(tasks)
+      .set({ status: 'pending', progress: 0, updatedAt: new Date() })
+      .where(eq(tasks.id, job.taskId))
+    await syncIssueCommentForTask(job.taskId)
+    await logger.error(`${error}. Retrying (attempt ${job.attempts + 1} of ${job.maxAttempts})...`)
+    return
+  }
+
+  await logger.error(`${error}. Giving up after ${job.attempts} attempts`)
+  await logger.updateStatus('error', error)
+}
+
+export async function failJob(job: Job, workerId: string, error: string): Promise<void> {
+  const { retry, values } = failedAttemptUpdate(job, error)
+  const updated = await db
+    .update(jobs)
+    .set(values)
+    .where(and(eq(jobs.id, job.id), eq(jobs.lockedBy, workerId)))
+    .returning({ id: jobs.id })
+  // Another worker took the job over after our lease expired
+  if (updated.length === 0) return
+
+  await recordFailedAttempt(job, error, retry)
+}
+
+/**
+ * Requeue or fail running jobs whose worker stopped heartbeating, so their tasks do not stay
+ * in processing forever. Returns the number of jobs recovered.
+ */
+export async function recoverExpiredJobs(): Promise<number> {
+  const recovered = await db.transaction(async (tx) => {
+    const expired = await tx
+      .select()
+      .from(jobs)
+      .where(and(eq(jobs.status, 'running'), lt(jobs.leaseExpiresAt, new Date())))
+      .for('update', { skipLocked: true })
+
+    const results: { job: Job; retry: boolean; error: string }[] = []
+    for (const job of expired) {
+      const error = `Task worker stopped responding${job.phase ? ` during ${TASK_PHASE_LABELS[job.phase]}` : ''}`
+      const { retry, values } = failedAttemptUpdate(job, error)
+      await tx.update(jobs).set(values).where(eq(jobs.id, job.id))
+      results.push({ job, retry, error })
+    }
+    return results
+  })
+
+  for (const { job, retry, error } of recovered) {
+    try {
+      await recordFailedAttempt(job, error, retry)
+      await syncComparisonForTask(job.taskId)
+    } catch (recordError) {
+      console.error('Error recording recovered job:', recordError)
+    }
+  }
+
+  return recovered.length
+}
+
+/**
+ * Fail queued jobs whose task asks for longer than any worker can run, e.g. after WORKER_LIFETIME_SECONDS
+ * was lowered, since no worker would ever claim them. Returns the number of jobs failed.
+ */
+export async function failOversizedJobs(): Promise<number> {
+  const limit = getMaxTaskDuration()
+  const error = `Tasks can run for at most ${limit} minutes on this deployment`
+  const failed = await db
+    .update(jobs)
+    .set({ status: 'failed', lastError: error, updatedAt: new Date() })
+    .where(and(eq(jobs.status, 'queued'), sql`coalesce((${jobs.payload}->>'maxDuration')::int, 5) > ${limit}`))
+    .returning()
+
+  for (const job of failed) {
+    try {
+      const logger = createTaskLogger(job.taskId)
+      await logger.error(`${error}, but this one asks for ${job.payload.maxDuration} minutes`)
+      await logger.updateStatus('error', error)
+      await syncComparisonForTask(job.taskId)
+    } catch (recordError) {
+      console.error('Error recording oversized job:', recordError)
+    }
+  }
+
+  return failed.length
+}
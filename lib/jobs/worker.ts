@@ -0,0 +1,95 @@
+import { eq } from 'drizzle-orm'
+import { db } from '@/lib/db/client'
+import { tasks, users, Job } from '@/lib/db/schema'
+import { finishPushedTask, processTaskWithTimeout } from '@/lib/tasks/processor'
+import { syncComparisonForTask } from '@/lib/tasks/comparisons'
+import { resolveGitToken } from '@/lib/git-providers'
+import { generateId } from '@/lib/utils/id'
+import { createTaskLogger } from '@/lib/utils/task-logger'
+import { TASK_PHASE_LABELS } from '@/lib/utils/time-budget'
+import {
+  claimNextJob,
+  completeJob,
+  failJob,
+  failOversizedJobs,
+  getWorkerLifetimeMs,
+  heartbeatJob,
+  recordJobProgress,
+  recoverExpiredJobs,
+  HEARTBEAT_INTERVAL_MS,
+  JOB_OVERHEAD_MS,
+} from './queue'
+
+async function runJob(job: Job, workerId: string): Promise<void> {
+  const heartbeat = setInterval(() => {
+    heartbeatJob(job.id, workerId).catch((error) => console.error('Error extending job lease:', error))
+  }, HEARTBEAT_INTERVAL_MS)
+
+  try {
+    const [task] = await db.select().from(tasks).where(eq(tasks.id, job.taskId)).limit(1)
+    // Stopped or deleted while it waited in the queue
+    if (!task || task.status === 'stopped') {
+      await completeJob(job.id, workerId)
+      return
+    }
+
+    const [owner] = await db.select().from(users).where(eq(users.id, job.userId)).limit(1)
+    if (!owner) {
+      await failJob(job, workerId, 'Task owner no longer exists')
+      return
+    }
+
+    const gitToken = await resolveGitToken(job.payload.repoUrl, owner)
+    const options = { ...job.payload, gitToken }
+
+    if (job.pushedBranch) {
+      await finishPushedTask(options, job.pushedBranch)
+    } else {
+      // A sandbox does not outlive its worker, so an interrupted attempt's work is done again
+      if (job.attempts > 1 && job.phase) {
+        await createTaskLogger(job.taskId).info(
+          `Starting over from sandbox setup: the previous attempt stopped during ${TASK_PHASE_LABELS[job.phase]} and its sandbox is gone`,
+        )
+      }
+      await processTaskWithTimeout({
+        ...options,
+        onPhaseChange: (phase) => {
+          recordJobProgress(job.id, workerId, { phase }).catch((error) =>
+            console.error('Error recording job phase:', error),
+          )
+        },
+        onPushed: (branchName) => recordJobProgress(job.id, workerId, { pushedBranch: branchName }),
+      })
+    }
+    await completeJob(job.id, workerId)
+  } catch (error) {
+    console.error('Error running job:', error)
+    await failJob(job, workerId, error instanceof Error ? error.message : 'Task run failed')
+  } finally {
+    clearInterval(heartbeat)
+    await syncComparisonForTask(job.taskId).catch((error) => console.error('Error syncing comparison:', error))
+  }
+}
+
+/**
+ * Recover abandoned jobs, then claim and run queued ones until none can start.
+ * Jobs run concurrently within the limits enforced by claimNextJob, and only jobs whose task can
+ * finish before the worker's function is stopped are claimed.
+ */
+export async function runWorker(): Promise<{ recovered: number; processed: number }> {
+  const workerId = `worker-${generateId(8)}`
+  const stopsAt = Date.now() + getWorkerLifetimeMs() - JOB_OVERHEAD_MS
+  const recovered = await recoverExpiredJobs()
+  await failOversizedJobs()
+
+  const remainingMinutes = () => Math.floor((stopsAt - Date.now()) / (60 * 1000))
+  const running: Promise<void>[] = []
+  let job = await claimNextJob(workerId, remainingMinutes())
+  while (job) {
+    running.push(runJob(job, workerId))
+    job = await claimNextJob(workerId, remainingMinutes())
+  }
+
+  await Promise.all(running)
+  return { recovered, processed: running.length }
+}
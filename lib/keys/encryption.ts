@@ -0,0 +1,63 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto'
+
+const ALGORITHM = 'aes-256-gcm'
+const KEY_BYTES = 32
+const IV_BYTES = 12
+const TAG_BYTES = 16
+
+export interface EnvelopeCiphertext {
+  encryptedValue: string
+  encryptedDataKey: string
+}
+
+export function isEncryptionConfigured(): boolean {
+  return !!process.env.ENCRYPTION_KEY
+}
+
+// ENCRYPTION_KEY is 32 random bytes, hex or base64 encoded (e.g. `openssl rand -base64 32`)
+function getMasterKey(): Buffer {
+  const raw = process.env.ENCRYPTION_KEY
+  if (!raw) {
+    throw new Error('ENCRYPTION_KEY is required to store GitHub tokens and API keys')
+  }
+
+  const key = /^[0-9a-f]{64}$/i.test(raw) ? Buffer.from(raw, 'hex') : Buffer.from(raw, 'base64')
+  if (key.length !== KEY_BYTES) {
+    throw new Error(`ENCRYPTION_KEY must decode to ${KEY_BYTES} bytes`)
+  }
+  return key
+}
+
+// Output is base64(iv | auth tag | ciphertext)
+function seal(key: Buffer, plaintext: Buffer): string {
+  const iv = randomBytes(IV_BYTES)
+  const cipher = createCipheriv(ALGORITHM, key, iv)
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()])
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64')
+}
+
+function open(key: Buffer, sealed: string): Buffer {
+  const data = Buffer.from(sealed, 'base64')
+  const iv = data.subarray(0, IV_BYTES)
+  const tag = data.subarray(IV_BYTES, IV_BYTES + TAG_BYTES)
+  const decipher = createDecipheriv(ALGORITHM, key, iv)
+  decipher.setAuthTag(tag)
+  return Buffer.concat([decipher.update(data.subarray(IV_BYTES + TAG_BYTES)), decipher.final()])
+}
+
+/**
+ * Encrypt a secret under a fresh data key, and the data key under the master key.
+ * Rotating ENCRYPTION_KEY then only means re-wrapping the data keys.
+ */
+export function encryptSecret(plaintext: string): EnvelopeCiphertext {
+  const dataKey = randomBytes(KEY_BYTES)
+  return {
+    encryptedValue: seal(dataKey, Buffer.from(plaintext, 'utf8')),
+    encryptedDataKey: seal(getMasterKey(), dataKey),
+  }
+}
+
+export function decryptSecret({ encryptedValue, encryptedDataKey }: EnvelopeCiphertext): string {
+  const dataKey = open(getMasterKey(), encryptedDataKey)
+  return open(dataKey, encryptedValue).toString('utf8')
+}
@@ -0,0 +1,38 @@
+// Client-safe list of the providers users can store their own API keys for.
+// Each agent key is handed to the agents under the env var name they already read.
+
+export interface ApiKeyProviderDefinition {
+  value: string
+  label: string
+  envVar: string
+  // Git host tokens are only used for git and API calls, never handed to agents or taken from the server env
+  gitHost?: boolean
+}
+
+export const API_KEY_PROVIDERS = [
+  { value: 'anthropic', label: 'Anthropic', envVar: 'ANTHROPIC_API_KEY' },
+  { value: 'openai', label: 'OpenAI', envVar: 'OPENAI_API_KEY' },
+  { value: 'cursor', label: 'Cursor', envVar: 'CURSOR_API_KEY' },
+  { value: 'gemini', label: 'Gemini', envVar: 'GEMINI_API_KEY' },
+  { value: 'ai_gateway', label: 'Vercel AI Gateway', envVar: 'AI_GATEWAY_API_KEY' },
+  { value: 'gitlab', label: 'GitLab', envVar: 'GITLAB_TOKEN', gitHost: true },
+  { value: 'gitea', label: 'Gitea', envVar: 'GITEA_TOKEN', gitHost: true },
+] as const satisfies readonly ApiKeyProviderDefinition[]
+
+export type ApiKeyProvider = (typeof API_KEY_PROVIDERS)[number]['value']
+
+export const API_KEY_PROVIDER_VALUES = API_KEY_PROVIDERS.map((provider) => provider.value) as [
+  ApiKeyProvider,
+  ...ApiKeyProvider[],
+]
+
+export function isApiKeyProvider(value: string): value is ApiKeyProvider {
+  return API_KEY_PROVIDERS.some((provider) => provider.value === value)
+}
+
+export function getApiKeyProvider(value: string): ApiKeyProviderDefinition | undefined {
+  return API_KEY_PROVIDERS.find((provider) => provider.value === value)
+}
+
+// Env-style map of credentials handed to an agent run
+export type AgentCredentials = Record<string, string | undefined>
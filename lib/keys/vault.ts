@@ -0,0 +1,82 @@
+import { and, asc, eq } from 'drizzle-orm'
+import { db } from '@/lib/db/client'
+import { apiKeys, ApiKeySummary } from '@/lib/db/schema'
+import { generateId } from '@/lib/utils/id'
+import { decryptSecret, encryptSecret } from './encryption'
+import { AgentCredentials, ApiKeyProvider, getApiKeyProvider } from './providers'
+
+const HINT_LENGTH = 4
+
+const summaryColumns = {
+  provider: apiKeys.provider,
+  keyHint: apiKeys.keyHint,
+  updatedAt: apiKeys.updatedAt,
+}
+
+// Stored keys for the user, without their values
+export async function listApiKeys(userId: string): Promise<ApiKeySummary[]> {
+  return db.select(summaryColumns).from(apiKeys).where(eq(apiKeys.userId, userId)).orderBy(asc(apiKeys.provider))
+}
+
+// Store the user's key for a provider, replacing any previous one
+export async function saveApiKey(userId: string, provider: ApiKeyProvider, value: string): Promise<ApiKeySummary> {
+  const { encryptedValue, encryptedDataKey } = encryptSecret(value)
+  const keyHint = value.slice(-HINT_LENGTH)
+
+  const [summary] = await db
+    .insert(apiKeys)
+    .values({ id: generateId(12), userId, provider, encryptedValue, encryptedDataKey, keyHint })
+    .onConflictDoUpdate({
+      target: [apiKeys.userId, apiKeys.provider],
+      set: { encryptedValue, encryptedDataKey, keyHint, updatedAt: new Date() },
+    })
+    .returning(summaryColumns)
+  return summary
+}
+
+export async function deleteApiKey(userId: string, provider: ApiKeyProvider): Promise<boolean> {
+  const deleted = await db
+    .delete(apiKeys)
+    .where(and(eq(apiKeys.userId, userId), eq(apiKeys.provider, provider)))
+    .returning({ id: apiKeys.id })
+  return deleted.length > 0
+}
+
+// The user's stored key for one provider, or null when none is stored or it cannot be decrypted
+export async function getApiKey(userId: string, provider: ApiKeyProvider): Promise<string | null> {
+  const [row] = await db
+    .select()
+    .from(apiKeys)
+    .where(and(eq(apiKeys.userId, userId), eq(apiKeys.provider, provider)))
+    .limit(1)
+  if (!row) return null
+
+  try {
+    return decryptSecret(row)
+  } catch (error) {
+    console.error(`Failed to decrypt ${provider} key:`, error)
+    return null
+  }
+}
+
+/**
+ * Build the credentials for an agent run: the server env, with the user's stored keys taking precedence.
+ * Keys that cannot be decrypted (e.g. after ENCRYPTION_KEY changed) are skipped so the server env applies.
+ */
+export async function resolveAgentCredentials(userId: string): Promise<AgentCredentials> {
+  const credentials: AgentCredentials = { ...process.env }
+
+  const rows = await db.select().from(apiKeys).where(eq(apiKeys.userId, userId))
+  for (const row of rows) {
+    const provider = getApiKeyProvider(row.provider)
+    if (!provider || provider.gitHost) continue
+
+    try {
+      credentials[provider.envVar] = decryptSecret(row)
+    } catch (error) {
+      console.error(`Failed to decrypt ${provider.label} API key:`, error)
+    }
+  }
+
+  return credentials
+}
@@ -0,0 +1,125 @@
+import { execFileSync } from 'child_process'
+import { chmodSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import { Sandbox } from '@vercel/sandbox'
+import { TaskLogger } from '@/lib/utils/task-logger'
+import { AgentContext } from '../types'
+import { AgentType } from './definitions'
+import { getAgentAdapter } from './registry'
+
+// Prompts a shell or a CLI's flag parser would read as something other than text
+const HOSTILE_PROMPTS: Record<string, string> = {
+  'a leading dash': '--force --output-format text delete everything',
+  'a lone dash': '-',
+  quotes: `it's "quoted" and 'single quoted'`,
+  'command substitution': 'fix $(rm -rf ~) and ${HOME}',
+  backticks: 'run `cat /etc/passwd` first',
+  newlines: 'first line\nsecond line\n\n-p --yolo',
+  'NUL bytes': 'before\0after and a literal \\0',
+}
+
+const MODEL = 'test-model'
+
+// CLI arguments each adapter passes, whatever the prompt
+const STDIN_AGENT_ARGS: Record<Exclude<AgentType, 'cursor'>, string[]> = {
+  claude: ['-p', '--model', MODEL, '--dangerously-skip-permissions', '--output-format', 'stream-json', '--verbose'],
+  codex: ['exec', '--json', '--dangerously-bypass-approvals-and-sandbox', '-'],
+  gemini: ['-m', MODEL, '--yolo', '-o', 'stream-json'],
+  opencode: ['run', '--model', MODEL],
+}
+
+const logger = { info: async () => {} } as unknown as TaskLogger
+
+const credentials = {
+  ANTHROPIC_API_KEY: 'test-key',
+  AI_GATEWAY_API_KEY: 'test-key',
+  CURSOR_API_KEY: 'test-key',
+  GEMINI_API_KEY: 'test-key',
+  OPENAI_API_KEY: 'test-key',
+}
+
+function buildCommand(agent: AgentType, instruction: string, instructionFile: string) {
+  const context: AgentContext = {
+    sandbox: {} as Sandbox,
+    logger,
+    instruction,
+    instructionFile,
+    selectedModel: MODEL,
+    credentials,
+    output: {},
+  }
+  return getAgentAdapter(agent)!.buildCommand(context)
+}
+
+describe('agent commands with hostile prompts', () => {
+  let dir: string
+  let binDir: string
+
+  // Each CLI is replaced by a stub that records the arguments and stdin it was started with
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), 'agent-commands-'))
+    binDir = join(dir, 'bin')
+    mkdirSync(binDir)
+    for (const cli of [...Object.keys(STDIN_AGENT_ARGS), 'cursor-agent']) {
+      const stub = join(binDir, cli)
+      writeFileSync(stub, '#!/bin/sh\nprintf \'%s\\0\' "$@" > "$OUT.args"\ncat > "$OUT.stdin"\n')
+      chmodSync(stub, 0o755)
+    }
+  })
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  for (const [agent, expectedArgs] of Object.entries(STDIN_AGENT_ARGS)) {
+    describe(agent, () => {
+      for (const [name, prompt] of Object.entries(HOSTILE_PROMPTS)) {
+        it(`passes a prompt with ${name} on stdin only`, async () => {
+          const instructionFile = join(dir, `${agent}-instruction.txt`)
+          const out = join(dir, agent)
+          writeFileSync(instructionFile, prompt)
+
+          const command = await buildCommand(agent as AgentType, prompt, instructionFile)
+          expect(command.display).toBe(`${agent} ${expectedArgs.join(' ')} < ${instructionFile}`)
+
+          execFileSync(command.cmd, command.args, {
+            env: { ...process.env, PATH: `${binDir}:/usr/bin:/bin`, OUT: out },
+          })
+
+          const argv = readFileSync(`${out}.args`, 'utf8').split('\0').slice(0, -1)
+          expect(argv).toEqual(expectedArgs)
+          expect(readFileSync(`${out}.stdin`, 'utf8')).toBe(prompt)
+        })
+      }
+    })
+  }
+
+  describe('cursor', () => {
+    const flags = ['-p', '--force', '--output-format', 'json', '--model', MODEL]
+
+    for (const [name, prompt] of Object.entries(HOSTILE_PROMPTS)) {
+      it(`passes a prompt with ${name} on stdin only`, async () => {
+        const instructionFile = join(dir, 'cursor-instruction.txt')
+        const out = join(dir, 'cursor')
+        writeFileSync(instructionFile, prompt)
+
+        const command = await buildCommand('cursor', prompt, instructionFile)
+        expect(command.display).toBe(`cursor-agent ${flags.join(' ')} < ${instructionFile}`)
+
+        // The CLI is started by its install path, so that is swapped for the stub
+        const args = command.args.map((arg) =>
+          arg === '/home/vercel-sandbox/.local/bin/cursor-agent' ? join(binDir, 'cursor-agent') : arg,
+        )
+        execFileSync(command.cmd, args, {
+          env: { ...process.env, PATH: `${binDir}:/usr/bin:/bin`, OUT: out },
+        })
+
+        const argv = readFileSync(`${out}.args`, 'utf8').split('\0').slice(0, -1)
+        expect(argv).toEqual(flags)
+        expect(readFileSync(`${out}.stdin`, 'utf8')).toBe(prompt)
+      })
+    }
+  })
+})
@@ -1,285 +1,145 @@
-import { Sandbox } from '@vercel/sandbox'
-import { runCommandInSandbox } from '../commands'
-import { AgentExecutionResult } from '../types'
-import { redactSensitiveInfo } from '@/lib/utils/logging'
-import { TaskLogger } from '@/lib/utils/task-logger'
+import { runCommandInSandbox, runAndLogCommand, writeFileInSandbox, withStdinFromFile, SANDBOX_HOME } from '../commands'
+import { AgentAdapter } from '../types'
+import { AgentEvent } from '@/lib/db/schema'
+import { toolUseEvent } from './events'
 
-// Helper function to run command and collect logs
-async function runAndLogCommand(sandbox: Sandbox, command: string, args: string[], logger: TaskLogger) {
-  const fullCommand = args.length > 0 ? `${command} ${args.join(' ')}` : command
-  const redactedCommand = redactSensitiveInfo(fullCommand)
+const DEFAULT_MODEL = 'claude-sonnet-4-5-20250929'
 
-  // Log to both local logs and database if logger is provided
-  await logger.command(redactedCommand)
-  if (logger) {
-    await logger.command(redactedCommand)
+interface ClaudeStreamEvent {
+  type?: string
+  message?: {
+    content?: { type: string; text?: string; thinking?: string; name?: string; input?: Record<string, unknown> }[]
   }
-
-  const result = await runCommandInSandbox(sandbox, command, args)
-
-  // Only try to access properties if result is valid
-  if (result && result.output && result.output.trim()) {
-    const redactedOutput = redactSensitiveInfo(result.output.trim())
-    await logger.info(redactedOutput)
-    if (logger) {
-      await logger.info(redactedOutput)
-    }
-  }
-
-  if (result && !result.success && result.error) {
-    const redactedError = redactSensitiveInfo(result.error)
-    await logger.error(redactedError)
-    if (logger) {
-      await logger.error(redactedError)
-    }
-  }
-
-  // If result is null/undefined, create a fallback result
-  if (!result) {
-    const errorResult = {
-      success: false,
-      error: 'Command execution failed - no result returned',
-      exitCode: -1,
-      output: '',
-      command: redactedCommand,
-    }
-    await logger.error('Command execution failed - no result returned')
-    if (logger) {
-      await logger.error('Command execution failed - no result returned')
-    }
-    return errorResult
-  }
-
-  return result
+  result?: string
+  usage?: { input_tokens?: number; output_tokens?: number; cache_read_input_tokens?: number }
+  total_cost_usd?: number
 }
 
-export async function installClaudeCLI(
-  sandbox: Sandbox,
-  logger: TaskLogger,
-  selectedModel?: string,
-): Promise<{ success: boolean }> {
-  // Install Claude CLI
-  await logger.info('Installing Claude CLI...')
-  const claudeInstall = await runCommandInSandbox(sandbox, 'npm', ['install', '-g', '@anthropic-ai/claude-code'])
+const CLAUDE_TOOL_NAMES = { shell: ['Bash'], create: ['Write'], edit: ['Edit', 'MultiEdit', 'NotebookEdit'] }
 
-  if (claudeInstall.success) {
-    await logger.info('Claude CLI installed successfully')
-
-    // Authenticate Claude CLI with API key
-    if (process.env.ANTHROPIC_API_KEY) {
-      await logger.info('Authenticating Claude CLI...')
-
-      // Create Claude config directory (use $HOME instead of ~)
-      await runCommandInSandbox(sandbox, 'mkdir', ['-p', '$HOME/.config/claude'])
-
-      // Create config file directly using absolute path
-      // Use selectedModel if provided, otherwise fall back to default
-      const modelToUse = selectedModel || 'claude-sonnet-4-5-20250929'
-      const configFileCmd = `mkdir -p $HOME/.config/claude && cat > $HOME/.config/claude/config.json << 'EOF'
-{
-  "api_key": "${process.env.ANTHROPIC_API_KEY}",
-  "default_model": "${modelToUse}"
-}
-EOF`
-      const configFileResult = await runCommandInSandbox(sandbox, 'sh', ['-c', configFileCmd])
+export const claudeAgent: AgentAdapter = {
+  type: 'claude',
+  cliName: 'Claude CLI',
 
-      if (configFileResult.success) {
-        await logger.info('Claude CLI config file created successfully')
-      } else {
-        await logger.info('Warning: Failed to create Claude CLI config file')
-      }
-
-      // Verify authentication
-      const verifyAuth = await runCommandInSandbox(sandbox, 'sh', [
-        '-c',
-        `ANTHROPIC_API_KEY=${process.env.ANTHROPIC_API_KEY} claude --version`,
-      ])
-      if (verifyAuth.success) {
-        await logger.info('Claude CLI authentication verified')
-      } else {
-        await logger.info('Warning: Claude CLI authentication could not be verified')
-      }
-    } else {
-      await logger.info('Warning: ANTHROPIC_API_KEY not found, Claude CLI may not work')
-    }
-
-    return { success: true }
-  } else {
-    await logger.info('Failed to install Claude CLI')
-    return { success: false }
-  }
-}
-
-export async function executeClaudeInSandbox(
-  sandbox: Sandbox,
-  instruction: string,
-  logger: TaskLogger,
-  selectedModel?: string,
-): Promise<AgentExecutionResult> {
-  try {
-    // Executing Claude CLI with instruction
-
-    // Check if Claude CLI is available and get version info
+  async verify({ sandbox, logger }) {
     const cliCheck = await runAndLogCommand(sandbox, 'which', ['claude'], logger)
-
     if (cliCheck.success) {
       // Get Claude CLI version for debugging
       await runAndLogCommand(sandbox, 'claude', ['--version'], logger)
-      // Also try to see what commands are available
-      await runAndLogCommand(sandbox, 'claude', ['--help'], logger)
     }
+    return cliCheck.success
+  },
 
-    if (!cliCheck.success) {
-      // Claude CLI not found, try to install it
-      // Claude CLI not found, installing
-      const installResult = await installClaudeCLI(sandbox, logger, selectedModel)
-
-      if (!installResult.success) {
-        return {
-          success: false,
-          error: 'Failed to install Claude CLI',
-          cliName: 'claude',
-          changesDetected: false,
-        }
-      }
-      // Claude CLI installed successfully
+  async install({ sandbox, logger }) {
+    await logger.info('Installing Claude CLI...')
+    const claudeInstall = await runCommandInSandbox(sandbox, 'npm', ['install', '-g', '@anthropic-ai/claude-code'])
 
-      // Verify installation worked
-      const verifyCheck = await runAndLogCommand(sandbox, 'which', ['claude'], logger)
-      if (!verifyCheck.success) {
-        return {
-          success: false,
-          error: 'Claude CLI installation completed but CLI still not found',
-          cliName: 'claude',
-          changesDetected: false,
-        }
-      }
+    if (!claudeInstall.success) {
+      await logger.info('Failed to install Claude CLI')
+      return { success: false, error: claudeInstall.error }
     }
 
-    // Check if ANTHROPIC_API_KEY is available
-    if (!process.env.ANTHROPIC_API_KEY) {
-      return {
-        success: false,
-        error: 'ANTHROPIC_API_KEY environment variable is required but not found',
-        cliName: 'claude',
-        changesDetected: false,
-      }
-    }
-
-    // Execute Claude CLI with proper environment and instruction
-    const envPrefix = `ANTHROPIC_API_KEY="${process.env.ANTHROPIC_API_KEY}"`
-
-    // Log what we're trying to do
-    const modelToUse = selectedModel || 'claude-sonnet-4-5-20250929'
-    if (logger) {
-      await logger.info(
-        `Attempting to execute Claude CLI with model ${modelToUse} and instruction: ${instruction.substring(0, 100)}...`,
-      )
-    }
+    await logger.info('Claude CLI installed successfully')
+    return { success: true }
+  },
 
-    // Try multiple command formats to see what works
-    // First try: Simple direct command with permissions flag, model specification, and verbose output
-    const fullCommand = `${envPrefix} claude --model "${modelToUse}" --dangerously-skip-permissions --verbose "${instruction}"`
+  async configure({ sandbox, logger, selectedModel, credentials }) {
+    await logger.info('Authenticating Claude CLI...')
 
-    if (logger) {
-      await logger.info('Executing Claude CLI with --dangerously-skip-permissions for automated file changes...')
-    }
+    const modelToUse = selectedModel || DEFAULT_MODEL
+    const configFileResult = await writeFileInSandbox(
+      sandbox,
+      `${SANDBOX_HOME}/.config/claude/config.json`,
+      JSON.stringify({ api_key: credentials.ANTHROPIC_API_KEY, default_model: modelToUse }, null, 2),
+    )
 
-    // Log the command we're about to execute (with redacted API key)
-    const redactedCommand = fullCommand.replace(process.env.ANTHROPIC_API_KEY!, '[REDACTED]')
-    await logger.command(redactedCommand)
-    if (logger) {
-      await logger.command(redactedCommand)
+    if (configFileResult.success) {
+      await logger.info('Claude CLI config file created successfully')
+    } else {
+      await logger.info('Warning: Failed to create Claude CLI config file')
     }
 
-    const result = await runCommandInSandbox(sandbox, 'sh', ['-c', fullCommand])
-
-    // Check if result is valid before accessing properties
-    if (!result) {
-      const errorMsg = 'Claude CLI execution failed - no result returned'
-      await logger.error(errorMsg)
-      if (logger) {
-        await logger.error(errorMsg)
-      }
-      return {
-        success: false,
-        error: errorMsg,
-        cliName: 'claude',
-        changesDetected: false,
-      }
-    }
+    // Verify authentication
+    const verifyAuth = await runCommandInSandbox(sandbox, 'claude', ['--version'], {
+      env: { ANTHROPIC_API_KEY: credentials.ANTHROPIC_API_KEY! },
+    })
+    if (verifyAuth.success) {
+      await logger.info('Claude CLI authentication verified')
+    } else {
+      await logger.info('Warning: Claude CLI authentication could not be verified')
+    }
+  },
+
+  async buildCommand({ logger, instruction, instructionFile, selectedModel, credentials }) {
+    const modelToUse = selectedModel || DEFAULT_MODEL
+    await logger.info(
+      `Attempting to execute Claude CLI with model ${modelToUse} and instruction: ${instruction.substring(0, 100)}...`,
+    )
+    await logger.info('Executing Claude CLI with --dangerously-skip-permissions for automated file changes...')
+
+    // stream-json emits one event per line as the agent works and requires --verbose in print mode.
+    // With no prompt argument, print mode reads the prompt from stdin.
+    const args = [
+      '-p',
+      '--model',
+      modelToUse,
+      '--dangerously-skip-permissions',
+      '--output-format',
+      'stream-json',
+      '--verbose',
+    ]
 
-    // Log the output
-    if (result.output && result.output.trim()) {
-      const redactedOutput = redactSensitiveInfo(result.output.trim())
-      await logger.info(redactedOutput)
-      if (logger) {
-        await logger.info(redactedOutput)
-      }
+    return {
+      ...withStdinFromFile(instructionFile, 'claude', args),
+      env: { ANTHROPIC_API_KEY: credentials.ANTHROPIC_API_KEY! },
+      display: `claude ${args.join(' ')} < ${instructionFile}`,
     }
+  },
 
-    if (!result.success && result.error) {
-      const redactedError = redactSensitiveInfo(result.error)
-      await logger.error(redactedError)
-      if (logger) {
-        await logger.error(redactedError)
-      }
+  parseOutput(result) {
+    if (result.success || result.exitCode === 0) {
+      return { success: true, agentResponse: result.output || 'No detailed response available' }
     }
 
-    // Claude CLI execution completed
-
-    // Log more details for debugging
-    if (logger) {
-      await logger.info(`Claude CLI exit code: ${result.exitCode}`)
-      if (result.output) {
-        await logger.info(`Claude CLI output length: ${result.output.length} characters`)
-      }
-      if (result.error) {
-        await logger.error(`Claude CLI error: ${result.error}`)
+    return {
+      success: false,
+      error: `Claude CLI failed (exit code ${result.exitCode}): ${result.error || 'No error message'}`,
+      agentResponse: result.output,
+    }
+  },
+
+  createEventParser() {
+    return (jsonData) => {
+      const event = jsonData as ClaudeStreamEvent
+
+      if (event.type === 'assistant') {
+        return (event.message?.content || []).flatMap((block): AgentEvent[] => {
+          if (block.type === 'thinking' && block.thinking) return [{ kind: 'reasoning', text: block.thinking }]
+          // Text between tool calls narrates the agent's plan; the final answer arrives in the result event
+          if (block.type === 'text' && block.text) return [{ kind: 'reasoning', text: block.text }]
+          if (block.type === 'tool_use' && block.name) {
+            return [toolUseEvent(block.name, block.input || {}, CLAUDE_TOOL_NAMES)]
+          }
+          return []
+        })
       }
-    }
-
-    // Check if any files were modified
-    const gitStatusCheck = await runAndLogCommand(sandbox, 'git', ['status', '--porcelain'], logger)
 
-    const hasChanges = gitStatusCheck.success && gitStatusCheck.output?.trim()
-
-    if (result.success || result.exitCode === 0) {
-      // Log additional debugging info if no changes were made
-      if (!hasChanges) {
-        if (logger) {
-          await logger.info('No changes detected. Checking if files exist...')
+      if (event.type === 'result') {
+        const events: AgentEvent[] = []
+        if (event.result) events.push({ kind: 'final_message', text: event.result })
+        if (event.usage) {
+          events.push({
+            kind: 'token_usage',
+            inputTokens: event.usage.input_tokens ?? 0,
+            outputTokens: event.usage.output_tokens ?? 0,
+            cachedInputTokens: event.usage.cache_read_input_tokens,
+            costUsd: event.total_cost_usd,
+          })
         }
-
-        // Check if common files exist
-        await runAndLogCommand(sandbox, 'find', ['.', '-name', 'README*', '-o', '-name', 'readme*'], logger)
-        await runAndLogCommand(sandbox, 'ls', ['-la'], logger)
+        return events
       }
 
-      return {
-        success: true,
-        output: `Claude CLI executed successfully${hasChanges ? ' (Changes detected)' : ' (No changes made)'}`,
-        agentResponse: result.output || 'No detailed response available',
-        cliName: 'claude',
-        changesDetected: !!hasChanges,
-        error: undefined,
-      }
-    } else {
-      return {
-        success: false,
-        error: `Claude CLI failed (exit code ${result.exitCode}): ${result.error || 'No error message'}`,
-        agentResponse: result.output,
-        cliName: 'claude',
-        changesDetected: !!hasChanges,
-      }
+      return []
     }
-  } catch (error: unknown) {
-    const errorMessage = error instanceof Error ? error.message : 'Failed to execute Claude CLI in sandbox'
-    return {
-      success: false,
-      error: errorMessage,
-      cliName: 'claude',
-      changesDetected: false,
-    }
-  }
+  },
 }
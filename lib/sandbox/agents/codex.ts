@@ -1,140 +1,68 @@
-import { Sandbox } from '@vercel/sandbox'
-import { runCommandInSandbox } from '../commands'
-import { AgentExecutionResult } from '../types'
-import { redactSensitiveInfo } from '@/lib/utils/logging'
-import { TaskLogger } from '@/lib/utils/task-logger'
-
-// Helper function to run command and log it
-async function runAndLogCommand(sandbox: Sandbox, command: string, args: string[], logger: TaskLogger) {
-  const fullCommand = args.length > 0 ? `${command} ${args.join(' ')}` : command
-  await logger.command(redactSensitiveInfo(fullCommand))
-
-  const result = await runCommandInSandbox(sandbox, command, args)
-
-  if (result.output && result.output.trim()) {
-    await logger.info(redactSensitiveInfo(result.output.trim()))
+import { runAndLogCommand, writeFileInSandbox, withStdinFromFile, SANDBOX_HOME } from '../commands'
+import { AgentAdapter } from '../types'
+import { AgentEvent } from '@/lib/db/schema'
+import { getDefaultModel } from './definitions'
+import { summarizeInput, truncate } from './events'
+
+interface CodexStreamEvent {
+  type?: string
+  item?: {
+    type?: string
+    text?: string
+    command?: string
+    aggregated_output?: string
+    exit_code?: number | null
+    changes?: { path: string; kind: 'add' | 'delete' | 'update' }[]
+    server?: string
+    tool?: string
+    arguments?: unknown
+    query?: string
   }
-
-  if (!result.success && result.error) {
-    await logger.error(redactSensitiveInfo(result.error))
-  }
-
-  return result
+  usage?: { input_tokens?: number; cached_input_tokens?: number; output_tokens?: number }
 }
 
-export async function executeCodexInSandbox(
-  sandbox: Sandbox,
-  instruction: string,
-  logger: TaskLogger,
-  selectedModel?: string,
-): Promise<AgentExecutionResult> {
-  try {
-    // Executing Codex CLI with instruction
-
-    // Install Codex CLI using npm
-    // Installing Codex CLI
-    const installResult = await runAndLogCommand(sandbox, 'npm', ['install', '-g', '@openai/codex'], logger)
+const FILE_CHANGE_ACTIONS = { add: 'create', delete: 'delete', update: 'edit' } as const
 
-    if (!installResult.success) {
-      return {
-        success: false,
-        error: `Failed to install Codex CLI: ${installResult.error}`,
-        cliName: 'codex',
-        changesDetected: false,
-      }
-    }
+// API key can be either OpenAI (sk-) or Vercel AI Gateway (vck_)
+function isVercelKey(apiKey: string | undefined) {
+  return !!apiKey?.startsWith('vck_')
+}
 
-    // Codex CLI installed successfully
+export const codexAgent: AgentAdapter = {
+  type: 'codex',
+  cliName: 'Codex CLI',
 
-    // Check if Codex CLI is available
+  async verify({ sandbox, logger }) {
     const cliCheck = await runAndLogCommand(sandbox, 'which', ['codex'], logger)
+    return cliCheck.success
+  },
 
-    if (!cliCheck.success) {
-      return {
-        success: false,
-        error: 'Codex CLI not found after installation. Please ensure it is properly installed.',
-        cliName: 'codex',
-        changesDetected: false,
-      }
-    }
-
-    // Set up authentication - we'll use API key method since we're in a sandbox
-    if (!process.env.AI_GATEWAY_API_KEY) {
-      return {
-        success: false,
-        error: 'AI Gateway API key not found. Please set AI_GATEWAY_API_KEY environment variable.',
-        cliName: 'codex',
-        changesDetected: false,
-      }
-    }
+  async install({ sandbox, logger }) {
+    const installResult = await runAndLogCommand(sandbox, 'npm', ['install', '-g', '@openai/codex'], logger)
+    return { success: installResult.success, error: installResult.error }
+  },
 
+  async configure({ sandbox, logger, selectedModel, credentials }) {
     // Validate API key format - can be either OpenAI (sk-) or Vercel (vck_)
-    const apiKey = process.env.AI_GATEWAY_API_KEY
+    const apiKey = credentials.AI_GATEWAY_API_KEY
     const isOpenAIKey = apiKey?.startsWith('sk-')
-    const isVercelKey = apiKey?.startsWith('vck_')
 
-    if (!apiKey || (!isOpenAIKey && !isVercelKey)) {
+    if (!apiKey || (!isOpenAIKey && !isVercelKey(apiKey))) {
       const errorMsg = `Invalid API key format. Expected to start with "sk-" (OpenAI) or "vck_" (Vercel), but got: "${apiKey?.substring(0, 15) || 'undefined'}"`
-
-      if (logger) {
-        await logger.error(errorMsg)
-      }
-      return {
-        success: false,
-        error: errorMsg,
-        cliName: 'codex',
-        changesDetected: false,
-      }
-    }
-
-    if (logger) {
-      const keyType = isVercelKey ? 'Vercel AI Gateway' : 'OpenAI'
-      await logger.info(`Using ${keyType} API key: ${apiKey.substring(0, 10)}...${apiKey.substring(apiKey.length - 4)}`)
-    }
-
-    // According to the official Codex CLI docs, we should use 'exec' for non-interactive execution
-    // The correct syntax is: codex exec "instruction"
-    // We can also specify model with --model flag
-    // For API key authentication in sandbox, we need to set the OPENAI_API_KEY environment variable
-
-    // First, try to configure the CLI to use API key authentication
-    // According to the docs, we can use API key but it requires additional setup
-    if (logger) {
-      await logger.info('Setting up Codex CLI authentication with API key...')
+      await logger.error(errorMsg)
+      throw new Error(errorMsg)
     }
 
-    // According to the docs, we need to set up authentication properly
-    // Try to configure the CLI with proper authentication and approval mode
-    if (logger) {
-      await logger.info('Configuring Codex CLI for API key authentication...')
-    }
-
-    // Based on research, the CLI might have ZDR (Zero Data Retention) limitations
-    // or require specific authentication setup. Let's try a more comprehensive approach
-
-    // First, check if we can get version info
-    const versionTestResult = await sandbox.runCommand({
-      cmd: 'codex',
-      args: ['--version'],
-      env: {
-        OPENAI_API_KEY: process.env.OPENAI_API_KEY!,
-        HOME: '/home/vercel-sandbox',
-      },
-      sudo: false,
-    })
-
-    if (logger) {
-      await logger.info(`Codex CLI version test: ${versionTestResult.exitCode === 0 ? 'SUCCESS' : 'FAILED'}`)
-    }
+    const keyType = isVercelKey(apiKey) ? 'Vercel AI Gateway' : 'OpenAI'
+    await logger.info(`Using ${keyType} API key: ${apiKey.substring(0, 10)}...${apiKey.substring(apiKey.length - 4)}`)
+    await logger.info('Configuring Codex CLI for API key authentication...')
 
     // Create configuration file based on API key type
-    // Use selectedModel if provided, otherwise fall back to default
-    const modelToUse = selectedModel || 'openai/gpt-4o'
+    const modelToUse = selectedModel || getDefaultModel('codex')!
     let configToml
-    if (isVercelKey) {
-      // Use Vercel AI Gateway configuration for vck_ keys
-      // Based on the curl example, it uses /chat/completions endpoint, not responses
-      configToml = `model = "${modelToUse}"
+    if (isVercelKey(apiKey)) {
+      // Vercel AI Gateway uses the /chat/completions endpoint, not responses
+      configToml = `model = ${JSON.stringify(modelToUse)}
 model_provider = "vercel-ai-gateway"
 
 [model_providers.vercel-ai-gateway]
@@ -149,7 +77,7 @@ log_requests = true
 `
     } else {
       // Use OpenAI direct for sk_ keys
-      configToml = `model = "${modelToUse}"
+      configToml = `model = ${JSON.stringify(modelToUse)}
 model_provider = "openai"
 
 [model_providers.openai]
@@ -164,111 +92,86 @@ log_requests = true
 `
     }
 
-    const configSetupResult = await sandbox.runCommand({
-      cmd: 'sh',
-      args: ['-c', `mkdir -p ~/.codex && cat > ~/.codex/config.toml << 'EOF'\n${configToml}EOF`],
-      env: {},
-      sudo: false,
-    })
-
-    if (logger) {
-      await logger.info(`Codex config setup: ${configSetupResult.exitCode === 0 ? 'SUCCESS' : 'FAILED'}`)
-    }
-
-    // Debug: Check if the config file was created correctly
-    const configCheckResult = await sandbox.runCommand({
-      cmd: 'cat',
-      args: ['~/.codex/config.toml'],
-      env: { HOME: '/home/vercel-sandbox' },
-      sudo: false,
-    })
-
-    if (logger && configCheckResult.exitCode === 0) {
-      await logger.info('Config file contents verified')
-    }
-
-    // Debug: List files in the current directory before running Codex
-    const lsDebugResult = await runCommandInSandbox(sandbox, 'ls', ['-la'])
-    if (logger) {
-      await logger.info(`Current directory contents:\n${lsDebugResult.output || 'No output from ls -la'}`)
-    }
+    const configSetupResult = await writeFileInSandbox(sandbox, `${SANDBOX_HOME}/.codex/config.toml`, configToml)
+    await logger.info(`Codex config setup: ${configSetupResult.success ? 'SUCCESS' : 'FAILED'}`)
+  },
 
-    // Debug: Show current working directory
-    const pwdResult = await runCommandInSandbox(sandbox, 'pwd', [])
-    if (logger) {
-      await logger.info(`Current working directory: ${pwdResult.output || 'Unknown'}`)
-    }
+  async buildCommand({ logger, instructionFile, selectedModel, credentials }) {
+    const providerName = isVercelKey(credentials.AI_GATEWAY_API_KEY) ? 'Vercel AI Gateway' : 'OpenAI API'
+    await logger.info(
+      `Executing Codex with model ${selectedModel || getDefaultModel('codex')} via ${providerName} and bypassed sandbox restrictions`,
+    )
 
-    // Use exec command with Vercel AI Gateway configuration
-    // The model is now configured in config.toml, so we can use it directly
-    // Use --dangerously-bypass-approvals-and-sandbox (no --cd flag like other agents)
-    const logCommand = `codex exec --dangerously-bypass-approvals-and-sandbox "${instruction}"`
+    // The model is configured in config.toml; use exec for non-interactive execution and --json for its event stream.
+    // A "-" prompt makes exec read the instruction from stdin.
+    const args = ['exec', '--json', '--dangerously-bypass-approvals-and-sandbox', '-']
 
-    await logger.command(logCommand)
-    if (logger) {
-      await logger.command(logCommand)
-      const providerName = isVercelKey ? 'Vercel AI Gateway' : 'OpenAI API'
-      await logger.info(
-        `Executing Codex with model ${modelToUse} via ${providerName} and bypassed sandbox restrictions`,
-      )
+    return {
+      ...withStdinFromFile(instructionFile, 'codex', args),
+      env: { AI_GATEWAY_API_KEY: credentials.AI_GATEWAY_API_KEY!, HOME: SANDBOX_HOME, CI: 'true' },
+      display: `codex ${args.join(' ')} < ${instructionFile}`,
     }
+  },
 
-    // Use the same pattern as other working agents (Claude, etc.)
-    // Execute with environment variables using sh -c like Claude does
-    const envPrefix = `AI_GATEWAY_API_KEY="${process.env.AI_GATEWAY_API_KEY}" HOME="/home/vercel-sandbox" CI="true"`
-    const fullCommand = `${envPrefix} codex exec --dangerously-bypass-approvals-and-sandbox "${instruction}"`
-
-    // Use the standard runCommandInSandbox helper like other agents
-    const result = await runCommandInSandbox(sandbox, 'sh', ['-c', fullCommand])
-
-    // Log the output and error results (similar to Claude and Cursor)
-    if (result.output && result.output.trim()) {
-      const redactedOutput = redactSensitiveInfo(result.output.trim())
-      await logger.info(redactedOutput)
-      if (logger) {
-        await logger.info(redactedOutput)
-      }
+  parseOutput(result) {
+    if (result.success || result.exitCode === 0) {
+      return { success: true, agentResponse: result.output || 'Codex CLI completed the task' }
     }
 
-    if (!result.success && result.error && result.error.trim()) {
-      const redactedError = redactSensitiveInfo(result.error.trim())
-      await logger.error(redactedError)
-      if (logger) {
-        await logger.error(redactedError)
+    return {
+      success: false,
+      error: `Codex CLI failed (exit code ${result.exitCode}): ${result.error || 'No error message'}`,
+      agentResponse: result.output,
+    }
+  },
+
+  createEventParser() {
+    return (jsonData) => {
+      const event = jsonData as CodexStreamEvent
+
+      if (event.type === 'turn.completed' && event.usage) {
+        return [
+          {
+            kind: 'token_usage',
+            inputTokens: event.usage.input_tokens ?? 0,
+            outputTokens: event.usage.output_tokens ?? 0,
+            cachedInputTokens: event.usage.cached_input_tokens,
+          },
+        ]
       }
-    }
 
-    // Codex CLI execution completed
-
-    // Check if any files were modified
-    const gitStatusCheck = await runAndLogCommand(sandbox, 'git', ['status', '--porcelain'], logger)
-    const hasChanges = gitStatusCheck.success && gitStatusCheck.output?.trim()
-
-    if (result.success || result.exitCode === 0) {
-      return {
-        success: true,
-        output: `Codex CLI executed successfully${hasChanges ? ' (Changes detected)' : ' (No changes made)'}`,
-        agentResponse: result.output || 'Codex CLI completed the task',
-        cliName: 'codex',
-        changesDetected: !!hasChanges,
-        error: undefined,
+      const item = event.item
+      if (event.type !== 'item.completed' || !item) return []
+
+      switch (item.type) {
+        case 'agent_message':
+          return item.text ? [{ kind: 'final_message', text: item.text }] : []
+        case 'reasoning':
+          return item.text ? [{ kind: 'reasoning', text: item.text }] : []
+        case 'command_execution':
+          return [
+            {
+              kind: 'shell_command',
+              command: item.command || '',
+              exitCode: item.exit_code ?? undefined,
+              output: item.aggregated_output ? truncate(item.aggregated_output) : undefined,
+            },
+          ]
+        case 'file_change':
+          return (item.changes || []).map(
+            (change): AgentEvent => ({
+              kind: 'file_edit',
+              path: change.path,
+              action: FILE_CHANGE_ACTIONS[change.kind],
+            }),
+          )
+        case 'mcp_tool_call':
+          return [{ kind: 'tool_call', tool: `${item.server}.${item.tool}`, input: summarizeInput(item.arguments) }]
+        case 'web_search':
+          return [{ kind: 'tool_call', tool: 'web_search', input: item.query }]
+        default:
+          return []
       }
-    } else {
-      return {
-        success: false,
-        error: `Codex CLI failed (exit code ${result.exitCode}): ${result.error || 'No error message'}`,
-        agentResponse: result.output,
-        cliName: 'codex',
-        changesDetected: !!hasChanges,
-      }
-    }
-  } catch (error: unknown) {
-    const errorMessage = error instanceof Error ? error.message : 'Failed to execute Codex CLI in sandbox'
-    return {
-      success: false,
-      error: errorMessage,
-      cliName: 'codex',
-      changesDetected: false,
     }
-  }
+  },
 }
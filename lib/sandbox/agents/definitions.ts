@@ -0,0 +1,128 @@
+// Client-safe agent metadata shared by the task form, sidebar and server-side registry.
+// Execution hooks live in the per-agent adapter modules and are wired up in ./registry.
+
+export interface AgentModel {
+  value: string
+  label: string
+}
+
+export interface AgentDefinition {
+  value: string
+  label: string
+  models: readonly AgentModel[]
+  defaultModel: string
+  // Each entry is an env var name, or a list of alternatives where any one is enough
+  requiredEnv: readonly (string | readonly string[])[]
+}
+
+export const AGENT_DEFINITIONS = [
+  {
+    value: 'claude',
+    label: 'Claude',
+    models: [
+      { value: 'claude-sonnet-4-5-20250929', label: 'Sonnet 4.5' },
+      { value: 'claude-sonnet-4-20250514', label: 'Sonnet 4' },
+      { value: 'claude-opus-4-1-20250805', label: 'Opus 4.1' },
+    ],
+    defaultModel: 'claude-sonnet-4-5-20250929',
+    requiredEnv: ['ANTHROPIC_API_KEY'],
+  },
+  {
+    value: 'codex',
+    label: 'Codex',
+    models: [
+      { value: 'openai/gpt-5', label: 'GPT-5' },
+      { value: 'gpt-5-codex', label: 'GPT-5-Codex' },
+      { value: 'openai/gpt-5-mini', label: 'GPT-5 Mini' },
+      { value: 'openai/gpt-5-nano', label: 'GPT-5 Nano' },
+      { value: 'openai/gpt-4.1', label: 'GPT-4.1' },
+    ],
+    defaultModel: 'openai/gpt-5',
+    requiredEnv: ['AI_GATEWAY_API_KEY'],
+  },
+  {
+    value: 'cursor',
+    label: 'Cursor',
+    models: [
+      { value: 'auto', label: 'Auto' },
+      { value: 'gpt-5', label: 'GPT-5' },
+      { value: 'gpt-5-mini', label: 'GPT-5 Mini' },
+      { value: 'gpt-5-nano', label: 'GPT-5 Nano' },
+      { value: 'gpt-4.1', label: 'GPT-4.1' },
+      { value: 'claude-sonnet-4-5-20250929', label: 'Sonnet 4.5' },
+      { value: 'claude-sonnet-4-20250514', label: 'Sonnet 4' },
+      { value: 'claude-opus-4-1-20250805', label: 'Opus 4.1' },
+    ],
+    defaultModel: 'auto',
+    requiredEnv: ['CURSOR_API_KEY'],
+  },
+  {
+    value: 'gemini',
+    label: 'Gemini',
+    models: [
+      { value: 'gemini-2.5-pro', label: 'Gemini 2.5 Pro' },
+      { value: 'gemini-2.5-flash', label: 'Gemini 2.5 Flash' },
+    ],
+    defaultModel: 'gemini-2.5-pro',
+    // Gemini falls back to OAuth when no API key is configured
+    requiredEnv: [],
+  },
+  {
+    value: 'opencode',
+    label: 'opencode',
+    models: [
+      { value: 'gpt-5', label: 'GPT-5' },
+      { value: 'gpt-5-mini', label: 'GPT-5 Mini' },
+      { value: 'gpt-5-nano', label: 'GPT-5 Nano' },
+      { value: 'gpt-4.1', label: 'GPT-4.1' },
+      { value: 'claude-sonnet-4-5-20250929', label: 'Sonnet 4.5' },
+      { value: 'claude-sonnet-4-20250514', label: 'Sonnet 4' },
+      { value: 'claude-opus-4-1-20250805', label: 'Opus 4.1' },
+    ],
+    defaultModel: 'gpt-5',
+    requiredEnv: [['OPENAI_API_KEY', 'ANTHROPIC_API_KEY']],
+  },
+] as const satisfies readonly AgentDefinition[]
+
+export type AgentType = (typeof AGENT_DEFINITIONS)[number]['value']
+
+export const AGENT_TYPES = AGENT_DEFINITIONS.map((agent) => agent.value) as [AgentType, ...AgentType[]]
+
+export function isAgentType(value: string): value is AgentType {
+  return AGENT_DEFINITIONS.some((agent) => agent.value === value)
+}
+
+export function getAgentDefinition(agent: string | null | undefined): AgentDefinition | undefined {
+  if (!agent) return undefined
+  return AGENT_DEFINITIONS.find((definition) => definition.value === agent.toLowerCase())
+}
+
+export function getAgentModels(agent: string | null | undefined): readonly AgentModel[] {
+  return getAgentDefinition(agent)?.models || []
+}
+
+export function getDefaultModel(agent: string | null | undefined): string | undefined {
+  return getAgentDefinition(agent)?.defaultModel
+}
+
+// Human-friendly model name, falling back to the raw model id
+export function getModelLabel(agent: string | null | undefined, model: string | null | undefined) {
+  if (!model) return model
+  return getAgentModels(agent).find((m) => m.value === model)?.label || model
+}
+
+// Returns the required env entries that are not satisfied by the given environment
+export function findMissingEnv(
+  agent: string | null | undefined,
+  env: Record<string, string | undefined> = process.env,
+): string[] {
+  const definition = getAgentDefinition(agent)
+  if (!definition) return []
+
+  return definition.requiredEnv
+    .filter((entry) => {
+      const alternatives = typeof entry === 'string' ? [entry] : entry
+      return !alternatives.some((name) => !!env[name])
+    })
+    .map((entry) => (typeof entry === 'string' ? entry : entry.join(' or ')))
+}
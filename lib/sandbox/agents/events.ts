@@ -0,0 +1,35 @@
+import { AgentEvent } from '@/lib/db/schema'
+
+const MAX_INPUT_LENGTH = 200
+const MAX_OUTPUT_LENGTH = 2000
+
+export function truncate(text: string, maxLength = MAX_OUTPUT_LENGTH): string {
+  return text.length > maxLength ? `${text.substring(0, maxLength)}…` : text
+}
+
+// Compact single-line rendering of a tool's arguments
+export function summarizeInput(input: unknown): string | undefined {
+  if (input === undefined || input === null) return undefined
+  const text = typeof input === 'string' ? input : JSON.stringify(input)
+  return text && text !== '{}' ? truncate(text.replace(/\s+/g, ' '), MAX_INPUT_LENGTH) : undefined
+}
+
+// Map a tool invocation onto the closest normalized event, given the agent's names for its built-in tools
+export function toolUseEvent(
+  tool: string,
+  input: Record<string, unknown>,
+  names: { shell: string[]; create: string[]; edit: string[] },
+): AgentEvent {
+  const path = input.file_path ?? input.notebook_path ?? input.path
+
+  if (names.shell.includes(tool) && typeof input.command === 'string') {
+    return { kind: 'shell_command', command: input.command }
+  }
+  if (names.create.includes(tool) && typeof path === 'string') {
+    return { kind: 'file_edit', path, action: 'create' }
+  }
+  if (names.edit.includes(tool) && typeof path === 'string') {
+    return { kind: 'file_edit', path, action: 'edit' }
+  }
+  return { kind: 'tool_call', tool, input: summarizeInput(input) }
+}
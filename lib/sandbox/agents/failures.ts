@@ -0,0 +1,31 @@
+// Why an agent run failed, used to decide whether to retry it or move on to the next agent
+export const AGENT_FAILURE_KINDS = ['install', 'auth', 'rate_limit', 'timeout', 'agent_error'] as const
+
+export type AgentFailureKind = (typeof AGENT_FAILURE_KINDS)[number]
+
+export const AGENT_FAILURE_LABELS: Record<AgentFailureKind, string> = {
+  install: 'Install failed',
+  auth: 'Authentication',
+  rate_limit: 'Rate limited',
+  timeout: 'Timed out',
+  agent_error: 'Agent error',
+}
+
+// Checked in order; the first match wins
+const FAILURE_PATTERNS: [AgentFailureKind, RegExp][] = [
+  ['rate_limit', /rate.?limit|too many requests|\b429\b|overloaded|quota|resource.?exhausted/i],
+  ['auth', /unauthori[sz]ed|\b401\b|\b403\b|invalid.{0,20}(api.?)?key|authenticat|forbidden/i],
+  ['timeout', /timed? ?out|timeout|deadline exceeded/i],
+]
+
+// Classify a failed run from its error output; anything unrecognised is the agent's own failure
+export function classifyAgentFailure(...messages: (string | undefined)[]): AgentFailureKind {
+  const text = messages.filter(Boolean).join('\n')
+  const match = FAILURE_PATTERNS.find(([, pattern]) => pattern.test(text))
+  return match ? match[0] : 'agent_error'
+}
+
+// Failures that may clear up if the same agent simply runs again
+export function isTransientFailure(kind: AgentFailureKind | undefined): boolean {
+  return kind === 'rate_limit' || kind === 'timeout'
+}
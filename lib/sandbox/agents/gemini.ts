@@ -1,269 +1,192 @@
-import { Sandbox } from '@vercel/sandbox'
-import { runCommandInSandbox } from '../commands'
-import { AgentExecutionResult } from '../types'
-import { redactSensitiveInfo } from '@/lib/utils/logging'
-import { TaskLogger } from '@/lib/utils/task-logger'
-
-// Helper function to run command and log it
-async function runAndLogCommand(sandbox: Sandbox, command: string, args: string[], logger: TaskLogger) {
-  const fullCommand = args.length > 0 ? `${command} ${args.join(' ')}` : command
-  const redactedCommand = redactSensitiveInfo(fullCommand)
-
-  await logger.command(redactedCommand)
+import { runAndLogCommand, runStreamingCommandInSandbox, withStdinFromFile, CommandResult } from '../commands'
+import { AgentAdapter } from '../types'
+import { AgentEvent } from '@/lib/db/schema'
+import { toolUseEvent } from './events'
+import { AgentCredentials } from '@/lib/keys/providers'
+
+interface GeminiStreamEvent {
+  type?: string
+  role?: string
+  content?: string
+  tool_name?: string
+  parameters?: Record<string, unknown>
+  stats?: { input_tokens?: number; output_tokens?: number }
+}
 
-  const result = await runCommandInSandbox(sandbox, command, args)
+const GEMINI_TOOL_NAMES = { shell: ['run_shell_command'], create: ['write_file'], edit: ['replace'] }
 
-  // Only try to access properties if result is valid
-  if (result && result.output && result.output.trim()) {
-    const redactedOutput = redactSensitiveInfo(result.output.trim())
-    await logger.info(redactedOutput)
+// Check authentication options in order of preference
+function resolveGeminiAuth(credentials: AgentCredentials): {
+  method: string
+  env: Record<string, string>
+  description: string
+} {
+  // Option 1: Gemini API key
+  if (credentials.GEMINI_API_KEY) {
+    return {
+      method: 'api_key',
+      env: { GEMINI_API_KEY: credentials.GEMINI_API_KEY },
+      description: 'Using Gemini API key authentication',
+    }
   }
-
-  if (result && !result.success && result.error) {
-    const redactedError = redactSensitiveInfo(result.error)
-    await logger.error(redactedError)
+  // Option 2: Google API key with Vertex AI flag
+  if (credentials.GOOGLE_API_KEY && credentials.GOOGLE_GENAI_USE_VERTEXAI) {
+    return {
+      method: 'vertex_ai',
+      env: { GOOGLE_API_KEY: credentials.GOOGLE_API_KEY, GOOGLE_GENAI_USE_VERTEXAI: 'true' },
+      description: 'Using Vertex AI authentication',
+    }
   }
-
-  // If result is null/undefined, create a fallback result
-  if (!result) {
-    const errorResult = {
-      success: false,
-      error: 'Command execution failed - no result returned',
-      exitCode: -1,
-      output: '',
-      command: redactedCommand,
+  // Option 3: Google Cloud Project (OAuth with Code Assist)
+  if (credentials.GOOGLE_CLOUD_PROJECT) {
+    return {
+      method: 'oauth_project',
+      env: { GOOGLE_CLOUD_PROJECT: credentials.GOOGLE_CLOUD_PROJECT },
+      description: 'Using Google Cloud Project authentication (requires OAuth login)',
     }
-    await logger.error('Command execution failed - no result returned')
-    return errorResult
   }
+  // Option 4: Default OAuth (will require interactive login)
+  return { method: 'oauth', env: {}, description: 'No API keys found, will attempt OAuth authentication' }
+}
 
-  return result
+function isToolRegistryError(result: CommandResult) {
+  return !result.success && !!result.error?.includes('Tool') && !!result.error?.includes('not found in registry')
 }
 
-export async function executeGeminiInSandbox(
-  sandbox: Sandbox,
-  instruction: string,
-  logger: TaskLogger,
-  selectedModel?: string,
-): Promise<AgentExecutionResult> {
-  try {
-    // Executing Gemini CLI with instruction
+export const geminiAgent: AgentAdapter = {
+  type: 'gemini',
+  cliName: 'Gemini CLI',
 
-    // Check if Gemini CLI is available
+  async verify({ sandbox, logger }) {
     const cliCheck = await runAndLogCommand(sandbox, 'which', ['gemini'], logger)
+    return cliCheck.success
+  },
 
-    if (!cliCheck.success) {
-      // Gemini CLI not found, try to install it
-      await logger.info('Gemini CLI not found, installing...')
-
-      // Install Gemini CLI using npm
-      const installResult = await runAndLogCommand(sandbox, 'npm', ['install', '-g', '@google/gemini-cli'], logger)
-
-      if (!installResult.success) {
-        return {
-          success: false,
-          error: `Failed to install Gemini CLI: ${installResult.error}`,
-          cliName: 'gemini',
-          changesDetected: false,
-        }
-      }
-
+  async install({ sandbox, logger }) {
+    await logger.info('Gemini CLI not found, installing...')
+    const installResult = await runAndLogCommand(sandbox, 'npm', ['install', '-g', '@google/gemini-cli'], logger)
+    if (installResult.success) {
       await logger.info('Gemini CLI installed successfully')
-
-      // Verify installation worked
-      const verifyCheck = await runAndLogCommand(sandbox, 'which', ['gemini'], logger)
-      if (!verifyCheck.success) {
-        return {
-          success: false,
-          error: 'Gemini CLI installation completed but CLI still not found',
-          cliName: 'gemini',
-          changesDetected: false,
-        }
-      }
     }
+    return { success: installResult.success, error: installResult.error }
+  },
 
-    // Check authentication options in order of preference
-    let authMethod = 'none'
-    const authEnv: Record<string, string> = {}
-
-    // Option 1: Check for GEMINI_API_KEY (Gemini API)
-    if (process.env.GEMINI_API_KEY) {
-      authMethod = 'api_key'
-      authEnv.GEMINI_API_KEY = process.env.GEMINI_API_KEY
-      await logger.info('Using Gemini API key authentication')
-    }
-    // Option 2: Check for GOOGLE_API_KEY with Vertex AI flag (Vertex AI)
-    else if (process.env.GOOGLE_API_KEY && process.env.GOOGLE_GENAI_USE_VERTEXAI) {
-      authMethod = 'vertex_ai'
-      authEnv.GOOGLE_API_KEY = process.env.GOOGLE_API_KEY
-      authEnv.GOOGLE_GENAI_USE_VERTEXAI = 'true'
-      await logger.info('Using Vertex AI authentication')
-    }
-    // Option 3: Check for Google Cloud Project (OAuth with Code Assist)
-    else if (process.env.GOOGLE_CLOUD_PROJECT) {
-      authMethod = 'oauth_project'
-      authEnv.GOOGLE_CLOUD_PROJECT = process.env.GOOGLE_CLOUD_PROJECT
-      await logger.info('Using Google Cloud Project authentication (requires OAuth login)')
-    }
-    // Option 4: Default OAuth (will require interactive login)
-    else {
-      authMethod = 'oauth'
-      await logger.info('No API keys found, will attempt OAuth authentication')
-    }
+  async buildCommand({ logger, instructionFile, selectedModel, credentials }) {
+    const auth = resolveGeminiAuth(credentials)
+    await logger.info(auth.description)
 
-    // Prepare the command arguments using the correct Gemini CLI syntax
     const args = []
-
-    // Add model selection if provided
     if (selectedModel) {
       args.push('-m', selectedModel)
       await logger.info(`Using model: ${selectedModel}`)
     }
 
-    // Use YOLO mode to auto-approve all tools (bypass approval prompts)
-    args.push('--yolo')
-
-    // Add output format for structured responses
-    args.push('-o', 'json')
-
-    // Add the instruction as positional argument (not using deprecated -p flag)
-    args.push(instruction)
-
-    // Log what we're trying to do
-    await logger.info(`Executing Gemini CLI with ${authMethod} authentication`)
-    const redactedCommand = `gemini ${args.slice(0, -1).join(' ')} "${instruction.substring(0, 100)}..."`
-    await logger.command(redactedCommand)
+    // Use YOLO mode to auto-approve all tools and stream JSON events for the task timeline
+    args.push('--yolo', '-o', 'stream-json')
 
-    // Build environment variables string for shell command (like other agents)
-    const envPrefix = Object.entries(authEnv)
-      .map(([key, value]) => `${key}="${value}"`)
-      .join(' ')
+    await logger.info(`Executing Gemini CLI with ${auth.method} authentication`)
 
-    // Try a simpler approach first - use gemini without complex flags
-    await logger.info('Attempting Gemini CLI execution with basic flags...')
+    // Without a prompt argument, the CLI runs non-interactively on the instruction piped to stdin
+    return {
+      ...withStdinFromFile(instructionFile, 'gemini', args),
+      env: auth.env,
+      display: `gemini ${args.join(' ')} < ${instructionFile}`,
+    }
+  },
+
+  // Retry with progressively simpler flags when the CLI hits tool registry errors
+  async run({ sandbox, logger, instructionFile, selectedModel, output }, command) {
+    const options = { ...output, env: command.env, cwd: command.cwd }
+    const runGemini = (args: string[]) => {
+      const { cmd, args: wrappedArgs } = withStdinFromFile(instructionFile, 'gemini', args)
+      return runStreamingCommandInSandbox(sandbox, cmd, wrappedArgs, options)
+    }
 
-    // Execute Gemini CLI with proper environment using shell command
-    const fullCommand = envPrefix ? `${envPrefix} gemini ${args.join(' ')}` : `gemini ${args.join(' ')}`
-    let result = await runCommandInSandbox(sandbox, 'sh', ['-c', fullCommand])
+    let result = await runStreamingCommandInSandbox(sandbox, command.cmd, command.args, options)
 
-    // If that fails with tool registry error, try with different approval modes
-    if (!result.success && result.error?.includes('Tool') && result.error?.includes('not found in registry')) {
+    if (isToolRegistryError(result)) {
       await logger.info('Retrying with auto_edit approval mode...')
-      const fallbackArgs = []
-      if (selectedModel) {
-        fallbackArgs.push('-m', selectedModel)
-      }
-      fallbackArgs.push('--approval-mode', 'auto_edit') // Auto-approve edit tools only
-      fallbackArgs.push('-o', 'text') // Use text output instead of JSON
-      fallbackArgs.push(instruction)
+      const fallbackArgs = selectedModel ? ['-m', selectedModel] : []
+      fallbackArgs.push('--approval-mode', 'auto_edit', '-o', 'text')
+      result = await runGemini(fallbackArgs)
 
-      const fallbackCommand = envPrefix
-        ? `${envPrefix} gemini ${fallbackArgs.join(' ')}`
-        : `gemini ${fallbackArgs.join(' ')}`
-      result = await runCommandInSandbox(sandbox, 'sh', ['-c', fallbackCommand])
-
-      // If still failing, try the most basic approach
-      if (!result.success && result.error?.includes('Tool') && result.error?.includes('not found in registry')) {
+      if (isToolRegistryError(result)) {
         await logger.info('Retrying with minimal flags...')
-        const minimalArgs = selectedModel ? ['-m', selectedModel, instruction] : [instruction]
-        const minimalCommand = envPrefix
-          ? `${envPrefix} gemini ${minimalArgs.join(' ')}`
-          : `gemini ${minimalArgs.join(' ')}`
-        result = await runCommandInSandbox(sandbox, 'sh', ['-c', minimalCommand])
-      }
-    }
-
-    // Check if result is valid before accessing properties
-    if (!result) {
-      const errorMsg = 'Gemini CLI execution failed - no result returned'
-      await logger.error(errorMsg)
-      return {
-        success: false,
-        error: errorMsg,
-        cliName: 'gemini',
-        changesDetected: false,
+        result = await runGemini(selectedModel ? ['-m', selectedModel] : [])
       }
     }
 
-    // Log the output
-    if (result.output && result.output.trim()) {
-      const redactedOutput = redactSensitiveInfo(result.output.trim())
-      await logger.info(redactedOutput)
-    }
-
-    if (!result.success && result.error) {
-      const redactedError = redactSensitiveInfo(result.error)
-      await logger.error(redactedError)
-    }
-
-    // Log more details for debugging
-    await logger.info(`Gemini CLI exit code: ${result.exitCode}`)
-    if (result.output) {
-      await logger.info(`Gemini CLI output length: ${result.output.length} characters`)
-    }
-    if (result.error) {
-      await logger.error(`Gemini CLI error: ${result.error}`)
-    }
-
-    // Check if any files were modified
-    const gitStatusCheck = await runAndLogCommand(sandbox, 'git', ['status', '--porcelain'], logger)
-    const hasChanges = gitStatusCheck.success && gitStatusCheck.output?.trim()
+    return result
+  },
 
+  parseOutput(result) {
     if (result.success || result.exitCode === 0) {
-      // Log additional debugging info if no changes were made
-      if (!hasChanges) {
-        await logger.info('No changes detected. Checking if files exist...')
-        // Check if common files exist
-        await runAndLogCommand(sandbox, 'find', ['.', '-name', 'README*', '-o', '-name', 'readme*'], logger)
-        await runAndLogCommand(sandbox, 'ls', ['-la'], logger)
-      }
+      return { success: true, agentResponse: result.output || 'No detailed response available' }
+    }
 
+    if (result.error?.includes('authentication') || result.error?.includes('login')) {
       return {
-        success: true,
-        output: `Gemini CLI executed successfully${hasChanges ? ' (Changes detected)' : ' (No changes made)'}`,
-        agentResponse: result.output || 'No detailed response available',
-        cliName: 'gemini',
-        changesDetected: !!hasChanges,
-        error: undefined,
-      }
-    } else {
-      // Handle specific error types
-      if (result.error?.includes('authentication') || result.error?.includes('login')) {
-        return {
-          success: false,
-          error: `Gemini CLI authentication failed. Please set GEMINI_API_KEY, GOOGLE_API_KEY (with GOOGLE_GENAI_USE_VERTEXAI=true), or GOOGLE_CLOUD_PROJECT environment variable. Error: ${result.error}`,
-          agentResponse: result.output,
-          cliName: 'gemini',
-          changesDetected: !!hasChanges,
-        }
-      }
-
-      // Handle tool registry errors (common in sandbox environments)
-      if (result.error?.includes('Tool') && result.error?.includes('not found in registry')) {
-        return {
-          success: false,
-          error: `Gemini CLI tool registry error - this may be due to sandbox environment limitations. The Gemini CLI may have restricted file operation capabilities in this environment. Consider using a different agent for file modifications. Error: ${result.error}`,
-          agentResponse: result.output,
-          cliName: 'gemini',
-          changesDetected: !!hasChanges,
-        }
+        success: false,
+        error: `Gemini CLI authentication failed. Please set GEMINI_API_KEY, GOOGLE_API_KEY (with GOOGLE_GENAI_USE_VERTEXAI=true), or GOOGLE_CLOUD_PROJECT environment variable. Error: ${result.error}`,
+        agentResponse: result.output,
       }
+    }
 
+    // Tool registry errors are common in sandbox environments
+    if (isToolRegistryError(result)) {
       return {
         success: false,
-        error: `Gemini CLI failed (exit code ${result.exitCode}): ${result.error || 'No error message'}`,
+        error: `Gemini CLI tool registry error - this may be due to sandbox environment limitations. The Gemini CLI may have restricted file operation capabilities in this environment. Consider using a different agent for file modifications. Error: ${result.error}`,
         agentResponse: result.output,
-        cliName: 'gemini',
-        changesDetected: !!hasChanges,
       }
     }
-  } catch (error: unknown) {
-    const errorMessage = error instanceof Error ? error.message : 'Failed to execute Gemini CLI in sandbox'
+
     return {
       success: false,
-      error: errorMessage,
-      cliName: 'gemini',
-      changesDetected: false,
+      error: `Gemini CLI failed (exit code ${result.exitCode}): ${result.error || 'No error message'}`,
+      agentResponse: result.output,
     }
-  }
+  },
+
+  createEventParser() {
+    // Assistant text arrives as deltas; text before a tool call is the agent thinking aloud,
+    // and whatever is left when the run ends is its final message
+    let assistantText = ''
+
+    const flushText = (kind: 'reasoning' | 'final_message'): AgentEvent[] => {
+      const text = assistantText.trim()
+      assistantText = ''
+      return text ? [{ kind, text }] : []
+    }
+
+    return (jsonData) => {
+      const event = jsonData as GeminiStreamEvent
+
+      switch (event.type) {
+        case 'message':
+          if (event.role === 'assistant' && event.content) {
+            assistantText += event.content
+          }
+          return []
+        case 'tool_use':
+          return [
+            ...flushText('reasoning'),
+            toolUseEvent(event.tool_name || 'unknown', event.parameters || {}, GEMINI_TOOL_NAMES),
+          ]
+        case 'result': {
+          const events = flushText('final_message')
+          if (event.stats) {
+            events.push({
+              kind: 'token_usage',
+              inputTokens: event.stats.input_tokens ?? 0,
+              outputTokens: event.stats.output_tokens ?? 0,
+            })
+          }
+          return events
+        }
+        default:
+          return []
+      }
+    }
+  },
 }
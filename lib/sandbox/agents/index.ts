@@ -1,25 +1,62 @@
 import { Sandbox } from '@vercel/sandbox'
-import { AgentExecutionResult } from '../types'
-import { executeClaudeInSandbox } from './claude'
-import { executeCodexInSandbox } from './codex'
-import { executeCursorInSandbox } from './cursor'
-import { executeGeminiInSandbox } from './gemini'
-import { executeOpenCodeInSandbox } from './opencode'
+import { AgentAdapter, AgentContext, AgentExecutionResult } from '../types'
+import {
+  runAndLogCommand,
+  runCommandInSandbox,
+  runStreamingCommandInSandbox,
+  streamToLogger,
+  writeFileInSandbox,
+  StreamingCommandOptions,
+} from '../commands'
+import { findMissingEnv } from './definitions'
+import { classifyAgentFailure } from './failures'
+import { getAgentAdapter } from './registry'
+import { redactSensitiveInfo, AgentEvent } from '@/lib/utils/logging'
 import { TaskLogger } from '@/lib/utils/task-logger'
-
-export type AgentType = 'claude' | 'codex' | 'cursor' | 'gemini' | 'opencode'
+import { AgentCredentials } from '@/lib/keys/providers'
+import { generateId } from '@/lib/utils/id'
 
 // Re-export types
 export type { AgentExecutionResult } from '../types'
+export type { AgentType } from './definitions'
+
+// Log parsed events as structured entries and any other output line by line
+function streamAgentOutput(adapter: AgentAdapter, logger: TaskLogger, events: AgentEvent[]): StreamingCommandOptions {
+  const lines = streamToLogger(logger)
+  if (!adapter.createEventParser) return lines
+
+  const parse = adapter.createEventParser()
+  return {
+    ...lines,
+    onStdout: async (line) => {
+      const trimmed = line.trim()
+      if (!(trimmed.startsWith('{') && trimmed.endsWith('}'))) {
+        await lines.onStdout?.(line)
+      }
+    },
+    onJsonLine: async (jsonData) => {
+      for (const event of parse(jsonData)) {
+        events.push(event)
+        await logger.event(event)
+      }
+    },
+  }
+}
 
 // Main agent execution function
 export async function executeAgentInSandbox(
   sandbox: Sandbox,
   instruction: string,
-  agentType: AgentType,
+  agentType: string,
   logger: TaskLogger,
+  credentials: AgentCredentials,
   selectedModel?: string,
   onCancellationCheck?: () => Promise<boolean>,
+  // Env vars the repository config hands to every command, below the adapter's own
+  env: Record<string, string> = {},
+  // Workspace package directory the agent works from
+  cwd?: string,
+  signal?: AbortSignal,
 ): Promise<AgentExecutionResult> {
   // Check for cancellation before starting agent execution
   if (onCancellationCheck && (await onCancellationCheck())) {
@@ -31,28 +68,140 @@ export async function executeAgentInSandbox(
       changesDetected: false,
     }
   }
-  switch (agentType) {
-    case 'claude':
-      return executeClaudeInSandbox(sandbox, instruction, logger, selectedModel)
 
-    case 'codex':
-      return executeCodexInSandbox(sandbox, instruction, logger, selectedModel)
+  const adapter = getAgentAdapter(agentType)
+  if (!adapter) {
+    return {
+      success: false,
+      error: `Unknown agent type: ${agentType}`,
+      failureKind: 'agent_error',
+      cliName: agentType,
+      changesDetected: false,
+    }
+  }
+
+  const events: AgentEvent[] = []
+  const context: AgentContext = {
+    sandbox,
+    logger,
+    instruction,
+    instructionFile: `/tmp/agent-instruction-${generateId(8)}.txt`,
+    selectedModel,
+    credentials,
+    output: streamAgentOutput(adapter, logger, events),
+    signal,
+  }
 
-    case 'cursor':
-      return executeCursorInSandbox(sandbox, instruction, logger, selectedModel)
+  try {
+    const missingEnv = findMissingEnv(adapter.type, credentials)
+    if (missingEnv.length > 0) {
+      const errorMsg = `${missingEnv.join(', ')} is required for ${adapter.cliName} but not found`
+      await logger.error(errorMsg)
+      return { success: false, error: errorMsg, failureKind: 'auth', cliName: adapter.type, changesDetected: false }
+    }
 
-    case 'gemini':
-      return executeGeminiInSandbox(sandbox, instruction, logger, selectedModel)
+    // Install the CLI if it is not already available
+    if (!(await adapter.verify(context))) {
+      const installResult = await adapter.install(context)
+      if (!installResult.success) {
+        return {
+          success: false,
+          error: `Failed to install ${adapter.cliName}${installResult.error ? `: ${installResult.error}` : ''}`,
+          failureKind: 'install',
+          cliName: adapter.type,
+          changesDetected: false,
+        }
+      }
 
-    case 'opencode':
-      return executeOpenCodeInSandbox(sandbox, instruction, logger, selectedModel)
+      if (!(await adapter.verify(context))) {
+        return {
+          success: false,
+          error: `${adapter.cliName} installation completed but CLI still not found`,
+          failureKind: 'install',
+          cliName: adapter.type,
+          changesDetected: false,
+        }
+      }
+    }
 
-    default:
+    if (adapter.configure) {
+      await adapter.configure(context)
+    }
+
+    // The instruction never goes through a shell; CLIs read it from this file on stdin
+    const instructionWrite = await writeFileInSandbox(sandbox, context.instructionFile, instruction)
+    if (!instructionWrite.success) {
       return {
         success: false,
-        error: `Unknown agent type: ${agentType}`,
-        cliName: agentType,
+        error: `Failed to write the instruction into the sandbox: ${instructionWrite.error}`,
+        cliName: adapter.type,
         changesDetected: false,
       }
+    }
+
+    const builtCommand = await adapter.buildCommand(context)
+    const command = { ...builtCommand, env: { ...env, ...builtCommand.env }, cwd }
+    await logger.command(command.display)
+
+    // Output is streamed to the task logs line by line while the agent works
+    const result = adapter.run
+      ? await adapter.run(context, command)
+      : await runStreamingCommandInSandbox(sandbox, command.cmd, command.args, {
+          ...context.output,
+          env: command.env,
+          cwd: command.cwd,
+          signal,
+        })
+
+    // Without an exit code the command never ran or was cut short, so its error was not streamed
+    if (!result.success && result.exitCode === undefined && result.error) {
+      await logger.error(redactSensitiveInfo(result.error))
+    }
+
+    await logger.info(`${adapter.cliName} exit code: ${result.exitCode ?? 'unknown'}`)
+
+    // Check if any files were modified
+    const gitStatusCheck = await runAndLogCommand(sandbox, 'git', ['status', '--porcelain'], logger)
+    const hasChanges = !!(gitStatusCheck.success && gitStatusCheck.output?.trim())
+
+    const output = adapter.parseOutput(result, context)
+
+    // Prefer the agent's own final message over its raw event stream
+    const finalMessage = events.findLast((event) => event.kind === 'final_message')
+    if (finalMessage) {
+      output.agentResponse = finalMessage.text
+    }
+
+    if (output.success) {
+      return {
+        success: true,
+        output: `${adapter.cliName} executed successfully${hasChanges ? ' (Changes detected)' : ' (No changes made)'}`,
+        agentResponse: output.agentResponse,
+        cliName: adapter.type,
+        changesDetected: hasChanges,
+        error: undefined,
+      }
+    }
+
+    return {
+      success: false,
+      error: output.error,
+      failureKind: classifyAgentFailure(output.error, result.error),
+      agentResponse: output.agentResponse,
+      cliName: adapter.type,
+      changesDetected: hasChanges,
+    }
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : `Failed to execute ${adapter.cliName} in sandbox`
+    return {
+      success: false,
+      error: errorMessage,
+      failureKind: classifyAgentFailure(errorMessage),
+      cliName: adapter.type,
+      changesDetected: false,
+    }
+  } finally {
+    // Kept-alive sandboxes are reused by follow-ups, so the prompt never stays on disk
+    await runCommandInSandbox(sandbox, 'rm', ['-f', context.instructionFile])
   }
 }
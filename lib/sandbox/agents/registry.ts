@@ -0,0 +1,24 @@
+import { AgentAdapter } from '../types'
+import { AgentType, isAgentType } from './definitions'
+import { claudeAgent } from './claude'
+import { codexAgent } from './codex'
+import { cursorAgent } from './cursor'
+import { geminiAgent } from './gemini'
+import { opencodeAgent } from './opencode'
+
+// Every agent listed in AGENT_DEFINITIONS must have an adapter registered here
+const AGENT_ADAPTERS: Record<AgentType, AgentAdapter> = {
+  claude: claudeAgent,
+  codex: codexAgent,
+  cursor: cursorAgent,
+  gemini: geminiAgent,
+  opencode: opencodeAgent,
+}
+
+export function getAgentAdapter(agent: string): AgentAdapter | undefined {
+  return isAgentType(agent) ? AGENT_ADAPTERS[agent] : undefined
+}
+
+export function listAgentAdapters(): AgentAdapter[] {
+  return Object.values(AGENT_ADAPTERS)
+}
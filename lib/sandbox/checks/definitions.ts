@@ -0,0 +1,25 @@
+// Client-safe metadata for the checks run against an agent's changes.
+// Detection and execution live in ./detect and ./index.
+
+// Run in this order; cheap checks first so failures surface before slow builds
+export const CHECK_KINDS = ['type_check', 'lint', 'test', 'build'] as const
+
+export type CheckKind = (typeof CHECK_KINDS)[number]
+
+export const CHECK_LABELS: Record<CheckKind, string> = {
+  type_check: 'Type check',
+  lint: 'Lint',
+  test: 'Tests',
+  build: 'Build',
+}
+
+export const CHECK_STATUSES = ['passed', 'failed'] as const
+
+export type CheckStatus = (typeof CHECK_STATUSES)[number]
+
+// Where a check's command came from
+export const CHECK_SOURCES = ['package.json', 'pyproject.toml', 'Makefile', 'config'] as const
+
+export type CheckSource = (typeof CHECK_SOURCES)[number]
+
+export const MAX_REPAIR_ROUNDS = 3
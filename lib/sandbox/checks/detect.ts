@@ -0,0 +1,128 @@
+import { Sandbox } from '@vercel/sandbox'
+import { runCommandInSandbox } from '../commands'
+import { detectPackageManager } from '../package-manager'
+import { TaskLogger } from '@/lib/utils/task-logger'
+import { CHECK_KINDS, CheckKind, CheckSource } from './definitions'
+
+export interface VerificationCheck {
+  kind: CheckKind
+  cmd: string
+  args: string[]
+  source: CheckSource
+  // Directory the check runs in, when not the repository root
+  cwd?: string
+}
+
+// Shell commands configured for the repository, which take precedence over detected ones
+export type CheckCommandOverrides = Partial<Record<CheckKind, string>>
+
+// package.json script names for each check, in order of preference
+const PACKAGE_SCRIPTS: Record<CheckKind, string[]> = {
+  type_check: ['type-check', 'typecheck', 'check-types', 'tsc'],
+  lint: ['lint'],
+  test: ['test'],
+  build: ['build'],
+}
+
+const MAKE_TARGETS: Record<CheckKind, string[]> = {
+  type_check: ['type-check', 'typecheck'],
+  lint: ['lint'],
+  test: ['test'],
+  build: ['build'],
+}
+
+// The script npm init writes, which always fails
+const PLACEHOLDER_TEST_SCRIPT = /no test specified/
+
+async function readFile(sandbox: Sandbox, path: string, cwd?: string): Promise<string | null> {
+  const result = await runCommandInSandbox(sandbox, 'cat', [path], { cwd })
+  return result.success ? result.output || '' : null
+}
+
+async function detectPackageJsonChecks(
+  sandbox: Sandbox,
+  logger: TaskLogger,
+  cwd?: string,
+): Promise<VerificationCheck[]> {
+  const content = await readFile(sandbox, 'package.json', cwd)
+  if (content === null) return []
+
+  let scripts: Record<string, string>
+  try {
+    scripts = JSON.parse(content).scripts || {}
+  } catch {
+    await logger.info('Could not parse package.json, skipping its scripts')
+    return []
+  }
+
+  const found = CHECK_KINDS.flatMap((kind) => {
+    const script = PACKAGE_SCRIPTS[kind].find(
+      (name) => scripts[name] && !(kind === 'test' && PLACEHOLDER_TEST_SCRIPT.test(scripts[name])),
+    )
+    return script ? [{ kind, script }] : []
+  })
+  if (found.length === 0) return []
+
+  const packageManager = await detectPackageManager(sandbox, logger, cwd)
+  return found.map(({ kind, script }) => ({
+    kind,
+    cmd: packageManager,
+    args: ['run', script],
+    source: 'package.json' as const,
+  }))
+}
+
+// Tools are only run when pyproject.toml mentions them
+async function detectPyprojectChecks(sandbox: Sandbox, cwd?: string): Promise<VerificationCheck[]> {
+  const content = await readFile(sandbox, 'pyproject.toml', cwd)
+  if (content === null) return []
+
+  const checks: VerificationCheck[] = []
+  if (/\bmypy\b/.test(content)) {
+    checks.push({ kind: 'type_check', cmd: 'python', args: ['-m', 'mypy', '.'], source: 'pyproject.toml' })
+  }
+  if (/\bruff\b/.test(content)) {
+    checks.push({ kind: 'lint', cmd: 'python', args: ['-m', 'ruff', 'check', '.'], source: 'pyproject.toml' })
+  }
+  if (/\bpytest\b/.test(content)) {
+    checks.push({ kind: 'test', cmd: 'python', args: ['-m', 'pytest'], source: 'pyproject.toml' })
+  }
+  return checks
+}
+
+async function detectMakefileChecks(sandbox: Sandbox, cwd?: string): Promise<VerificationCheck[]> {
+  const content = await readFile(sandbox, 'Makefile', cwd)
+  if (content === null) return []
+
+  return CHECK_KINDS.flatMap((kind) => {
+    const target = MAKE_TARGETS[kind].find((name) => new RegExp(`^${name}:`, 'm').test(content))
+    return target ? [{ kind, cmd: 'make', args: [target], source: 'Makefile' as const }] : []
+  })
+}
+
+/**
+ * Work out which checks to run against the agent's changes. Configured commands win, then
+ * package.json scripts, pyproject.toml tools and Makefile targets, one command per kind.
+ * Detected checks run in cwd (a workspace package) when given; configured commands run at the root.
+ */
+export async function detectChecks(
+  sandbox: Sandbox,
+  logger: TaskLogger,
+  overrides: CheckCommandOverrides = {},
+  cwd?: string,
+): Promise<VerificationCheck[]> {
+  const detected = [
+    ...(await detectPackageJsonChecks(sandbox, logger, cwd)),
+    ...(await detectPyprojectChecks(sandbox, cwd)),
+    ...(await detectMakefileChecks(sandbox, cwd)),
+  ].map((check) => ({ ...check, cwd }))
+
+  return CHECK_KINDS.flatMap((kind): VerificationCheck[] => {
+    const override = overrides[kind]
+    if (override) {
+      return [{ kind, cmd: 'sh', args: ['-c', override], source: 'config' }]
+    }
+    const check = detected.find((candidate) => candidate.kind === kind)
+    return check ? [check] : []
+  })
+}
@@ -0,0 +1,89 @@
+import { Sandbox } from '@vercel/sandbox'
+import { runCommandInSandbox } from '../commands'
+import { TaskLogger } from '@/lib/utils/task-logger'
+import { redactSensitiveInfo } from '@/lib/utils/logging'
+import { CHECK_LABELS, CheckKind, CheckSource, CheckStatus } from './definitions'
+import { VerificationCheck } from './detect'
+
+export { detectChecks } from './detect'
+export type { VerificationCheck, CheckCommandOverrides } from './detect'
+
+// Only the end of a failing check's output is kept; that is where the errors usually are
+const OUTPUT_TAIL_CHARS = 4000
+
+export interface CheckResult {
+  kind: CheckKind
+  command: string
+  source: CheckSource
+  status: CheckStatus
+  exitCode?: number
+  output: string
+  durationMs: number
+}
+
+function tail(text: string): string {
+  return text.length > OUTPUT_TAIL_CHARS ? `...${text.slice(-OUTPUT_TAIL_CHARS)}` : text
+}
+
+// Run each check in turn. Later checks still run after a failure so the agent sees every problem.
+export async function runChecks(
+  sandbox: Sandbox,
+  checks: VerificationCheck[],
+  logger: TaskLogger,
+  env: Record<string, string> = {},
+): Promise<CheckResult[]> {
+  const results: CheckResult[] = []
+
+  for (const check of checks) {
+    const command = check.source === 'config' ? check.args[1] : [check.cmd, ...check.args].join(' ')
+    await logger.command(command)
+
+    const startedAt = Date.now()
+    // CI keeps test runners out of watch mode and interactive prompts
+    const result = await runCommandInSandbox(sandbox, check.cmd, check.args, {
+      env: { ...env, CI: 'true' },
+      cwd: check.cwd,
+    })
+    const output = redactSensitiveInfo(tail([result.output, result.error].filter(Boolean).join('\n').trim()))
+
+    const checkResult: CheckResult = {
+      kind: check.kind,
+      command,
+      source: check.source,
+      status: result.success ? 'passed' : 'failed',
+      exitCode: result.exitCode,
+      output,
+      durationMs: Date.now() - startedAt,
+    }
+    results.push(checkResult)
+
+    if (result.success) {
+      await logger.success(`${CHECK_LABELS[check.kind]} passed`)
+    } else {
+      await logger.error(`${CHECK_LABELS[check.kind]} failed (exit code ${result.exitCode ?? 'unknown'})`)
+      if (output) await logger.error(output)
+    }
+  }
+
+  return results
+}
+
+// Instruction for a self-repair round: the original request plus what the checks reported
+export function buildRepairInstruction(instruction: string, failures: CheckResult[]): string {
+  const sections = failures.map(
+    (failure) => `## ${CHECK_LABELS[failure.kind]} (\`${failure.command}\`)\n\n${failure.output || 'No output'}`,
+  )
+
+  return [
+    'Your changes for the task below fail some of the project checks. Fix the failures without undoing the task.',
+    'Only change what is needed to make the checks pass.',
+    '',
+    '# Task',
+    '',
+    instruction,
+    '',
+    '# Failed checks',
+    '',
+    sections.join('\n\n'),
+  ].join('\n')
+}
@@ -1,4 +1,6 @@
 import { Sandbox } from '@vercel/sandbox'
+import { redactSensitiveInfo } from '@/lib/utils/logging'
+import { TaskLogger } from '@/lib/utils/task-logger'
 
 export interface CommandResult {
   success: boolean
@@ -10,18 +12,50 @@ export interface CommandResult {
 }
 
 export interface StreamingCommandOptions {
-  onStdout?: (chunk: string) => void
-  onStderr?: (chunk: string) => void
-  onJsonLine?: (jsonData: unknown) => void
+  // Called with each complete, redacted line as soon as it is read
+  onStdout?: (line: string) => void | Promise<void>
+  onStderr?: (line: string) => void | Promise<void>
+  // Called with each stdout line that parses as JSON
+  onJsonLine?: (jsonData: unknown) => void | Promise<void>
+  env?: Record<string, string>
+  cwd?: string
+  // Aborting stops reading and kills the command
+  signal?: AbortSignal
 }
 
+export interface RunCommandOptions {
+  // Passed through the sandbox API, so values never appear in the command line
+  env?: Record<string, string>
+  // Defaults to the repository root
+  cwd?: string
+  // Run as root, e.g. to install system packages
+  sudo?: boolean
+}
+
+// Home directory of the user that sandbox commands run as
+export const SANDBOX_HOME = '/home/vercel-sandbox'
+
+// Directory the repository is cloned into, where commands run by default
+export const SANDBOX_WORKDIR = '/vercel/sandbox'
+
+// Fixed script that feeds a file to a command's stdin. The file, command and arguments are
+// positional parameters, so nothing in them is ever parsed by the shell.
+const STDIN_FROM_FILE_SCRIPT = 'file="$1"; shift; exec "$@" < "$file"'
+
 export async function runCommandInSandbox(
   sandbox: Sandbox,
   command: string,
   args: string[] = [],
+  options: RunCommandOptions = {},
 ): Promise<CommandResult> {
   try {
-    const result = await sandbox.runCommand(command, args)
+    const result = await sandbox.runCommand({
+      cmd: command,
+      args,
+      env: options.env,
+      cwd: options.cwd,
+      sudo: options.sudo,
+    })
 
     // Handle stdout and stderr properly
     let stdout = ''
@@ -59,58 +93,148 @@ export async function runCommandInSandbox(
   }
 }
 
+/**
+ * Write a file into the sandbox through the file API rather than a shell, creating its directory first
+ */
+export async function writeFileInSandbox(sandbox: Sandbox, path: string, content: string): Promise<CommandResult> {
+  const directory = path.substring(0, path.lastIndexOf('/'))
+  if (directory) {
+    const mkdirResult = await runCommandInSandbox(sandbox, 'mkdir', ['-p', directory])
+    if (!mkdirResult.success) return mkdirResult
+  }
+
+  try {
+    await sandbox.writeFiles([{ path, content: Buffer.from(content, 'utf8') }])
+    return { success: true, command: `write ${path}` }
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to write file'
+    return { success: false, error: errorMessage, command: `write ${path}` }
+  }
+}
+
+/**
+ * Wrap a command so it reads its stdin from a file in the sandbox
+ */
+export function withStdinFromFile(file: string, command: string, args: string[]): { cmd: string; args: string[] } {
+  return { cmd: 'sh', args: ['-c', STDIN_FROM_FILE_SCRIPT, 'sh', file, command, ...args] }
+}
+
+// Helper function to run command and log it
+export async function runAndLogCommand(
+  sandbox: Sandbox,
+  command: string,
+  args: string[],
+  logger: TaskLogger,
+): Promise<CommandResult> {
+  const fullCommand = args.length > 0 ? `${command} ${args.join(' ')}` : command
+  const redactedCommand = redactSensitiveInfo(fullCommand)
+
+  await logger.command(redactedCommand)
+
+  const result = await runCommandInSandbox(sandbox, command, args)
+
+  if (result.output && result.output.trim()) {
+    await logger.info(redactSensitiveInfo(result.output.trim()))
+  }
+
+  if (!result.success && result.error) {
+    await logger.error(redactSensitiveInfo(result.error))
+  }
+
+  return result
+}
+
+/**
+ * Splits chunks of output into complete lines, holding back a trailing partial line
+ * until the rest of it arrives
+ */
+class LineBuffer {
+  private pending = ''
+
+  push(chunk: string): string[] {
+    const lines = (this.pending + chunk).split('\n')
+    this.pending = lines.pop() ?? ''
+    return lines.map((line) => line.replace(/\r$/, ''))
+  }
+
+  flush(): string[] {
+    const rest = this.pending.replace(/\r$/, '')
+    this.pending = ''
+    return rest ? [rest] : []
+  }
+}
+
 export async function runStreamingCommandInSandbox(
   sandbox: Sandbox,
   command: string,
   args: string[] = [],
   options: StreamingCommandOptions = {},
 ): Promise<CommandResult> {
+  const fullCommand = args.length > 0 ? `${command} ${args.join(' ')}` : command
+  let stdout = ''
+  let stderr = ''
+
   try {
-    const result = await sandbox.runCommand(command, args)
+    const running = await sandbox.runCommand({
+      cmd: command,
+      args,
+      env: options.env,
+      cwd: options.cwd,
+      detached: true,
+    })
 
-    let stdout = ''
-    let stderr = ''
+    const buffers = { stdout: new LineBuffer(), stderr: new LineBuffer() }
 
-    try {
-      // stdout is always a function that returns a promise
-      if (typeof result.stdout === 'function') {
-        stdout = await result.stdout()
-        // Process the complete output for JSON lines
-        if (options.onJsonLine) {
-          const lines = stdout.split('\n')
-          for (const line of lines) {
-            const trimmedLine = line.trim()
-            if (trimmedLine) {
-              try {
-                const jsonData = JSON.parse(trimmedLine)
-                options.onJsonLine(jsonData)
-              } catch {
-                // Not valid JSON, ignore
-              }
-            }
-          }
+    const emit = async (stream: 'stdout' | 'stderr', lines: string[]) => {
+      for (const line of lines) {
+        // Redact whole lines so a secret split across chunks is still caught
+        const redacted = redactSensitiveInfo(line)
+
+        if (stream === 'stderr') {
+          await options.onStderr?.(redacted)
+          continue
         }
-        if (options.onStdout) {
-          options.onStdout(stdout)
+
+        await options.onStdout?.(redacted)
+        if (options.onJsonLine && line.trim()) {
+          let jsonData: unknown
+          try {
+            jsonData = JSON.parse(line.trim())
+          } catch {
+            // Not valid JSON, ignore
+            continue
+          }
+          await options.onJsonLine(jsonData)
         }
       }
-    } catch {
-      // Failed to read stdout
     }
 
     try {
-      // stderr is always a function that returns a promise
-      if (typeof result.stderr === 'function') {
-        stderr = await result.stderr()
-        if (options.onStderr) {
-          options.onStderr(stderr)
+      for await (const log of running.logs({ signal: options.signal })) {
+        if (log.stream === 'stdout') {
+          stdout += log.data
+        } else {
+          stderr += log.data
         }
+        await emit(log.stream, buffers[log.stream].push(log.data))
       }
     } catch {
-      // Failed to read stderr
+      // Log stream interrupted or aborted
     }
 
-    const fullCommand = args.length > 0 ? `${command} ${args.join(' ')}` : command
+    await emit('stdout', buffers.stdout.flush())
+    await emit('stderr', buffers.stderr.flush())
+
+    if (options.signal?.aborted) {
+      try {
+        await running.kill()
+      } catch {
+        // Command already exited
+      }
+      return { success: false, output: stdout, error: stderr, command: fullCommand }
+    }
+
+    const result = await running.wait()
 
     return {
       success: result.exitCode === 0,
@@ -121,11 +245,23 @@ export async function runStreamingCommandInSandbox(
     }
   } catch (error: unknown) {
     const errorMessage = error instanceof Error ? error.message : 'Failed to run streaming command in sandbox'
-    const fullCommand = args.length > 0 ? `${command} ${args.join(' ')}` : command
     return {
       success: false,
+      output: stdout,
       error: errorMessage,
       command: fullCommand,
     }
   }
 }
+
+/**
+ * Streaming options that write each non-empty line of output to the task logs as it arrives
+ */
+export function streamToLogger(logger: TaskLogger): StreamingCommandOptions {
+  const log = async (line: string) => {
+    if (line.trim()) {
+      await logger.info(line)
+    }
+  }
+  return { onStdout: log, onStderr: log }
+}
@@ -1,22 +1,17 @@
-export function validateEnvironmentVariables(selectedAgent: string = 'claude') {
-  const errors: string[] = []
-
-  // Check for required environment variables based on selected agent
-  if (selectedAgent === 'claude' && !process.env.ANTHROPIC_API_KEY) {
-    errors.push('ANTHROPIC_API_KEY is required for Claude CLI')
-  }
+import { findMissingEnv, getAgentDefinition } from './agents/definitions'
+import { AgentCredentials } from '@/lib/keys/providers'
+import { findGitProvider } from '@/lib/git-providers'
 
-  if (selectedAgent === 'cursor' && !process.env.CURSOR_API_KEY) {
-    errors.push('CURSOR_API_KEY is required for Cursor CLI')
-  }
-
-  if (selectedAgent === 'codex' && !process.env.OPENAI_API_KEY) {
-    errors.push('OPENAI_API_KEY is required for Codex CLI')
-  }
+// Without a selected agent only the sandbox settings are checked; the agent may come from the repository's config
+export function validateEnvironmentVariables(selectedAgent?: string, credentials: AgentCredentials = process.env) {
+  const errors: string[] = []
 
-  // Check for GitHub token for private repositories
-  if (!process.env.GITHUB_TOKEN) {
-    errors.push('GITHUB_TOKEN is required for repository access')
+  // Check for the agent's API keys, either stored by the user or set on the server
+  if (selectedAgent) {
+    const agentLabel = getAgentDefinition(selectedAgent)?.label || selectedAgent
+    for (const missing of findMissingEnv(selectedAgent, credentials)) {
+      errors.push(`${missing} is required for ${agentLabel} CLI`)
+    }
   }
 
   // Check for Vercel sandbox environment variables
@@ -38,19 +33,24 @@ export function validateEnvironmentVariables(selectedAgent: string = 'claude') {
   }
 }
 
-export function createAuthenticatedRepoUrl(repoUrl: string): string {
-  if (!process.env.GITHUB_TOKEN) {
+// Vercel credentials for creating sandboxes and reconnecting to them by ID
+export function getSandboxCredentials() {
+  return {
+    teamId: process.env.VERCEL_TEAM_ID!,
+    projectId: process.env.VERCEL_PROJECT_ID!,
+    token: process.env.VERCEL_TOKEN!,
+  }
+}
+
+export function createAuthenticatedRepoUrl(repoUrl: string, gitToken: string): string {
+  if (!gitToken) {
     return repoUrl
   }
 
   try {
-    const url = new URL(repoUrl)
-    if (url.hostname === 'github.com') {
-      // Add GitHub token for authentication
-      url.username = process.env.GITHUB_TOKEN
-      url.password = 'x-oauth-basic'
-    }
-    return url.toString()
+    // Unknown hosts are cloned without credentials
+    const provider = findGitProvider(repoUrl)
+    return provider ? provider.authenticatedRepoUrl(repoUrl, gitToken) : repoUrl
   } catch {
     // Failed to parse repository URL
     return repoUrl
@@ -0,0 +1,54 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { Sandbox } from '@vercel/sandbox'
+import { TaskLogger } from '@/lib/utils/task-logger'
+import { PhaseTimeoutError, TimeBudget } from '@/lib/utils/time-budget'
+import { createSandbox } from './creation'
+import { shutdownSandbox } from './git'
+import { registerSandbox } from './sandbox-registry'
+
+vi.mock('@/lib/db/client', () => ({ db: {} }))
+vi.mock('@vercel/sandbox', () => ({ Sandbox: { create: vi.fn() } }))
+vi.mock('./git', () => ({ shutdownSandbox: vi.fn() }))
+vi.mock('./sandbox-registry', () => ({ registerSandbox: vi.fn() }))
+
+const logger = { info: async () => {}, error: async () => {} } as unknown as TaskLogger
+
+describe('createSandbox', () => {
+  beforeEach(() => {
+    vi.stubEnv('VERCEL_TEAM_ID', 'team')
+    vi.stubEnv('VERCEL_PROJECT_ID', 'project')
+    vi.stubEnv('VERCEL_TOKEN', 'token')
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+    vi.clearAllMocks()
+  })
+
+  it('stops a sandbox that starts after the sandbox phase ran out', async () => {
+    const lateSandbox = { sandboxId: 'sbx_late' } as Sandbox
+    let started = false
+    vi.mocked(Sandbox.create).mockImplementation(
+      () =>
+        new Promise((resolve) =>
+          setTimeout(() => {
+            started = true
+            resolve(lateSandbox)
+          }, 200),
+        ),
+    )
+
+    // A budget of a few milliseconds, so the phase runs out long before the sandbox starts
+    const timeBudget = new TimeBudget(0.001)
+    const result = createSandbox(
+      { taskId: 'task', repoUrl: 'https://github.com/o/r', gitToken: '', timeBudget },
+      logger,
+    )
+
+    await expect(result).rejects.toBeInstanceOf(PhaseTimeoutError)
+    expect(started).toBe(false)
+
+    await vi.waitFor(() => expect(shutdownSandbox).toHaveBeenCalledWith(lateSandbox), { timeout: 1000 })
+    expect(registerSandbox).not.toHaveBeenCalled()
+  })
+})
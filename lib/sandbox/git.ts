@@ -1,13 +1,47 @@
 import { Sandbox } from '@vercel/sandbox'
 import { runCommandInSandbox } from './commands'
+import { markSandboxStopped } from './sandbox-registry'
 import { TaskLogger } from '@/lib/utils/task-logger'
+import { DiffArtifact } from '@/lib/db/schema'
+
+// Largest patch kept as an artifact; bigger diffs are cut off at a line boundary
+const MAX_PATCH_BYTES = 1024 * 1024
+
+/**
+ * Capture the staged changes as a stat summary and unified diff against HEAD,
+ * which is the commit the run started from
+ */
+export async function captureStagedDiff(sandbox: Sandbox): Promise<DiffArtifact | undefined> {
+  const [headResult, statResult, patchResult] = await Promise.all([
+    runCommandInSandbox(sandbox, 'git', ['rev-parse', 'HEAD']),
+    runCommandInSandbox(sandbox, 'git', ['diff', '--cached', '--stat']),
+    runCommandInSandbox(sandbox, 'git', ['diff', '--cached', '--no-color', '--no-ext-diff']),
+  ])
+
+  if (!headResult.success || !statResult.success || !patchResult.success) {
+    return undefined
+  }
+
+  let patch = patchResult.output || ''
+  const truncated = patch.length > MAX_PATCH_BYTES
+  if (truncated) {
+    patch = patch.substring(0, patch.lastIndexOf('\n', MAX_PATCH_BYTES) + 1)
+  }
+
+  return {
+    baseCommit: (headResult.output || '').trim(),
+    stat: (statResult.output || '').trimEnd(),
+    patch,
+    truncated,
+  }
+}
 
 export async function pushChangesToBranch(
   sandbox: Sandbox,
   branchName: string,
   commitMessage: string,
   logger: TaskLogger,
-): Promise<{ success: boolean; pushFailed?: boolean }> {
+): Promise<{ success: boolean; pushed?: boolean; pushFailed?: boolean; diff?: DiffArtifact }> {
   try {
     // Check if there are any changes to commit
     const statusResult = await runCommandInSandbox(sandbox, 'git', ['status', '--porcelain'])
@@ -26,6 +60,14 @@ export async function pushChangesToBranch(
       return { success: false }
     }
 
+    // Record what the agent changed before it is folded into a commit
+    const diff = await captureStagedDiff(sandbox)
+    if (diff) {
+      await logger.info(diff.stat)
+    } else {
+      await logger.info('Failed to capture the diff of the changes')
+    }
+
     // Commit changes
     const commitResult = await runCommandInSandbox(sandbox, 'git', ['commit', '-m', commitMessage])
 
@@ -41,7 +83,7 @@ export async function pushChangesToBranch(
 
     if (pushResult.success) {
       await logger.info(`Successfully pushed changes to branch: ${branchName}`)
-      return { success: true }
+      return { success: true, pushed: true, diff }
     } else {
       const errorMsg = pushResult.error || 'Unknown error'
       await logger.info(`Failed to push to branch ${branchName}: ${errorMsg}`)
@@ -55,7 +97,7 @@ export async function pushChangesToBranch(
       }
 
       // Still return success since the work was completed, just couldn't push
-      return { success: true, pushFailed: true }
+      return { success: true, pushFailed: true, diff }
     }
   } catch (error: unknown) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred'
@@ -81,9 +123,10 @@ export async function shutdownSandbox(sandbox?: Sandbox): Promise<{ success: boo
       }
     }
 
-    // Note: Vercel Sandbox automatically shuts down after timeout
-    // No explicit shutdown method available in current SDK
-    // The sandbox will be garbage collected and shut down automatically
+    if (sandbox) {
+      await sandbox.stop()
+      await markSandboxStopped(sandbox.sandboxId)
+    }
     return { success: true }
   } catch (error: unknown) {
     const errorMessage = error instanceof Error ? error.message : 'Failed to shutdown sandbox'
@@ -1,26 +1,31 @@
 import { Sandbox } from '@vercel/sandbox'
 import { runCommandInSandbox } from './commands'
 import { TaskLogger } from '@/lib/utils/task-logger'
+import { formatDuration } from '@/lib/utils/time-budget'
 
 // Type for timeout results
 export type TimeoutResult = { success: false; error: string; timedOut: true }
 
-// Helper function to detect package manager based on lock files
-export async function detectPackageManager(sandbox: Sandbox, logger: TaskLogger): Promise<'pnpm' | 'yarn' | 'npm'> {
+// Helper function to detect package manager based on lock files, in cwd or the repository root
+export async function detectPackageManager(
+  sandbox: Sandbox,
+  logger: TaskLogger,
+  cwd?: string,
+): Promise<'pnpm' | 'yarn' | 'npm'> {
   // Check for lock files in order of preference
-  const pnpmLockCheck = await runCommandInSandbox(sandbox, 'test', ['-f', 'pnpm-lock.yaml'])
+  const pnpmLockCheck = await runCommandInSandbox(sandbox, 'test', ['-f', 'pnpm-lock.yaml'], { cwd })
   if (pnpmLockCheck.success) {
     await logger.info('Detected pnpm (pnpm-lock.yaml found)')
     return 'pnpm'
   }
 
-  const yarnLockCheck = await runCommandInSandbox(sandbox, 'test', ['-f', 'yarn.lock'])
+  const yarnLockCheck = await runCommandInSandbox(sandbox, 'test', ['-f', 'yarn.lock'], { cwd })
   if (yarnLockCheck.success) {
     await logger.info('Detected yarn (yarn.lock found)')
     return 'yarn'
   }
 
-  const npmLockCheck = await runCommandInSandbox(sandbox, 'test', ['-f', 'package-lock.json'])
+  const npmLockCheck = await runCommandInSandbox(sandbox, 'test', ['-f', 'package-lock.json'], { cwd })
   if (npmLockCheck.success) {
     await logger.info('Detected npm (package-lock.json found)')
     return 'npm'
@@ -31,14 +36,17 @@ export async function detectPackageManager(sandbox: Sandbox, logger: TaskLogger)
   return 'npm'
 }
 
-// Helper function to install dependencies with the appropriate package manager
+// Helper function to install dependencies with the appropriate package manager. With a workspace
+// package name, only that package and the packages it depends on are installed (yarn 2 or later).
 export async function installDependencies(
   sandbox: Sandbox,
   packageManager: 'pnpm' | 'yarn' | 'npm',
   logger: TaskLogger,
+  timeoutMs: number = 3 * 60 * 1000,
+  cwd?: string,
+  workspacePackage?: string,
 ): Promise<{ success: boolean; error?: string }> {
-  const timeoutMinutes = 3
-  const timeoutMs = timeoutMinutes * 60 * 1000
+  const timeoutLabel = formatDuration(timeoutMs)
 
   let installCommand: string[]
   let logMessage: string
@@ -54,27 +62,36 @@ export async function installDependencies(
       }
 
       installCommand = ['pnpm', 'install', '--frozen-lockfile']
-      logMessage = `Attempting pnpm install with ${timeoutMinutes}-minute timeout using /tmp/pnpm-store...`
+      if (workspacePackage) {
+        // The trailing ... selects the package's workspace dependencies too
+        installCommand.push('--filter', `${workspacePackage}...`)
+      }
+      logMessage = `Attempting pnpm install with ${timeoutLabel} timeout using /tmp/pnpm-store...`
       break
     case 'yarn':
-      installCommand = ['yarn', 'install', '--frozen-lockfile']
-      logMessage = `Attempting yarn install with ${timeoutMinutes}-minute timeout...`
+      installCommand = workspacePackage
+        ? ['yarn', 'workspaces', 'focus', workspacePackage]
+        : ['yarn', 'install', '--frozen-lockfile']
+      logMessage = `Attempting yarn install with ${timeoutLabel} timeout...`
       break
     case 'npm':
       installCommand = ['npm', 'install', '--no-audit', '--no-fund']
-      logMessage = `Attempting npm install with ${timeoutMinutes}-minute timeout...`
+      if (workspacePackage) {
+        installCommand.push('--workspace', workspacePackage, '--include-workspace-root')
+      }
+      logMessage = `Attempting npm install with ${timeoutLabel} timeout...`
       break
   }
 
   await logger.info(logMessage)
 
   const installWithTimeout = await Promise.race([
-    runCommandInSandbox(sandbox, installCommand[0], installCommand.slice(1)),
+    runCommandInSandbox(sandbox, installCommand[0], installCommand.slice(1), { cwd }),
     new Promise<TimeoutResult>((resolve) => {
       global.setTimeout(() => {
         resolve({
           success: false,
-          error: `${packageManager} install timed out after ${timeoutMinutes} minutes`,
+          error: `${packageManager} install timed out after ${timeoutLabel}`,
           timedOut: true,
         })
       }, timeoutMs)
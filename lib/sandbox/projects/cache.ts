@@ -0,0 +1,141 @@
+import { createHash } from 'crypto'
+import { Readable } from 'stream'
+import { Sandbox } from '@vercel/sandbox'
+import { BlobStore } from '@/lib/blob-store'
+import { TaskLogger } from '@/lib/utils/task-logger'
+import { formatDuration } from '@/lib/utils/time-budget'
+import { runCommandInSandbox } from '../commands'
+import { DetectedProject } from '../types'
+import { PROJECT_LANGUAGE_LABELS } from './definitions'
+import { getProjectDetector } from './registry'
+import { getProjectPath } from './index'
+
+// Bumped when the archive layout changes, so old archives are never restored
+const KEY_PREFIX = 'dependency-cache/v1'
+// Restores read the whole archive into memory, so larger ones are not saved
+const MAX_ARCHIVE_BYTES = 512 * 1024 * 1024
+const ARCHIVE_PATH = '/tmp/dependency-cache.tar.gz'
+
+// Hashes the lock files given as positional parameters; missing ones are skipped
+const HASH_LOCK_FILES_SCRIPT = 'sha256sum -- "$@" 2>/dev/null'
+
+const sha256 = (value: string) => createHash('sha256').update(value).digest('hex')
+
+function formatSize(bytes: number): string {
+  return bytes < 1024 * 1024 ? `${Math.ceil(bytes / 1024)} KB` : `${Math.round(bytes / (1024 * 1024))} MB`
+}
+
+function describe(project: DetectedProject): string {
+  return `${PROJECT_LANGUAGE_LABELS[project.language]} dependencies in ${project.directory}`
+}
+
+/**
+ * Key of a project's cached dependencies: the repository, runtime, project and the contents of its
+ * lock files, so any change to the locked dependencies misses. Null when the project has no lock file.
+ * The scope sets apart installs narrowed to a workspace package.
+ */
+export async function getDependencyCacheKey(
+  sandbox: Sandbox,
+  repoUrl: string,
+  runtime: string,
+  project: DetectedProject,
+  scope?: string,
+): Promise<string | null> {
+  const { lockFiles } = getProjectDetector(project.language)
+  const hashResult = await runCommandInSandbox(sandbox, 'sh', ['-c', HASH_LOCK_FILES_SCRIPT, 'sh', ...lockFiles], {
+    cwd: getProjectPath(project),
+  })
+  const lockHashes = (hashResult.output || '').trim()
+  if (!lockHashes) return null
+
+  const repoHash = sha256(repoUrl.toLowerCase().replace(/\.git$/, '')).slice(0, 16)
+  const projectHash = sha256([runtime, project.language, project.directory, scope || '', lockHashes].join('\n'))
+  return `${KEY_PREFIX}/${repoHash}/${project.language}-${projectHash.slice(0, 32)}.tar.gz`
+}
+
+// Restore a project's cached dependencies into the sandbox. Returns whether the cache had them.
+export async function restoreDependencyCache(
+  sandbox: Sandbox,
+  store: BlobStore,
+  key: string,
+  project: DetectedProject,
+  logger: TaskLogger,
+): Promise<boolean> {
+  const startedAt = Date.now()
+  try {
+    const archive = await store.get(key)
+    if (!archive) {
+      await logger.info(`Dependency cache miss for ${describe(project)}`)
+      return false
+    }
+
+    await sandbox.writeFiles([{ path: ARCHIVE_PATH, content: archive }])
+    const extract = await runCommandInSandbox(sandbox, 'tar', ['-xzf', ARCHIVE_PATH, '-C', '/'])
+    await runCommandInSandbox(sandbox, 'rm', ['-f', ARCHIVE_PATH])
+    if (!extract.success) {
+      await logger.info(`Could not unpack the cached ${describe(project)}, installing from scratch`)
+      return false
+    }
+
+    await logger.info(
+      `Dependency cache hit for ${describe(project)}, restored ${formatSize(archive.length)} in ${formatDuration(Date.now() - startedAt)}`,
+    )
+    return true
+  } catch (error) {
+    console.error('Error restoring dependency cache:', error)
+    await logger.info(`Could not read the dependency cache from ${store.name}, installing from scratch`)
+    return false
+  }
+}
+
+// Archive the project's installed dependencies and tool caches and save them under the key
+export async function saveDependencyCache(
+  sandbox: Sandbox,
+  store: BlobStore,
+  key: string,
+  project: DetectedProject,
+  logger: TaskLogger,
+): Promise<void> {
+  const projectPath = getProjectPath(project)
+  const candidates = getProjectDetector(project.language).cacheDirs.map((dir) =>
+    dir.startsWith('/') ? dir : `${projectPath}/${dir}`,
+  )
+  const dirs: string[] = []
+  for (const dir of candidates) {
+    if ((await runCommandInSandbox(sandbox, 'test', ['-d', dir])).success) dirs.push(dir)
+  }
+  if (dirs.length === 0) return
+
+  try {
+    const archive = await runCommandInSandbox(sandbox, 'tar', [
+      '-czf',
+      ARCHIVE_PATH,
+      '-C',
+      '/',
+      ...dirs.map((dir) => dir.slice(1)),
+    ])
+    if (!archive.success) {
+      await logger.info(`Could not archive ${describe(project)} for the dependency cache`)
+      return
+    }
+
+    const size = Number((await runCommandInSandbox(sandbox, 'stat', ['-c', '%s', ARCHIVE_PATH])).output?.trim())
+    if (Number.isNaN(size)) return
+    if (size > MAX_ARCHIVE_BYTES) {
+      await logger.info(
+        `${describe(project)} are ${formatSize(size)}, over the dependency cache's ${formatSize(MAX_ARCHIVE_BYTES)} limit`,
+      )
+      return
+    }
+
+    const stream = await sandbox.readFile({ path: ARCHIVE_PATH })
+    if (!stream) return
+    await store.put(key, Readable.from(stream))
+    await logger.info(`Saved ${describe(project)} to the dependency cache (${formatSize(size)})`)
+  } catch (error) {
+    console.error('Error saving dependency cache:', error)
+    await logger.info(`Could not save ${describe(project)} to the dependency cache in ${store.name}`)
+  } finally {
+    await runCommandInSandbox(sandbox, 'rm', ['-f', ARCHIVE_PATH])
+  }
+}
@@ -0,0 +1,17 @@
+// Languages whose dependencies are installed while the sandbox is set up.
+// Detectors live in the per-language modules and are registered in ./registry.
+
+// Also the install order when a repository holds several projects
+export const PROJECT_LANGUAGES = ['node', 'python', 'go', 'rust', 'ruby', 'java', 'php'] as const
+
+export type ProjectLanguage = (typeof PROJECT_LANGUAGES)[number]
+
+export const PROJECT_LANGUAGE_LABELS: Record<ProjectLanguage, string> = {
+  node: 'Node.js',
+  python: 'Python',
+  go: 'Go',
+  rust: 'Rust',
+  ruby: 'Ruby',
+  java: 'Java',
+  php: 'PHP',
+}
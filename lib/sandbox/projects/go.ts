@@ -0,0 +1,25 @@
+import { SANDBOX_HOME } from '../commands'
+import { ProjectDetector } from '../types'
+import { ensureToolchain, runProjectCommand } from './toolchain'
+
+const GOPATH = `${SANDBOX_HOME}/go`
+
+export const goDetector: ProjectDetector = {
+  language: 'go',
+  markers: ['go.mod'],
+  lockFiles: ['go.sum'],
+  cacheDirs: [`${GOPATH}/pkg/mod`, `${SANDBOX_HOME}/.cache/go-build`],
+  timeoutMs: 3 * 60 * 1000,
+  env: {
+    GOPATH,
+    GOMODCACHE: `${GOPATH}/pkg/mod`,
+    GOCACHE: `${SANDBOX_HOME}/.cache/go-build`,
+  },
+  pathDirs: [`${GOPATH}/bin`],
+  async install(context) {
+    const toolchain = await ensureToolchain(context, 'go', ['golang'])
+    if (!toolchain.success) return toolchain
+
+    return runProjectCommand(context, 'go', ['mod', 'download'])
+  },
+}
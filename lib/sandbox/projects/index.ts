@@ -0,0 +1,153 @@
+import { Sandbox } from '@vercel/sandbox'
+import { runCommandInSandbox, SANDBOX_WORKDIR } from '../commands'
+import { TimeoutResult } from '../package-manager'
+import { DetectedProject } from '../types'
+import { WorkspacePackage } from './workspaces'
+import { TaskLogger } from '@/lib/utils/task-logger'
+import { formatDuration } from '@/lib/utils/time-budget'
+import { PROJECT_LANGUAGES, PROJECT_LANGUAGE_LABELS } from './definitions'
+import { getProjectDetector, listProjectDetectors } from './registry'
+
+// Dependencies, build output and VCS metadata are never searched for projects
+const IGNORED_DIRS = ['node_modules', 'vendor', '.git', '.venv', 'target', 'dist', 'build', '.next']
+// Deep enough for layouts like services/api/go.mod
+const MAX_DEPTH = 3
+
+export function getProjectPath(project: DetectedProject): string {
+  return project.directory === '.' ? SANDBOX_WORKDIR : `${SANDBOX_WORKDIR}/${project.directory}`
+}
+
+function isAncestor(parent: string, child: string): boolean {
+  return parent !== child && (parent === '.' || child.startsWith(`${parent}/`))
+}
+
+const depth = (directory: string) => (directory === '.' ? 0 : directory.split('/').length)
+
+// find arguments matching any of the names, e.g. ( -name a -o -name b )
+const anyName = (names: string[]) => [
+  '(',
+  ...names.flatMap((name, i) => (i === 0 ? [] : ['-o']).concat('-name', name)),
+  ')',
+]
+
+/**
+ * Find the projects in the repository, including ones in subdirectories of a monorepo. A nested
+ * project is left out when a parent of the same language installs it, as workspace roots do.
+ */
+export async function detectProjects(sandbox: Sandbox, logger: TaskLogger): Promise<DetectedProject[]> {
+  const detectors = listProjectDetectors()
+  const markers = [...new Set(detectors.flatMap((detector) => detector.markers))]
+
+  const findResult = await runCommandInSandbox(sandbox, 'find', [
+    '.',
+    '-maxdepth',
+    String(MAX_DEPTH),
+    ...anyName(IGNORED_DIRS),
+    '-prune',
+    '-o',
+    '-type',
+    'f',
+    ...anyName(markers),
+    '-print',
+  ])
+  if (!findResult.success) {
+    await logger.info('Could not search the repository for projects, skipping dependency installation')
+    return []
+  }
+
+  const files = new Set(
+    (findResult.output || '')
+      .split('\n')
+      .map((line) => line.trim().replace(/^\.\//, ''))
+      .filter(Boolean),
+  )
+  const directories = [...new Set([...files].map((file) => (file.includes('/') ? file.replace(/\/[^/]+$/, '') : '.')))]
+  directories.sort((a, b) => depth(a) - depth(b) || a.localeCompare(b))
+
+  const projects: DetectedProject[] = []
+  for (const language of PROJECT_LANGUAGES) {
+    const detector = getProjectDetector(language)
+    const found: DetectedProject[] = []
+
+    for (const directory of directories) {
+      const marker = detector.markers.find((name) => files.has(directory === '.' ? name : `${directory}/${name}`))
+      if (!marker) continue
+
+      const project = { language, directory, marker }
+      const parent = found.find((candidate) => isAncestor(candidate.directory, directory))
+      if (parent && detector.coversNested && (await detector.coversNested(sandbox, getProjectPath(parent)))) {
+        continue
+      }
+      found.push(project)
+    }
+
+    for (const project of found) {
+      await logger.info(
+        `Detected ${PROJECT_LANGUAGE_LABELS[language]} project in ${project.directory} (${project.marker} found)`,
+      )
+    }
+    projects.push(...found)
+  }
+
+  return projects
+}
+
+/**
+ * Env shared by every command after setup: each detected language's settings, with its
+ * toolchain directories ahead of the sandbox's own PATH
+ */
+export async function getProjectEnv(sandbox: Sandbox, projects: DetectedProject[]): Promise<Record<string, string>> {
+  const detectors = [...new Set(projects.map((project) => getProjectDetector(project.language)))]
+  const env: Record<string, string> = Object.assign({}, ...detectors.map((detector) => detector.env))
+
+  const pathDirs = detectors.flatMap((detector) => detector.pathDirs)
+  if (pathDirs.length > 0) {
+    const pathResult = await runCommandInSandbox(sandbox, 'sh', ['-c', 'printf %s "$PATH"'])
+    const basePath = pathResult.output || '/usr/local/bin:/usr/bin:/bin'
+    env.PATH = [...pathDirs, basePath].join(':')
+  }
+
+  return env
+}
+
+// Helper function to install one project's toolchain and dependencies within its detector's timeout
+export async function installProject(
+  sandbox: Sandbox,
+  project: DetectedProject,
+  logger: TaskLogger,
+  env: Record<string, string>,
+  maxTimeoutMs?: number,
+  // Narrows the install of the repository root's workspace to this package
+  workspacePackage?: WorkspacePackage,
+): Promise<{ success: boolean; error?: string }> {
+  const detector = getProjectDetector(project.language)
+  const timeoutMs = maxTimeoutMs === undefined ? detector.timeoutMs : Math.min(detector.timeoutMs, maxTimeoutMs)
+  const timeoutLabel = formatDuration(timeoutMs)
+  const label = PROJECT_LANGUAGE_LABELS[project.language]
+
+  await logger.info(`Installing ${label} dependencies in ${project.directory} with ${timeoutLabel} timeout...`)
+
+  const result = await Promise.race([
+    detector.install({
+      sandbox,
+      logger,
+      project,
+      cwd: getProjectPath(project),
+      env,
+      timeoutMs,
+      workspacePackage: project.directory === '.' ? workspacePackage : undefined,
+    }),
+    new Promise<TimeoutResult>((resolve) => {
+      global.setTimeout(() => {
+        resolve({ success: false, error: `${label} install timed out after ${timeoutLabel}`, timedOut: true })
+      }, timeoutMs)
+    }),
+  ])
+
+  if (result.success) {
+    await logger.info(`${label} dependencies installed in ${project.directory}`)
+  } else {
+    await logger.error(result.error || `${label} install failed`)
+  }
+  return result
+}
@@ -0,0 +1,48 @@
+import { SANDBOX_HOME } from '../commands'
+import { ProjectDetector } from '../types'
+import { ensureToolchain, fileExists, fileMatches, runProjectCommand } from './toolchain'
+
+const GRADLE_USER_HOME = `${SANDBOX_HOME}/.gradle`
+
+export const javaDetector: ProjectDetector = {
+  language: 'java',
+  markers: ['pom.xml', 'build.gradle', 'build.gradle.kts'],
+  // Maven and Gradle builds rarely lock their dependencies, so the build files stand in
+  lockFiles: ['pom.xml', 'build.gradle', 'build.gradle.kts', 'gradle.lockfile'],
+  cacheDirs: [`${SANDBOX_HOME}/.m2/repository`, `${GRADLE_USER_HOME}/caches`, `${GRADLE_USER_HOME}/wrapper`],
+  timeoutMs: 5 * 60 * 1000,
+  env: { GRADLE_USER_HOME },
+  pathDirs: [],
+  // Multi-module builds resolve every module from the root
+  async coversNested(sandbox, cwd) {
+    return (
+      (await fileMatches(sandbox, `${cwd}/pom.xml`, '<modules>')) ||
+      (await fileExists(sandbox, `${cwd}/settings.gradle`)) ||
+      (await fileExists(sandbox, `${cwd}/settings.gradle.kts`))
+    )
+  },
+  async install(context) {
+    const { sandbox, logger, cwd, project } = context
+    const hasWrapper = (name: string) => fileExists(sandbox, `${cwd}/${name}`)
+
+    const toolchain = await ensureToolchain(context, 'javac', ['java-21-amazon-corretto-devel'])
+    if (!toolchain.success) return toolchain
+
+    if (project.marker === 'pom.xml') {
+      // Prefer the project's Maven wrapper, which pins its Maven version
+      if (await hasWrapper('mvnw')) {
+        return runProjectCommand(context, './mvnw', ['-B', '-q', 'dependency:go-offline'])
+      }
+      const maven = await ensureToolchain(context, 'mvn', ['maven'])
+      if (!maven.success) return maven
+      return runProjectCommand(context, 'mvn', ['-B', '-q', 'dependency:go-offline'])
+    }
+
+    // Gradle is not packaged for the sandbox, so Gradle builds need their wrapper
+    if (!(await hasWrapper('gradlew'))) {
+      await logger.info('No Gradle wrapper (gradlew) found, skipping Java dependencies')
+      return { success: false, error: 'Gradle projects need a gradlew wrapper' }
+    }
+    return runProjectCommand(context, './gradlew', ['--no-daemon', '-q', 'dependencies'])
+  },
+}
@@ -0,0 +1,76 @@
+import { runCommandInSandbox, SANDBOX_HOME } from '../commands'
+import { detectPackageManager, installDependencies } from '../package-manager'
+import { ProjectDetector, ProjectInstallContext } from '../types'
+import { fileExists, fileMatches } from './toolchain'
+
+// pnpm and yarn are installed globally with npm when the sandbox lacks them
+async function ensurePackageManager(context: ProjectInstallContext, packageManager: 'pnpm' | 'yarn') {
+  const { sandbox, logger } = context
+  const check = await runCommandInSandbox(sandbox, 'which', [packageManager])
+  if (check.success) return true
+
+  await logger.info(`Installing ${packageManager} globally...`)
+  const globalInstall = await runCommandInSandbox(sandbox, 'npm', ['install', '-g', packageManager])
+  if (!globalInstall.success) {
+    await logger.error(`Failed to install ${packageManager} globally, falling back to npm`)
+    return false
+  }
+
+  await logger.info(`${packageManager} installed globally`)
+  return true
+}
+
+// `yarn workspaces focus` arrived with yarn 2
+async function supportsWorkspaceFocus({ sandbox, cwd }: ProjectInstallContext): Promise<boolean> {
+  const version = await runCommandInSandbox(sandbox, 'yarn', ['--version'], { cwd })
+  return version.success && parseInt(version.output || '', 10) >= 2
+}
+
+async function installNodeProject(context: ProjectInstallContext): Promise<{ success: boolean; error?: string }> {
+  const { sandbox, logger, cwd, timeoutMs } = context
+  // The npm fallback gets whatever time the first attempt left
+  const deadline = Date.now() + timeoutMs
+  const remainingMs = () => Math.max(0, deadline - Date.now())
+
+  let packageManager = await detectPackageManager(sandbox, logger, cwd)
+  if (packageManager !== 'npm' && !(await ensurePackageManager(context, packageManager))) {
+    packageManager = 'npm'
+  }
+
+  let filter = context.workspacePackage?.name
+  if (filter && packageManager === 'yarn' && !(await supportsWorkspaceFocus(context))) {
+    await logger.info('yarn 1 cannot install a single workspace package, installing all of them')
+    filter = undefined
+  }
+  if (filter) {
+    await logger.info(`Installing only ${filter} and the workspace packages it depends on`)
+  }
+
+  const installResult = await installDependencies(sandbox, packageManager, logger, remainingMs(), cwd, filter)
+
+  // If primary package manager fails, try npm as fallback (unless it was already npm)
+  if (!installResult.success && packageManager !== 'npm') {
+    await logger.info(`${packageManager} failed, trying npm as fallback...`)
+    return installDependencies(sandbox, 'npm', logger, remainingMs(), cwd, context.workspacePackage?.name)
+  }
+
+  return installResult
+}
+
+export const nodeDetector: ProjectDetector = {
+  language: 'node',
+  markers: ['package.json'],
+  lockFiles: ['pnpm-lock.yaml', 'yarn.lock', 'package-lock.json'],
+  cacheDirs: ['node_modules', '/tmp/pnpm-store', `${SANDBOX_HOME}/.npm`, `${SANDBOX_HOME}/.cache/yarn`],
+  timeoutMs: 3 * 60 * 1000,
+  env: {},
+  pathDirs: [],
+  // Installing a workspace root installs every package in it
+  async coversNested(sandbox, cwd) {
+    return (
+      (await fileExists(sandbox, `${cwd}/pnpm-workspace.yaml`)) ||
+      (await fileMatches(sandbox, `${cwd}/package.json`, '"workspaces"[[:space:]]*:'))
+    )
+  },
+  install: installNodeProject,
+}
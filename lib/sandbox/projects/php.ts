@@ -0,0 +1,46 @@
+import { runCommandInSandbox, SANDBOX_HOME } from '../commands'
+import { ProjectDetector } from '../types'
+import { ensureToolchain, runProjectCommand } from './toolchain'
+
+const LOCAL_BIN = `${SANDBOX_HOME}/.local/bin`
+
+export const phpDetector: ProjectDetector = {
+  language: 'php',
+  markers: ['composer.json'],
+  lockFiles: ['composer.lock'],
+  cacheDirs: [`${SANDBOX_HOME}/.cache/composer`],
+  timeoutMs: 3 * 60 * 1000,
+  env: { COMPOSER_CACHE_DIR: `${SANDBOX_HOME}/.cache/composer`, COMPOSER_NO_INTERACTION: '1' },
+  pathDirs: [LOCAL_BIN],
+  async install(context) {
+    const { sandbox, logger, env } = context
+
+    const toolchain = await ensureToolchain(context, 'php', [
+      'php-cli',
+      'php-mbstring',
+      'php-xml',
+      'php-zip',
+      'php-intl',
+      'unzip',
+    ])
+    if (!toolchain.success) return toolchain
+
+    // Composer is not packaged for the sandbox, so it is installed with its official installer
+    const composerCheck = await runCommandInSandbox(sandbox, 'which', ['composer'], { env })
+    if (!composerCheck.success) {
+      await logger.info('Installing composer...')
+      const composerInstall = await runCommandInSandbox(sandbox, 'sh', [
+        '-c',
+        `mkdir -p ${LOCAL_BIN} && cd /tmp && curl -sS https://getcomposer.org/installer -o composer-setup.php && php composer-setup.php --quiet --install-dir=${LOCAL_BIN} --filename=composer && rm -f composer-setup.php`,
+      ])
+      if (!composerInstall.success) {
+        if (composerInstall.error) await logger.error(`composer installer stderr: ${composerInstall.error}`)
+        return { success: false, error: 'Failed to install composer' }
+      }
+      await logger.info('composer installed')
+    }
+
+    const composer = composerCheck.success ? composerCheck.output?.trim() || 'composer' : `${LOCAL_BIN}/composer`
+    return runProjectCommand(context, composer, ['install', '--no-progress', '--prefer-dist'])
+  },
+}
@@ -0,0 +1,142 @@
+import { Sandbox } from '@vercel/sandbox'
+import { runCommandInSandbox, SANDBOX_HOME } from '../commands'
+import { ProjectDetector, ProjectInstallContext } from '../types'
+import { fileExists, fileMatches, runProjectCommand } from './toolchain'
+
+export type PythonTool = 'uv' | 'poetry' | 'pipenv' | 'pip'
+
+export interface PythonTooling {
+  tool: PythonTool
+  // Why the tool was picked, for the task logs
+  reason: string
+  // Whether a lock file pins the dependencies
+  locked: boolean
+  // File pip installs from; the other tools find their own
+  manifest?: 'requirements.txt' | 'pyproject.toml'
+}
+
+// Both live outside the repository so they never end up in the agent's commits.
+// Every Python project in the repository shares the one virtualenv.
+export const PYTHON_VENV_DIR = `${SANDBOX_HOME}/.venv`
+// uv, Poetry and Pipenv get their own virtualenv so `uv sync` and friends never remove them from the project's
+const PYTHON_TOOLS_DIR = `${SANDBOX_HOME}/.python-tools`
+
+// Helper function to detect how a Python project installs its dependencies, mirroring detectPackageManager
+export async function detectPythonTooling(sandbox: Sandbox, cwd: string): Promise<PythonTooling | null> {
+  const has = (file: string) => fileExists(sandbox, `${cwd}/${file}`)
+  const pyprojectHasTable = (table: string) => fileMatches(sandbox, `${cwd}/pyproject.toml`, `^\\[tool\\.${table}`)
+
+  // Lock files say the most about how the project is meant to be installed
+  if (await has('uv.lock')) {
+    return { tool: 'uv', reason: 'uv.lock found', locked: true }
+  }
+  if (await has('poetry.lock')) {
+    return { tool: 'poetry', reason: 'poetry.lock found', locked: true }
+  }
+  if (await has('Pipfile.lock')) {
+    return { tool: 'pipenv', reason: 'Pipfile.lock found', locked: true }
+  }
+  if (await has('Pipfile')) {
+    return { tool: 'pipenv', reason: 'Pipfile found', locked: false }
+  }
+
+  const hasPyproject = await has('pyproject.toml')
+  if (hasPyproject && (await pyprojectHasTable('poetry'))) {
+    return { tool: 'poetry', reason: 'pyproject.toml has a [tool.poetry] table', locked: false }
+  }
+  if (hasPyproject && (await pyprojectHasTable('uv'))) {
+    return { tool: 'uv', reason: 'pyproject.toml has a [tool.uv] table', locked: false }
+  }
+
+  // requirements.txt is preferred over pyproject.toml, which may only hold tool settings
+  if (await has('requirements.txt')) {
+    return { tool: 'pip', reason: 'requirements.txt found', locked: false, manifest: 'requirements.txt' }
+  }
+  if (hasPyproject) {
+    return {
+      tool: 'pip',
+      reason: 'pyproject.toml found without a lock file',
+      locked: false,
+      manifest: 'pyproject.toml',
+    }
+  }
+
+  return null
+}
+
+// Tools run from their virtualenvs by path, so they are found whatever PATH the sandbox starts with
+function getInstallCommand(tooling: PythonTooling): string[] {
+  const tool = `${PYTHON_TOOLS_DIR}/bin/${tooling.tool}`
+  switch (tooling.tool) {
+    case 'uv':
+      return tooling.locked ? [tool, 'sync', '--frozen'] : [tool, 'sync']
+    case 'poetry':
+      return [tool, 'install', '--no-interaction']
+    case 'pipenv':
+      return tooling.locked ? [tool, 'sync', '--dev'] : [tool, 'install', '--dev']
+    case 'pip':
+      return tooling.manifest === 'requirements.txt'
+        ? [`${PYTHON_VENV_DIR}/bin/python`, '-m', 'pip', 'install', '-r', 'requirements.txt']
+        : [`${PYTHON_VENV_DIR}/bin/python`, '-m', 'pip', 'install', '-e', '.']
+  }
+}
+
+// Create the virtualenv, or reuse the one an earlier Python project in the repository created
+async function ensureVirtualenv(sandbox: Sandbox, directory: string): Promise<boolean> {
+  if (await fileExists(sandbox, `${directory}/bin/python`)) return true
+  return (await runCommandInSandbox(sandbox, 'python3', ['-m', 'venv', directory])).success
+}
+
+async function installPythonProject(context: ProjectInstallContext): Promise<{ success: boolean; error?: string }> {
+  const { sandbox, logger, cwd } = context
+
+  const tooling = await detectPythonTooling(sandbox, cwd)
+  if (!tooling) {
+    return { success: false, error: 'No Python dependency manifest found' }
+  }
+  await logger.info(`Using ${tooling.tool} (${tooling.reason})`)
+
+  if (!(await ensureVirtualenv(sandbox, PYTHON_VENV_DIR))) {
+    await logger.error('Failed to create a Python virtualenv')
+    await logger.info('Set runtime: python3.13 in .coding-agent.yml if this runtime has no Python')
+    return { success: false, error: 'Failed to create a Python virtualenv' }
+  }
+  await logger.info(`Using virtualenv at ${PYTHON_VENV_DIR}`)
+
+  if (tooling.tool !== 'pip' && !(await fileExists(sandbox, `${PYTHON_TOOLS_DIR}/bin/${tooling.tool}`))) {
+    await logger.info(`Installing ${tooling.tool}...`)
+    const toolInstall = (await ensureVirtualenv(sandbox, PYTHON_TOOLS_DIR))
+      ? await runCommandInSandbox(sandbox, `${PYTHON_TOOLS_DIR}/bin/pip`, ['install', '--quiet', tooling.tool])
+      : { success: false, error: 'Failed to create a virtualenv for Python tools' }
+    if (!toolInstall.success) {
+      await logger.error(`Failed to install ${tooling.tool}`)
+      if (toolInstall.error) await logger.error(`${tooling.tool} stderr: ${toolInstall.error}`)
+      // The virtualenv still works, so the agent can install what it needs itself
+      return { success: false, error: `Failed to install ${tooling.tool}` }
+    }
+    await logger.info(`${tooling.tool} installed`)
+  }
+
+  const [command, ...args] = getInstallCommand(tooling)
+  return runProjectCommand(context, command, args)
+}
+
+/**
+ * uv, Poetry and Pipenv all install into the active virtualenv given this env, and it is first
+ * on PATH, so the agent and the checks see the same packages.
+ */
+export const pythonDetector: ProjectDetector = {
+  language: 'python',
+  markers: ['pyproject.toml', 'requirements.txt', 'Pipfile'],
+  lockFiles: ['uv.lock', 'poetry.lock', 'Pipfile.lock', 'requirements.txt'],
+  cacheDirs: [`${SANDBOX_HOME}/.cache/pip`, `${SANDBOX_HOME}/.cache/uv`, `${SANDBOX_HOME}/.cache/pypoetry`],
+  timeoutMs: 3 * 60 * 1000,
+  env: {
+    VIRTUAL_ENV: PYTHON_VENV_DIR,
+    UV_PROJECT_ENVIRONMENT: PYTHON_VENV_DIR,
+    POETRY_VIRTUALENVS_CREATE: 'false',
+    PIP_DISABLE_PIP_VERSION_CHECK: '1',
+  },
+  pathDirs: [`${PYTHON_VENV_DIR}/bin`, `${PYTHON_TOOLS_DIR}/bin`],
+  install: installPythonProject,
+}
@@ -0,0 +1,28 @@
+import { ProjectDetector } from '../types'
+import { ProjectLanguage } from './definitions'
+import { nodeDetector } from './node'
+import { pythonDetector } from './python'
+import { goDetector } from './go'
+import { rustDetector } from './rust'
+import { rubyDetector } from './ruby'
+import { javaDetector } from './java'
+import { phpDetector } from './php'
+
+// Every language listed in PROJECT_LANGUAGES must have a detector registered here
+const PROJECT_DETECTORS: Record<ProjectLanguage, ProjectDetector> = {
+  node: nodeDetector,
+  python: pythonDetector,
+  go: goDetector,
+  rust: rustDetector,
+  ruby: rubyDetector,
+  java: javaDetector,
+  php: phpDetector,
+}
+
+export function getProjectDetector(language: ProjectLanguage): ProjectDetector {
+  return PROJECT_DETECTORS[language]
+}
+
+export function listProjectDetectors(): ProjectDetector[] {
+  return Object.values(PROJECT_DETECTORS)
+}
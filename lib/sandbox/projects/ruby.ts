@@ -0,0 +1,31 @@
+import { SANDBOX_HOME } from '../commands'
+import { ProjectDetector } from '../types'
+import { ensureToolchain, runProjectCommand } from './toolchain'
+
+const BUNDLE_PATH = `${SANDBOX_HOME}/.bundle`
+
+export const rubyDetector: ProjectDetector = {
+  language: 'ruby',
+  markers: ['Gemfile'],
+  lockFiles: ['Gemfile.lock'],
+  cacheDirs: [BUNDLE_PATH],
+  timeoutMs: 4 * 60 * 1000,
+  // Gems go to BUNDLE_PATH rather than vendor/bundle, which would land in the repository
+  env: { BUNDLE_PATH, BUNDLE_JOBS: '4' },
+  pathDirs: [],
+  async install(context) {
+    // Native extensions need a compiler and the Ruby headers
+    const toolchain = await ensureToolchain(context, 'bundle', [
+      'ruby',
+      'ruby-devel',
+      'rubygem-bundler',
+      'gcc',
+      'gcc-c++',
+      'make',
+      'redhat-rpm-config',
+    ])
+    if (!toolchain.success) return toolchain
+
+    return runProjectCommand(context, 'bundle', ['install'])
+  },
+}
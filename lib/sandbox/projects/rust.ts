@@ -0,0 +1,26 @@
+import { SANDBOX_HOME } from '../commands'
+import { ProjectDetector } from '../types'
+import { ensureToolchain, fileMatches, runProjectCommand } from './toolchain'
+
+const CARGO_HOME = `${SANDBOX_HOME}/.cargo`
+
+export const rustDetector: ProjectDetector = {
+  language: 'rust',
+  markers: ['Cargo.toml'],
+  lockFiles: ['Cargo.lock'],
+  cacheDirs: [`${CARGO_HOME}/registry`, `${CARGO_HOME}/git`],
+  timeoutMs: 5 * 60 * 1000,
+  env: { CARGO_HOME },
+  pathDirs: [`${CARGO_HOME}/bin`],
+  // Fetching a workspace fetches every member crate
+  async coversNested(sandbox, cwd) {
+    return fileMatches(sandbox, `${cwd}/Cargo.toml`, '^\\[workspace\\]')
+  },
+  async install(context) {
+    const toolchain = await ensureToolchain(context, 'cargo', ['rust', 'cargo'])
+    if (!toolchain.success) return toolchain
+
+    // Downloads crates only; compiling them is left to the checks
+    return runProjectCommand(context, 'cargo', ['fetch'])
+  },
+}
@@ -0,0 +1,59 @@
+import { Sandbox } from '@vercel/sandbox'
+import { runCommandInSandbox } from '../commands'
+import { ProjectInstallContext } from '../types'
+import { redactSensitiveInfo } from '@/lib/utils/logging'
+
+export async function fileExists(sandbox: Sandbox, path: string): Promise<boolean> {
+  return (await runCommandInSandbox(sandbox, 'test', ['-f', path])).success
+}
+
+// Whether a file in the project contains a line matching an extended regular expression
+export async function fileMatches(sandbox: Sandbox, path: string, pattern: string): Promise<boolean> {
+  return (await runCommandInSandbox(sandbox, 'grep', ['-qE', pattern, path])).success
+}
+
+/**
+ * Install a toolchain's system packages unless its command is already available.
+ * Sandboxes run Amazon Linux, so packages come from dnf.
+ */
+export async function ensureToolchain(
+  context: ProjectInstallContext,
+  command: string,
+  packages: string[],
+): Promise<{ success: boolean; error?: string }> {
+  const { sandbox, logger, env } = context
+  const check = await runCommandInSandbox(sandbox, 'which', [command], { env })
+  if (check.success) {
+    return { success: true }
+  }
+
+  await logger.info(`${command} not found, installing ${packages.join(', ')}...`)
+  const result = await runCommandInSandbox(sandbox, 'dnf', ['install', '-y', ...packages], { sudo: true })
+  if (!result.success) {
+    if (result.error) await logger.error(`dnf stderr: ${result.error}`)
+    return { success: false, error: `Failed to install ${packages.join(', ')}` }
+  }
+
+  await logger.info(`${command} installed`)
+  return { success: true }
+}
+
+// Run a command in the project's directory, logging its output when it fails
+export async function runProjectCommand(
+  context: ProjectInstallContext,
+  command: string,
+  args: string[],
+): Promise<{ success: boolean; error?: string }> {
+  const { sandbox, logger, cwd, env } = context
+  await logger.command([command, ...args].join(' '))
+
+  const result = await runCommandInSandbox(sandbox, command, args, { cwd, env })
+  if (!result.success) {
+    await logger.error(`${command} exit code: ${result.exitCode}`)
+    if (result.output) await logger.error(`${command} stdout: ${redactSensitiveInfo(result.output)}`)
+    if (result.error) await logger.error(`${command} stderr: ${redactSensitiveInfo(result.error)}`)
+    return { success: false, error: `${command} ${args.join(' ')} failed` }
+  }
+
+  return { success: true }
+}
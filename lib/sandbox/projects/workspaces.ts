@@ -0,0 +1,173 @@
+import { Sandbox } from '@vercel/sandbox'
+import { parse as parseYaml } from 'yaml'
+import { runCommandInSandbox, SANDBOX_WORKDIR } from '../commands'
+import { detectPackageManager } from '../package-manager'
+import { TaskLogger } from '@/lib/utils/task-logger'
+import { fileExists } from './toolchain'
+
+export interface WorkspacePackage {
+  name: string
+  // Relative to the repository root
+  directory: string
+}
+
+export interface Workspace {
+  // Package manager that installs the workspace
+  tool: 'pnpm' | 'yarn' | 'npm'
+  // Turborepo runs tasks on top of the package manager's workspaces
+  turborepo: boolean
+  packages: WorkspacePackage[]
+}
+
+// Deep enough for globs like packages/*/* in nested layouts
+const MAX_PACKAGE_DEPTH = 4
+
+async function readFile(sandbox: Sandbox, path: string): Promise<string | null> {
+  const result = await runCommandInSandbox(sandbox, 'cat', [path])
+  return result.success ? result.output || '' : null
+}
+
+// Package globs from pnpm-workspace.yaml, or the workspaces field npm and yarn read from package.json
+async function readWorkspaceGlobs(sandbox: Sandbox): Promise<{ globs: string[]; pnpm: boolean } | null> {
+  const pnpmWorkspace = await readFile(sandbox, 'pnpm-workspace.yaml')
+  if (pnpmWorkspace !== null) {
+    try {
+      const packages = parseYaml(pnpmWorkspace)?.packages
+      return { globs: Array.isArray(packages) ? packages.map(String) : [], pnpm: true }
+    } catch {
+      return null
+    }
+  }
+
+  const packageJson = await readFile(sandbox, 'package.json')
+  if (packageJson === null) return null
+  try {
+    const workspaces = JSON.parse(packageJson).workspaces
+    // Yarn also accepts { packages: [...] }
+    const globs = Array.isArray(workspaces) ? workspaces : workspaces?.packages
+    return Array.isArray(globs) && globs.length > 0 ? { globs: globs.map(String), pnpm: false } : null
+  } catch {
+    return null
+  }
+}
+
+function globToRegExp(glob: string): RegExp {
+  const pattern = glob
+    .replace(/^\.\//, '')
+    .replace(/\/$/, '')
+    .split('/')
+    .map((segment) => (segment === '**' ? '.*' : segment.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '[^/]*')))
+    .join('/')
+  return new RegExp(`^${pattern}$`)
+}
+
+// Directories matching the globs, with negated globs (!pattern) excluding
+function matchesGlobs(directory: string, globs: string[]): boolean {
+  const included = globs.filter((glob) => !glob.startsWith('!')).map(globToRegExp)
+  const excluded = globs.filter((glob) => glob.startsWith('!')).map((glob) => globToRegExp(glob.slice(1)))
+  return included.some((re) => re.test(directory)) && !excluded.some((re) => re.test(directory))
+}
+
+/**
+ * Find a pnpm, yarn or npm workspace at the repository root and list its packages.
+ * Returns null when the repository is not a workspace.
+ */
+export async function detectWorkspace(sandbox: Sandbox, logger: TaskLogger): Promise<Workspace | null> {
+  const workspaceGlobs = await readWorkspaceGlobs(sandbox)
+  if (!workspaceGlobs) return null
+
+  const findResult = await runCommandInSandbox(sandbox, 'find', [
+    '.',
+    '-mindepth',
+    '2',
+    '-maxdepth',
+    String(MAX_PACKAGE_DEPTH + 1),
+    '-name',
+    'node_modules',
+    '-prune',
+    '-o',
+    '-name',
+    'package.json',
+    '-print',
+  ])
+  const directories = (findResult.output || '')
+    .split('\n')
+    .map((line) =>
+      line
+        .trim()
+        .replace(/^\.\//, '')
+        .replace(/\/package\.json$/, ''),
+    )
+    .filter((directory) => directory && matchesGlobs(directory, workspaceGlobs.globs))
+
+  const packages: WorkspacePackage[] = []
+  for (const directory of directories) {
+    const content = await readFile(sandbox, `${directory}/package.json`)
+    try {
+      const name = content ? JSON.parse(content).name : undefined
+      if (typeof name === 'string' && name) packages.push({ name, directory })
+    } catch {
+      await logger.info(`Could not parse ${directory}/package.json, leaving it out of the workspace`)
+    }
+  }
+  packages.sort((a, b) => a.directory.localeCompare(b.directory))
+
+  const tool = workspaceGlobs.pnpm ? 'pnpm' : await detectPackageManager(sandbox, logger)
+  const turborepo = await fileExists(sandbox, `${SANDBOX_WORKDIR}/turbo.json`)
+  await logger.info(
+    `Detected ${tool} workspace${turborepo ? ' with Turborepo' : ''} with ${packages.length} package${packages.length === 1 ? '' : 's'}`,
+  )
+
+  return { tool, turborepo, packages }
+}
+
+// Look a package up by its name (@acme/web) or its directory (apps/web)
+export function findWorkspacePackage(workspace: Workspace, target: string): WorkspacePackage | null {
+  const directory = target.replace(/^\.\//, '').replace(/\/$/, '')
+  return workspace.packages.find((pkg) => pkg.name === target || pkg.directory === directory) || null
+}
+
+// Packages listed in the error when a target package is not found
+const MAX_LISTED_PACKAGES = 20
+
+/**
+ * Resolve the package a task targets. Fails when the repository is not a workspace or has no
+ * such package, rather than quietly working on the whole repository.
+ */
+export async function resolveWorkspacePackage(
+  sandbox: Sandbox,
+  target: string,
+  logger: TaskLogger,
+): Promise<{ success: boolean; workspacePackage?: WorkspacePackage; error?: string }> {
+  const workspace = await detectWorkspace(sandbox, logger)
+  if (!workspace) {
+    return { success: false, error: `Target package ${target} was set, but the repository has no workspaces` }
+  }
+
+  const workspacePackage = findWorkspacePackage(workspace, target)
+  if (!workspacePackage) {
+    const names = workspace.packages.slice(0, MAX_LISTED_PACKAGES).map((pkg) => pkg.name)
+    const more = workspace.packages.length > names.length ? ', ...' : ''
+    return {
+      success: false,
+      error: `Package ${target} not found in the workspace. Packages: ${names.join(', ') || 'none'}${more}`,
+    }
+  }
+
+  await logger.info(`Targeting ${workspacePackage.name} in ${workspacePackage.directory}`)
+  return { success: true, workspacePackage }
+}
+
+export function getWorkspacePackagePath(pkg: WorkspacePackage): string {
+  return `${SANDBOX_WORKDIR}/${pkg.directory}`
+}
+
+// Tells the agent which package the task is about; it already works from that directory
+export function buildWorkspaceInstruction(instruction: string, pkg: WorkspacePackage): string {
+  return [
+    `This task concerns the \`${pkg.name}\` package in \`${pkg.directory}\` of this monorepo, which is your working directory.`,
+    'Keep your changes inside it unless the task needs changes to other packages.',
+    '',
+    instruction,
+  ].join('\n')
+}
@@ -0,0 +1,196 @@
+import { Sandbox } from '@vercel/sandbox'
+import { parse } from 'yaml'
+import { z } from 'zod'
+import { runAndLogCommand, runCommandInSandbox } from './commands'
+import { AGENT_TYPES } from './agents/definitions'
+import { CheckKind } from './checks/definitions'
+import { TaskLogger } from '@/lib/utils/task-logger'
+import { API_KEY_PROVIDERS, AgentCredentials } from '@/lib/keys/providers'
+
+// Looked up in the repository root, first match wins
+export const REPO_CONFIG_FILES = ['.coding-agent.yml', '.coding-agent.yaml'] as const
+
+export const SANDBOX_RUNTIMES = ['node22', 'python3.13'] as const
+
+// Vercel Sandbox limits
+const MAX_SANDBOX_PORTS = 4
+const MAX_SANDBOX_VCPUS = 8
+
+const ENV_VAR_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/
+
+const checkCommand = z.string().min(1).optional()
+
+// Shell commands that replace the detected check of each kind
+const verifyCommandsSchema = z
+  .object({
+    type_check: checkCommand,
+    lint: checkCommand,
+    test: checkCommand,
+    build: checkCommand,
+  } satisfies Record<CheckKind, typeof checkCommand>)
+  .strict()
+
+export const repoConfigSchema = z
+  .object({
+    runtime: z.enum(SANDBOX_RUNTIMES).optional(),
+    ports: z.array(z.number().int().min(1).max(65535)).min(1).max(MAX_SANDBOX_PORTS).optional(),
+    vcpus: z.number().int().min(1).max(MAX_SANDBOX_VCPUS).optional(),
+    // Shell commands run after dependencies are installed, in order
+    setup: z.array(z.string().min(1)).default([]),
+    // Names of env vars handed to setup commands, checks and the agent
+    env: z.array(z.string().regex(ENV_VAR_NAME, 'Env var names may only contain letters, digits and _')).default([]),
+    // Used when the task does not pick an agent itself
+    agent: z.enum(AGENT_TYPES).optional(),
+    model: z.string().min(1).optional(),
+    verify: verifyCommandsSchema.default({}),
+    // Files or directories, relative to the repository root, the agent must leave alone
+    protectedPaths: z.array(z.string().min(1)).default([]),
+    systemPrompt: z.string().min(1).optional(),
+  })
+  .strict()
+
+export type RepoConfig = z.infer<typeof repoConfigSchema>
+
+export const DEFAULT_REPO_CONFIG: RepoConfig = repoConfigSchema.parse({})
+
+export interface RepoConfigResult {
+  success: boolean
+  config: RepoConfig
+  // Which of REPO_CONFIG_FILES was read, if any
+  file?: string
+  error?: string
+}
+
+/**
+ * Read the repository's agent configuration from the cloned working tree.
+ * Repositories without one get the defaults; an invalid file is an error rather than being ignored.
+ */
+export async function loadRepoConfig(sandbox: Sandbox, logger: TaskLogger): Promise<RepoConfigResult> {
+  for (const file of REPO_CONFIG_FILES) {
+    const result = await runCommandInSandbox(sandbox, 'cat', [file])
+    if (!result.success) continue
+
+    let raw: unknown
+    try {
+      raw = parse(result.output || '') ?? {}
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Invalid YAML'
+      return { success: false, config: DEFAULT_REPO_CONFIG, file, error: `Could not parse ${file}: ${message}` }
+    }
+
+    const parsed = repoConfigSchema.safeParse(raw)
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0]
+      const path = issue?.path.length ? `${issue.path.join('.')}: ` : ''
+      return {
+        success: false,
+        config: DEFAULT_REPO_CONFIG,
+        file,
+        error: `Invalid ${file}: ${path}${issue?.message || 'Invalid configuration'}`,
+      }
+    }
+
+    await logger.info(`Loaded repository settings from ${file}`)
+    return { success: true, config: parsed.data, file }
+  }
+
+  return { success: true, config: DEFAULT_REPO_CONFIG }
+}
+
+/**
+ * Values for the env vars the repository asks for. Only the agent API keys and names the server
+ * allows through SANDBOX_ENV_ALLOWLIST are handed out, so a repository cannot read the app's own secrets.
+ */
+export async function resolveRepoEnv(
+  names: string[],
+  credentials: AgentCredentials,
+  logger: TaskLogger,
+): Promise<Record<string, string>> {
+  const allowed = new Set<string>([
+    ...API_KEY_PROVIDERS.filter((provider) => !('gitHost' in provider)).map((provider) => provider.envVar),
+    ...(process.env.SANDBOX_ENV_ALLOWLIST || '')
+      .split(',')
+      .map((name) => name.trim())
+      .filter(Boolean),
+  ])
+
+  const env: Record<string, string> = {}
+  for (const name of names) {
+    if (!allowed.has(name)) {
+      await logger.info(`Skipping env var ${name}: not in SANDBOX_ENV_ALLOWLIST`)
+    } else if (credentials[name]) {
+      env[name] = credentials[name]!
+    } else {
+      await logger.info(`Env var ${name} is not set, skipping it`)
+    }
+  }
+  return env
+}
+
+// Prefix the agent's instruction with the repository's own prompt and the paths it must not change
+export function buildRepoInstruction(instruction: string, config: RepoConfig): string {
+  const sections: string[] = []
+  if (config.systemPrompt) {
+    sections.push(config.systemPrompt.trim())
+  }
+  if (config.protectedPaths.length > 0) {
+    sections.push(
+      ['Do not create, modify or delete these paths:', ...config.protectedPaths.map((path) => `- ${path}`)].join('\n'),
+    )
+  }
+  if (sections.length === 0) return instruction
+
+  return [...sections, '# Task', instruction].join('\n\n')
+}
+
+function normalizeProtectedPath(path: string): string {
+  return path
+    .trim()
+    .replace(/^\.\//, '')
+    .replace(/\/\*\*$/, '')
+    .replace(/\/+$/, '')
+}
+
+export function isProtectedPath(path: string, protectedPaths: string[]): boolean {
+  return protectedPaths.map(normalizeProtectedPath).some((entry) => path === entry || path.startsWith(`${entry}/`))
+}
+
+// Paths in `git status --porcelain` output, with both sides of renames
+function changedPaths(porcelain: string): string[] {
+  return porcelain
+    .split('\n')
+    .filter((line) => line.length > 3)
+    .flatMap((line) => line.slice(3).split(' -> '))
+    .map((path) => path.replace(/^"(.*)"$/, '$1'))
+}
+
+/**
+ * Undo any changes the agent made under the repository's protected paths.
+ * Returns the paths that were restored or removed.
+ */
+export async function revertProtectedChanges(
+  sandbox: Sandbox,
+  protectedPaths: string[],
+  logger: TaskLogger,
+): Promise<string[]> {
+  if (protectedPaths.length === 0) return []
+
+  const status = await runCommandInSandbox(sandbox, 'git', ['status', '--porcelain', '--untracked-files=all'])
+  if (!status.success) return []
+
+  const touched = changedPaths(status.output || '').filter((path) => isProtectedPath(path, protectedPaths))
+  for (const path of touched) {
+    const inHead = await runCommandInSandbox(sandbox, 'git', ['cat-file', '-e', `HEAD:${path}`])
+    if (inHead.success) {
+      await runAndLogCommand(sandbox, 'git', ['restore', '--source=HEAD', '--staged', '--worktree', '--', path], logger)
+    } else {
+      await runCommandInSandbox(sandbox, 'git', ['rm', '-r', '--cached', '--quiet', '--ignore-unmatch', '--', path])
+      await runAndLogCommand(sandbox, 'rm', ['-rf', '--', path], logger)
+    }
+  }
+
+  if (touched.length > 0) {
+    await logger.info(`Reverted changes to protected paths: ${touched.join(', ')}`)
+  }
+  return touched
+}
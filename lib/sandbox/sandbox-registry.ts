@@ -1,51 +1,103 @@
 import { Sandbox } from '@vercel/sandbox'
+import { and, asc, eq, inArray, isNull, or } from 'drizzle-orm'
+import { db } from '@/lib/db/client'
+import { sandboxes, tasks, SandboxRecord, Task } from '@/lib/db/schema'
+import { getSandboxCredentials } from './config'
 
-// Global registry to track active sandboxes by task ID
-const activeSandboxes = new Map<string, Sandbox>()
+// Tasks in these states no longer need their sandbox
+const TERMINAL_TASK_STATUSES: Task['status'][] = ['completed', 'error', 'stopped']
 
-export function registerSandbox(taskId: string, sandbox: Sandbox): void {
-  activeSandboxes.set(taskId, sandbox)
+export interface LiveSandbox extends SandboxRecord {
+  taskStatus: Task['status'] | null
 }
 
-export function unregisterSandbox(taskId: string): void {
-  activeSandboxes.delete(taskId)
+export async function registerSandbox(taskId: string, sandbox: Sandbox): Promise<void> {
+  await db.insert(sandboxes).values({ id: sandbox.sandboxId, taskId, state: 'running' })
 }
 
-export function getSandbox(taskId: string): Sandbox | undefined {
-  return activeSandboxes.get(taskId)
+export async function markSandboxStopped(sandboxId: string): Promise<void> {
+  await db
+    .update(sandboxes)
+    .set({ state: 'stopped', stoppedAt: new Date() })
+    .where(and(eq(sandboxes.id, sandboxId), eq(sandboxes.state, 'running')))
 }
 
-export async function killSandbox(taskId: string): Promise<{ success: boolean; error?: string }> {
-  const sandbox = activeSandboxes.get(taskId)
-
-  if (!sandbox) {
-    // If no sandbox found for this specific task ID, check if there are any active sandboxes
-    // This handles cases like "Try Again" where a new task ID is created but old sandbox is still running
-    if (activeSandboxes.size > 0) {
-      // Kill the first (oldest) active sandbox as a fallback
-      const firstEntry = activeSandboxes.entries().next().value
-      if (firstEntry) {
-        const [oldTaskId] = firstEntry
-        activeSandboxes.delete(oldTaskId)
-        return { success: true, error: `Killed sandbox for task ${oldTaskId} (fallback)` }
-      }
-    }
-    return { success: false, error: 'No active sandbox found for this task' }
-  }
-
+/**
+ * Reconnect to a sandbox by ID and stop it, then record it as stopped.
+ * Sandboxes that already stopped on their own are only recorded.
+ */
+export async function stopSandboxById(sandboxId: string): Promise<{ success: boolean; error?: string }> {
   try {
-    // Remove from registry immediately
-    activeSandboxes.delete(taskId)
-
-    // The sandbox will be automatically destroyed by Vercel's infrastructure
-    // No need to manually kill processes - destroying the sandbox kills everything
+    const sandbox = await Sandbox.get({ sandboxId, ...getSandboxCredentials() })
+    if (sandbox.status === 'pending' || sandbox.status === 'running') {
+      await sandbox.stop()
+    }
+    await markSandboxStopped(sandboxId)
     return { success: true }
   } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : 'Failed to kill sandbox'
+    const errorMessage = error instanceof Error ? error.message : 'Failed to stop sandbox'
     return { success: false, error: errorMessage }
   }
 }
 
-export function getActiveSandboxCount(): number {
-  return activeSandboxes.size
+export async function killSandbox(taskId: string): Promise<{ success: boolean; error?: string }> {
+  const running = await db
+    .select()
+    .from(sandboxes)
+    .where(and(eq(sandboxes.taskId, taskId), eq(sandboxes.state, 'running')))
+
+  if (running.length === 0) {
+    return { success: false, error: 'No active sandbox found for this task' }
+  }
+
+  const errors: string[] = []
+  for (const record of running) {
+    const result = await stopSandboxById(record.id)
+    if (!result.success) {
+      errors.push(`${record.id}: ${result.error}`)
+    }
+  }
+
+  return errors.length > 0 ? { success: false, error: errors.join(', ') } : { success: true }
+}
+
+// Sandboxes recorded as running, with the status of the task that started them
+export async function getLiveSandboxes(): Promise<LiveSandbox[]> {
+  return db
+    .select({
+      id: sandboxes.id,
+      taskId: sandboxes.taskId,
+      state: sandboxes.state,
+      createdAt: sandboxes.createdAt,
+      stoppedAt: sandboxes.stoppedAt,
+      taskStatus: tasks.status,
+    })
+    .from(sandboxes)
+    .leftJoin(tasks, eq(sandboxes.taskId, tasks.id))
+    .where(eq(sandboxes.state, 'running'))
+    .orderBy(asc(sandboxes.createdAt))
+}
+
+/**
+ * Stop every running sandbox whose task has finished or was deleted
+ */
+export async function reapSandboxes(): Promise<{ reaped: string[]; failed: { id: string; error?: string }[] }> {
+  const orphaned = await db
+    .select({ id: sandboxes.id })
+    .from(sandboxes)
+    .leftJoin(tasks, eq(sandboxes.taskId, tasks.id))
+    .where(and(eq(sandboxes.state, 'running'), or(isNull(tasks.id), inArray(tasks.status, TERMINAL_TASK_STATUSES))))
+
+  const reaped: string[] = []
+  const failed: { id: string; error?: string }[] = []
+  for (const { id } of orphaned) {
+    const result = await stopSandboxById(id)
+    if (result.success) {
+      reaped.push(id)
+    } else {
+      failed.push({ id, error: result.error })
+    }
+  }
+
+  return { reaped, failed }
 }
@@ -1,5 +1,14 @@
 import { Sandbox } from '@vercel/sandbox'
-import { LogEntry } from '@/lib/db/schema'
+import { AgentEvent, LogEntry } from '@/lib/db/schema'
+import { TaskLogger } from '@/lib/utils/task-logger'
+import { TimeBudget } from '@/lib/utils/time-budget'
+import { CommandResult, StreamingCommandOptions } from './commands'
+import { AgentType } from './agents/definitions'
+import { AgentFailureKind } from './agents/failures'
+import { AgentCredentials } from '@/lib/keys/providers'
+import { RepoConfig } from './repo-config'
+import { ProjectLanguage } from './projects/definitions'
+import { WorkspacePackage } from './projects/workspaces'
 
 export interface SandboxConfig {
   taskId: string
@@ -16,6 +25,14 @@ export interface SandboxConfig {
   installDependencies?: boolean
   preDeterminedBranchName?: string
   existingBranchName?: string
+  baseBranch?: string
+  // Workspace package (name or directory) the task is about, in a monorepo
+  targetPackage?: string
+  // Token of the task's owner on the repository's git host, used for git clone and push
+  gitToken: string
+  // Agent API keys from the user's vault, falling back to the server env
+  credentials?: AgentCredentials
+  timeBudget?: TimeBudget
   onProgress?: (progress: number, message: string) => Promise<void>
   onCancellationCheck?: () => Promise<boolean>
 }
@@ -25,6 +42,12 @@ export interface SandboxResult {
   sandbox?: Sandbox
   domain?: string
   branchName?: string
+  // Settings from the repository's .coding-agent.yml, or the defaults
+  repoConfig?: RepoConfig
+  // Values of the env vars the repository config asked for, plus the detected toolchains' PATH and caches
+  env?: Record<string, string>
+  // The package targetPackage resolved to
+  workspacePackage?: WorkspacePackage
   error?: string
   cancelled?: boolean
 }
@@ -36,6 +59,102 @@ export interface AgentExecutionResult {
   cliName?: string
   changesDetected?: boolean
   error?: string
+  // Set when the run failed, to pick between retrying and falling back to another agent
+  failureKind?: AgentFailureKind
   streamingLogs?: unknown[]
   logs?: LogEntry[]
 }
+
+export interface AgentContext {
+  sandbox: Sandbox
+  logger: TaskLogger
+  instruction: string
+  // Sandbox path holding the instruction, for CLIs that read their prompt from stdin
+  instructionFile: string
+  selectedModel?: string
+  // API keys for the run; adapters read these instead of process.env
+  credentials: AgentCredentials
+  // Streams the agent's output into the task logs, parsing structured events when the adapter supports them
+  output: StreamingCommandOptions
+  // Aborted when the task's phase runs out of time; the agent's command is killed with it
+  signal?: AbortSignal
+}
+
+export interface AgentCommand {
+  cmd: string
+  args: string[]
+  // Secrets go here rather than into args, which show up in process listings and logs
+  env?: Record<string, string>
+  // Directory the agent works from, when not the repository root
+  cwd?: string
+  // Redacted form of the command used for logging
+  display: string
+}
+
+export interface AgentOutput {
+  success: boolean
+  agentResponse?: string
+  error?: string
+}
+
+// Turns one JSON line of agent output into zero or more normalized events
+export type AgentEventParser = (jsonData: unknown) => AgentEvent[]
+
+export interface AgentAdapter {
+  type: AgentType
+  // Human-readable CLI name used in log and error messages
+  cliName: string
+  verify(context: AgentContext): Promise<boolean>
+  install(context: AgentContext): Promise<{ success: boolean; error?: string }>
+  // Optional post-install setup such as writing CLI config files or registering credentials.
+  // Throw to abort the run with the error message.
+  configure?(context: AgentContext): Promise<void>
+  buildCommand(context: AgentContext): Promise<AgentCommand>
+  // Overrides the default blocking execution, e.g. for detached commands or retries
+  run?(context: AgentContext, command: AgentCommand): Promise<CommandResult>
+  parseOutput(result: CommandResult, context: AgentContext): AgentOutput
+  // Creates a parser for the machine-readable event stream requested by buildCommand; called once per run
+  createEventParser?(): AgentEventParser
+}
+
+export interface DetectedProject {
+  language: ProjectLanguage
+  // Relative to the repository root; '.' for the root itself
+  directory: string
+  // File that identified the project, for the task logs
+  marker: string
+}
+
+export interface ProjectInstallContext {
+  sandbox: Sandbox
+  logger: TaskLogger
+  project: DetectedProject
+  // Absolute path of the project's directory
+  cwd: string
+  // The detector's env with every detected toolchain on PATH
+  env: Record<string, string>
+  timeoutMs: number
+  // Package the task targets, when this project is the root of its workspace
+  workspacePackage?: WorkspacePackage
+}
+
+export interface ProjectDetector {
+  language: ProjectLanguage
+  // Files that mark a project's root directory
+  markers: string[]
+  // Files whose contents pin the dependencies; the dependency cache is keyed on them
+  lockFiles: string[]
+  // Where the tools keep downloaded dependencies, saved to the dependency cache. Absolute paths are
+  // outside the repository so they are never committed; relative ones are in the project's directory.
+  cacheDirs: string[]
+  // Longest the install may take; the task's dependencies phase can cut it shorter
+  timeoutMs: number
+  // Env for the install, setup commands, the agent and the checks, such as cache locations
+  env: Record<string, string>
+  // Put ahead of the sandbox's own PATH
+  pathDirs: string[]
+  // Whether installing this project also installs projects of the same language below it, as workspaces do
+  coversNested?(sandbox: Sandbox, cwd: string): Promise<boolean>
+  // Installs the toolchain when the sandbox lacks it, then the project's dependencies
+  install(context: ProjectInstallContext): Promise<{ success: boolean; error?: string }>
+}
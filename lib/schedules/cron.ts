@@ -0,0 +1,29 @@
+import { CronExpressionParser } from 'cron-parser'
+
+// minute, hour, day of month, month and day of week; the parser's optional seconds field is not allowed
+const CRON_FIELD_COUNT = 5
+
+// Why a schedule's cron expression or time zone cannot be used, or null when both are valid
+export function validateCron(cron: string, timezone: string): string | null {
+  if (cron.trim().split(/\s+/).length !== CRON_FIELD_COUNT) {
+    return 'Cron expression must have five fields: minute, hour, day of month, month and day of week'
+  }
+
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone })
+  } catch {
+    return `Unknown time zone: ${timezone}`
+  }
+
+  try {
+    CronExpressionParser.parse(cron, { tz: timezone })
+  } catch (error) {
+    return `Invalid cron expression: ${error instanceof Error ? error.message : cron}`
+  }
+  return null
+}
+
+// The first time after the given one that the cron expression matches in the time zone
+export function getNextRunAt(cron: string, timezone: string, after: Date = new Date()): Date {
+  return CronExpressionParser.parse(cron, { currentDate: after, tz: timezone }).next().toDate()
+}
@@ -0,0 +1,102 @@
+import { and, desc, eq, lte } from 'drizzle-orm'
+import { db } from '@/lib/db/client'
+import { schedules, tasks, Schedule, Task } from '@/lib/db/schema'
+import { createTask } from '@/lib/tasks/create'
+import { isAgentType } from '@/lib/sandbox/agents/definitions'
+import { getNextRunAt } from './cron'
+
+export { getNextRunAt, validateCron } from './cron'
+
+// Runs shown for each schedule, newest first
+const RECENT_RUNS_LIMIT = 10
+
+/**
+ * Load a schedule only if it belongs to the user. Other users' schedules look the same as missing ones.
+ */
+export async function getUserSchedule(scheduleId: string, userId: string): Promise<Schedule | undefined> {
+  const [schedule] = await db
+    .select()
+    .from(schedules)
+    .where(and(eq(schedules.id, scheduleId), eq(schedules.userId, userId)))
+    .limit(1)
+  return schedule
+}
+
+export async function getScheduleRuns(scheduleId: string, limit: number = RECENT_RUNS_LIMIT): Promise<Task[]> {
+  return db.select().from(tasks).where(eq(tasks.scheduleId, scheduleId)).orderBy(desc(tasks.createdAt)).limit(limit)
+}
+
+/**
+ * Start a task for every enabled schedule that is due. A schedule moves on to its next run in the
+ * transaction that claims it, so overlapping ticks never start the same run twice. Runs missed while
+ * no tick happened are not made up: the schedule fires once and moves on. A run that fails to start
+ * is not retried either; its error is recorded on the schedule instead.
+ */
+export async function runDueSchedules(now: Date = new Date()): Promise<{ started: number; failed: number }> {
+  const due = await db.transaction(async (tx) => {
+    const rows = await tx
+      .select()
+      .from(schedules)
+      .where(and(eq(schedules.enabled, true), lte(schedules.nextRunAt, now)))
+      .for('update', { skipLocked: true })
+
+    for (const schedule of rows) {
+      let nextRunAt: Date | null = null
+      try {
+        nextRunAt = getNextRunAt(schedule.cron, schedule.timezone, now)
+      } catch (error) {
+        console.error(`Error computing the next run of schedule ${schedule.id}, disabling it:`, error)
+      }
+
+      await tx
+        .update(schedules)
+        .set(
+          nextRunAt
+            ? { nextRunAt, lastRunAt: now, updatedAt: now }
+            : { enabled: false, lastRunAt: now, updatedAt: now },
+        )
+        .where(eq(schedules.id, schedule.id))
+    }
+    return rows
+  })
+
+  let started = 0
+  let failed = 0
+  for (const schedule of due) {
+    try {
+      // The same path as POST /api/tasks, with the schedule's fixed options
+      await createTask(
+        schedule.userId,
+        {
+          prompt: schedule.prompt,
+          repoUrl: schedule.repoUrl,
+          selectedAgent: isAgentType(schedule.selectedAgent) ? schedule.selectedAgent : undefined,
+          selectedModel: schedule.selectedModel || undefined,
+          installDependencies: schedule.installDependencies,
+          maxDuration: schedule.maxDuration,
+          baseBranch: schedule.baseBranch || undefined,
+          targetPackage: schedule.targetPackage || undefined,
+          maxRepairRounds: schedule.maxRepairRounds,
+        },
+        { scheduleId: schedule.id },
+      )
+      if (schedule.lastError) {
+        await db.update(schedules).set({ lastError: null }).where(eq(schedules.id, schedule.id))
+      }
+      started++
+    } catch (error) {
+      console.error(`Error starting a run of schedule ${schedule.id}:`, error)
+      const lastError = error instanceof Error ? error.message : 'Failed to start the run'
+      await db
+        .update(schedules)
+        .set({ lastError, updatedAt: new Date() })
+        .where(eq(schedules.id, schedule.id))
+        .catch((recordError) =>
+          console.error(`Error recording the failed run of schedule ${schedule.id}:`, recordError),
+        )
+      failed++
+    }
+  }
+
+  return { started, failed }
+}
@@ -0,0 +1,15 @@
+import { and, eq } from 'drizzle-orm'
+import { db } from '@/lib/db/client'
+import { tasks, Task } from '@/lib/db/schema'
+
+/**
+ * Load a task only if it belongs to the user. Other users' tasks look the same as missing ones.
+ */
+export async function getUserTask(taskId: string, userId: string): Promise<Task | undefined> {
+  const [task] = await db
+    .select()
+    .from(tasks)
+    .where(and(eq(tasks.id, taskId), eq(tasks.userId, userId)))
+    .limit(1)
+  return task
+}
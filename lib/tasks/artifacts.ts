@@ -0,0 +1,21 @@
+import { and, asc, eq } from 'drizzle-orm'
+import { db } from '@/lib/db/client'
+import { taskArtifacts, DiffArtifact, TaskArtifact } from '@/lib/db/schema'
+import { generateId } from '@/lib/utils/id'
+
+export async function saveDiffArtifact(taskId: string, diff: DiffArtifact): Promise<TaskArtifact> {
+  const [artifact] = await db
+    .insert(taskArtifacts)
+    .values({ id: generateId(12), taskId, kind: 'diff', data: diff })
+    .returning()
+  return artifact
+}
+
+// Diffs for every run of the task, oldest first
+export async function getDiffArtifacts(taskId: string): Promise<TaskArtifact[]> {
+  return db
+    .select()
+    .from(taskArtifacts)
+    .where(and(eq(taskArtifacts.taskId, taskId), eq(taskArtifacts.kind, 'diff')))
+    .orderBy(asc(taskArtifacts.createdAt))
+}
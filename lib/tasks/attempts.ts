@@ -0,0 +1,35 @@
+import { asc, eq, max } from 'drizzle-orm'
+import { db } from '@/lib/db/client'
+import { taskAttempts, TaskAttempt } from '@/lib/db/schema'
+import { AgentExecutionResult } from '@/lib/sandbox/agents'
+import { generateId } from '@/lib/utils/id'
+
+export async function startTaskAttempt(taskId: string, agent: string, model?: string): Promise<TaskAttempt> {
+  const [latest] = await db
+    .select({ value: max(taskAttempts.attemptNumber) })
+    .from(taskAttempts)
+    .where(eq(taskAttempts.taskId, taskId))
+
+  const [attempt] = await db
+    .insert(taskAttempts)
+    .values({ id: generateId(12), taskId, attemptNumber: (latest?.value ?? 0) + 1, agent, model })
+    .returning()
+  return attempt
+}
+
+export async function finishTaskAttempt(attemptId: string, result: AgentExecutionResult): Promise<void> {
+  await db
+    .update(taskAttempts)
+    .set({
+      status: result.success ? 'succeeded' : 'failed',
+      failureKind: result.success ? null : result.failureKind || 'agent_error',
+      error: result.success ? null : result.error || 'Agent execution failed',
+      finishedAt: new Date(),
+    })
+    .where(eq(taskAttempts.id, attemptId))
+}
+
+// Every attempt of the task, oldest first
+export async function getTaskAttempts(taskId: string): Promise<TaskAttempt[]> {
+  return db.select().from(taskAttempts).where(eq(taskAttempts.taskId, taskId)).orderBy(asc(taskAttempts.attemptNumber))
+}
@@ -0,0 +1,38 @@
+import { asc, eq } from 'drizzle-orm'
+import { db } from '@/lib/db/client'
+import { taskChecks, TaskCheck } from '@/lib/db/schema'
+import { CheckResult } from '@/lib/sandbox/checks'
+import { generateId } from '@/lib/utils/id'
+
+export async function saveCheckResults(taskId: string, round: number, results: CheckResult[]): Promise<void> {
+  if (results.length === 0) return
+
+  await db.insert(taskChecks).values(
+    results.map((result) => ({
+      id: generateId(12),
+      taskId,
+      round,
+      kind: result.kind,
+      command: result.command,
+      source: result.source,
+      status: result.status,
+      exitCode: result.exitCode ?? null,
+      output: result.output || null,
+      durationMs: result.durationMs,
+    })),
+  )
+}
+
+// Every check result of the task, oldest first
+export async function getTaskChecks(taskId: string): Promise<TaskCheck[]> {
+  return db.select().from(taskChecks).where(eq(taskChecks.taskId, taskId)).orderBy(asc(taskChecks.createdAt))
+}
+
+// The most recent result of each kind of check
+export function latestChecks(checks: TaskCheck[]): TaskCheck[] {
+  const byKind = new Map<TaskCheck['kind'], TaskCheck>()
+  for (const check of checks) {
+    byKind.set(check.kind, check)
+  }
+  return [...byKind.values()]
+}
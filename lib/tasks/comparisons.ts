@@ -0,0 +1,115 @@
+import { and, asc, eq } from 'drizzle-orm'
+import { db } from '@/lib/db/client'
+import { tasks, Task } from '@/lib/db/schema'
+import { getDiffArtifacts } from './artifacts'
+import { getTaskChecks, latestChecks } from './checks'
+
+export interface DiffSummary {
+  filesChanged: number
+  insertions: number
+  deletions: number
+}
+
+export interface ChecksSummary {
+  passed: number
+  total: number
+}
+
+// One run of a comparison, with the numbers shown side by side
+export interface ComparisonRun {
+  task: Task
+  durationMs: number | null
+  diff: DiffSummary | null
+  // Null when no checks ran
+  checks: ChecksSummary | null
+}
+
+// Parse the summary line of `git diff --stat`, e.g. "3 files changed, 10 insertions(+), 2 deletions(-)"
+export function summarizeDiffStat(stat: string): DiffSummary {
+  const count = (pattern: RegExp) => parseInt(stat.match(pattern)?.[1] || '0', 10)
+  return {
+    filesChanged: count(/(\d+) files? changed/),
+    insertions: count(/(\d+) insertions?\(\+\)/),
+    deletions: count(/(\d+) deletions?\(-\)/),
+  }
+}
+
+function isFinished(task: Task): boolean {
+  return task.status === 'completed' || task.status === 'error' || task.status === 'stopped'
+}
+
+// Runs only count when they belong to the comparison's owner
+export async function getComparisonTasks(parentTaskId: string, userId: string): Promise<Task[]> {
+  return db
+    .select()
+    .from(tasks)
+    .where(and(eq(tasks.parentTaskId, parentTaskId), eq(tasks.userId, userId)))
+    .orderBy(asc(tasks.createdAt))
+}
+
+export async function getComparisonRuns(parentTaskId: string, userId: string): Promise<ComparisonRun[]> {
+  const runs = await getComparisonTasks(parentTaskId, userId)
+
+  return Promise.all(
+    runs.map(async (task) => {
+      const [diffs, checks] = await Promise.all([getDiffArtifacts(task.id), getTaskChecks(task.id)])
+      const latestDiff = diffs[diffs.length - 1]
+      const latest = latestChecks(checks)
+      const finishedAt = task.completedAt || (isFinished(task) ? task.updatedAt : null)
+
+      return {
+        task,
+        durationMs: finishedAt ? finishedAt.getTime() - task.createdAt.getTime() : null,
+        diff: latestDiff ? summarizeDiffStat(latestDiff.data.stat) : null,
+        checks:
+          latest.length > 0
+            ? { passed: latest.filter((check) => check.status === 'passed').length, total: latest.length }
+            : null,
+      }
+    }),
+  )
+}
+
+// Refresh the comparison a task belongs to, if any, after the task's status changed
+export async function syncComparisonForTask(taskId: string): Promise<void> {
+  const [task] = await db
+    .select({ parentTaskId: tasks.parentTaskId, userId: tasks.userId })
+    .from(tasks)
+    .where(eq(tasks.id, taskId))
+    .limit(1)
+  if (task?.parentTaskId && task.userId) {
+    await syncComparisonStatus(task.parentTaskId, task.userId)
+  }
+}
+
+/**
+ * Roll the runs' statuses up onto the comparison task: it is in progress while any run is,
+ * completed once at least one run succeeded, and errored if none did.
+ */
+export async function syncComparisonStatus(parentTaskId: string, userId: string): Promise<void> {
+  const [parent] = await db
+    .select()
+    .from(tasks)
+    .where(and(eq(tasks.id, parentTaskId), eq(tasks.userId, userId)))
+    .limit(1)
+  // A stopped comparison stays stopped
+  if (!parent || parent.status === 'stopped') return
+
+  const runs = await getComparisonTasks(parentTaskId, userId)
+  const done = runs.filter(isFinished)
+  const succeeded = done.filter((task) => task.status === 'completed')
+
+  const status = done.length < runs.length ? 'processing' : succeeded.length > 0 ? 'completed' : 'error'
+  const now = new Date()
+
+  await db
+    .update(tasks)
+    .set({
+      status,
+      progress: runs.length > 0 ? Math.round((done.length / runs.length) * 100) : 0,
+      error: status === 'error' ? 'Every agent in the comparison failed' : null,
+      completedAt: status === 'processing' ? null : parent.completedAt || now,
+      updatedAt: now,
+    })
+    .where(eq(tasks.id, parentTaskId))
+}
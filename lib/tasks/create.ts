@@ -0,0 +1,184 @@
+import { after } from 'next/server'
+import { eq } from 'drizzle-orm'
+import { z } from 'zod'
+import { db } from '@/lib/db/client'
+import { tasks, insertTaskSchema, Task } from '@/lib/db/schema'
+import { generateId } from '@/lib/utils/id'
+import { createTaskLogger } from '@/lib/utils/task-logger'
+import { generateBranchName, createFallbackBranchName } from '@/lib/utils/branch-name-generator'
+import { enqueueTaskJob, validateTaskDuration } from '@/lib/jobs/queue'
+import { addTaskMessage } from './messages'
+import { findGitProvider, PullRequestInfo } from '@/lib/git-providers'
+
+// The task form's fields. Anything else on a task is set by the server, so unknown keys are rejected.
+export const createTaskInputSchema = insertTaskSchema
+  .pick({
+    // Pre-generated by the client so it can show the task before the response arrives
+    id: true,
+    prompt: true,
+    repoUrl: true,
+    selectedAgent: true,
+    selectedModel: true,
+    installDependencies: true,
+    maxDuration: true,
+    baseBranch: true,
+    targetPackage: true,
+    prDraft: true,
+    prLabels: true,
+    prReviewers: true,
+    fallbackChain: true,
+    maxRepairRounds: true,
+  })
+  .strict()
+
+export type CreateTaskInput = z.input<typeof createTaskInputSchema>
+
+export interface CreateTaskOptions {
+  // Schedule that started the run
+  scheduleId?: string
+  // GitHub issue or pull request the task was started from
+  issueNumber?: number
+  // Branch to work on instead of a new one, e.g. the head branch of the pull request
+  existingBranchName?: string
+  // Pull request the task pushes to instead of opening its own
+  pullRequest?: PullRequestInfo
+}
+
+/**
+ * Create a task from the task form's fields and queue its run. Used by POST /api/tasks, by schedules
+ * and by GitHub webhooks, which pass where the task came from in the options. The caller starts a
+ * worker afterwards.
+ */
+export async function createTask(
+  userId: string,
+  input: CreateTaskInput,
+  options: CreateTaskOptions = {},
+): Promise<Task> {
+  const { scheduleId, issueNumber, existingBranchName, pullRequest } = options
+  const fields = createTaskInputSchema.parse(input)
+  const durationError = validateTaskDuration(fields.maxDuration)
+  if (durationError) {
+    throw new Error(durationError)
+  }
+  // Use provided ID or generate a new one
+  const taskId = fields.id || generateId(12)
+  const validatedData = insertTaskSchema.parse({
+    ...fields,
+    id: taskId,
+    userId,
+    scheduleId,
+    issueNumber,
+    branchName: existingBranchName,
+    prNumber: pullRequest?.number,
+    prUrl: pullRequest?.url,
+    prState: pullRequest?.state,
+    // Worked out from the URL rather than trusted from the client
+    gitProvider: fields.repoUrl ? findGitProvider(fields.repoUrl)?.type : undefined,
+    status: 'pending',
+    progress: 0,
+  })
+
+  // Insert the task into the database - ensure id is definitely present
+  const [newTask] = await db
+    .insert(tasks)
+    .values({
+      ...validatedData,
+      id: taskId, // Ensure id is always present
+    })
+    .returning()
+
+  // Generate AI branch name after response is sent (non-blocking)
+  after(async () => {
+    // Work on an existing branch keeps its name
+    if (existingBranchName) return
+
+    try {
+      // Check if AI Gateway API key is available
+      if (!process.env.AI_GATEWAY_API_KEY) {
+        console.log('AI_GATEWAY_API_KEY not available, skipping AI branch name generation')
+        return
+      }
+
+      const logger = createTaskLogger(taskId)
+      await logger.info('Generating AI-powered branch name...')
+
+      // Extract repository name from URL for context
+      let repoName: string | undefined
+      try {
+        const url = new URL(validatedData.repoUrl || '')
+        const pathParts = url.pathname.split('/')
+        if (pathParts.length >= 3) {
+          repoName = pathParts[pathParts.length - 1].replace('.git', '')
+        }
+      } catch {
+        // Ignore URL parsing errors
+      }
+
+      // Generate AI branch name
+      const aiBranchName = await generateBranchName({
+        description: validatedData.prompt,
+        repoName,
+        context: `${validatedData.selectedAgent || 'coding'} agent task`,
+      })
+
+      // Update task with AI-generated branch name
+      await db
+        .update(tasks)
+        .set({
+          branchName: aiBranchName,
+          updatedAt: new Date(),
+        })
+        .where(eq(tasks.id, taskId))
+
+      await logger.success(`Generated AI branch name: ${aiBranchName}`)
+    } catch (error) {
+      console.error('Error generating AI branch name:', error)
+
+      // Fallback to timestamp-based branch name
+      const fallbackBranchName = createFallbackBranchName(taskId)
+
+      try {
+        await db
+          .update(tasks)
+          .set({
+            branchName: fallbackBranchName,
+            updatedAt: new Date(),
+          })
+          .where(eq(tasks.id, taskId))
+
+        const logger = createTaskLogger(taskId)
+        await logger.info(`Using fallback branch name: ${fallbackBranchName}`)
+      } catch (dbError) {
+        console.error('Error updating task with fallback branch name:', dbError)
+      }
+    }
+  })
+
+  // The original prompt is the first turn of the task conversation
+  await addTaskMessage({
+    taskId,
+    role: 'user',
+    content: validatedData.prompt,
+    selectedAgent: validatedData.selectedAgent,
+    selectedModel: validatedData.selectedModel,
+  })
+
+  // Queue the run durably; the caller starts a worker right away rather than waiting for the cron
+  await enqueueTaskJob({
+    taskId: newTask.id,
+    userId,
+    prompt: validatedData.prompt,
+    repoUrl: validatedData.repoUrl || '',
+    selectedAgent: validatedData.selectedAgent,
+    selectedModel: validatedData.selectedModel,
+    installDependencies: validatedData.installDependencies || false,
+    maxDuration: validatedData.maxDuration || 5,
+    existingBranchName,
+    baseBranch: validatedData.baseBranch,
+    targetPackage: validatedData.targetPackage,
+    fallbackChain: validatedData.fallbackChain,
+    maxRepairRounds: validatedData.maxRepairRounds,
+  })
+
+  return newTask
+}
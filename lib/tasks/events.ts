@@ -0,0 +1,124 @@
+import { count, eq } from 'drizzle-orm'
+import { db } from '@/lib/db/client'
+import { tasks, taskChecks, taskMessages } from '@/lib/db/schema'
+import { getTaskLogs } from './logs'
+import { getTaskMessages } from './messages'
+import { getTaskAttempts } from './attempts'
+import { getTaskChecks } from './checks'
+
+// How often the stream checks for new logs while a task runs, and once it has finished
+const ACTIVE_POLL_INTERVAL_MS = 1000
+const IDLE_POLL_INTERVAL_MS = 5000
+const HEARTBEAT_INTERVAL_MS = 15000
+// Streams close before typical function limits; EventSource reconnects with Last-Event-ID
+const STREAM_LIFETIME_MS = 4 * 60 * 1000
+const RECONNECT_DELAY_MS = 2000
+
+/**
+ * Server-Sent Events stream of a task's progress. Emits:
+ * - `log` for each new log entry, with its seq as the event id
+ * - `task` with the task row whenever it changes
+ * - `messages` with the conversation whenever a turn is added
+ * - `attempts` with the task's agent attempts whenever one starts or finishes
+ * - `checks` with the task's check results whenever new ones are saved
+ */
+export function createTaskEventStream(taskId: string, startCursor: number, signal: AbortSignal) {
+  const encoder = new TextEncoder()
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const write = (chunk: string) => controller.enqueue(encoder.encode(chunk))
+      const send = (event: string, data: unknown, id?: number) => {
+        write(`${id !== undefined ? `id: ${id}\n` : ''}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+      }
+
+      const startedAt = Date.now()
+      let cursor = startCursor
+      let lastSnapshot = ''
+      let lastMessageCount = -1
+      let lastAttempts = ''
+      let lastCheckCount = -1
+      let lastWriteAt = Date.now()
+
+      write(`retry: ${RECONNECT_DELAY_MS}\n\n`)
+
+      try {
+        while (!signal.aborted && Date.now() - startedAt < STREAM_LIFETIME_MS) {
+          const [task] = await db.select().from(tasks).where(eq(tasks.id, taskId)).limit(1)
+
+          if (!task) break
+
+          // Drain every entry past the cursor, a page at a time
+          let hasMore = true
+          while (hasMore && !signal.aborted) {
+            const page = await getTaskLogs(taskId, { after: cursor })
+            for (const entry of page.logs) {
+              cursor = entry.seq ?? cursor
+              send('log', entry, cursor)
+            }
+            if (page.logs.length > 0) lastWriteAt = Date.now()
+            hasMore = page.hasMore
+          }
+
+          const snapshot = JSON.stringify(task)
+          if (snapshot !== lastSnapshot) {
+            lastSnapshot = snapshot
+            send('task', task)
+            lastWriteAt = Date.now()
+          }
+
+          const [{ value: messageCount }] = await db
+            .select({ value: count() })
+            .from(taskMessages)
+            .where(eq(taskMessages.taskId, taskId))
+          if (messageCount !== lastMessageCount) {
+            lastMessageCount = messageCount
+            send('messages', await getTaskMessages(taskId))
+            lastWriteAt = Date.now()
+          }
+
+          const attempts = await getTaskAttempts(taskId)
+          const attemptsSnapshot = JSON.stringify(attempts)
+          if (attemptsSnapshot !== lastAttempts) {
+            lastAttempts = attemptsSnapshot
+            send('attempts', attempts)
+            lastWriteAt = Date.now()
+          }
+
+          // Check results are only ever added, so the count tells when to resend them
+          const [{ value: checkCount }] = await db
+            .select({ value: count() })
+            .from(taskChecks)
+            .where(eq(taskChecks.taskId, taskId))
+          if (checkCount !== lastCheckCount) {
+            lastCheckCount = checkCount
+            send('checks', await getTaskChecks(taskId))
+            lastWriteAt = Date.now()
+          }
+
+          // Comment lines keep proxies from closing an idle connection
+          if (Date.now() - lastWriteAt > HEARTBEAT_INTERVAL_MS) {
+            write(': keep-alive\n\n')
+            lastWriteAt = Date.now()
+          }
+
+          const isActive = task.status === 'pending' || task.status === 'processing'
+          await new Promise((resolve) =>
+            setTimeout(resolve, isActive ? ACTIVE_POLL_INTERVAL_MS : IDLE_POLL_INTERVAL_MS),
+          )
+        }
+      } catch (error) {
+        // Writes fail once the client has gone away, which is expected
+        if (!signal.aborted) {
+          console.error('Error streaming task events:', error)
+        }
+      } finally {
+        try {
+          controller.close()
+        } catch {
+          // Stream already closed by the client
+        }
+      }
+    },
+  })
+}
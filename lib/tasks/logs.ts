@@ -0,0 +1,57 @@
+import { and, asc, desc, eq, gt, lt } from 'drizzle-orm'
+import { db } from '@/lib/db/client'
+import { taskLogs, LogEntry } from '@/lib/db/schema'
+
+export const DEFAULT_LOG_PAGE_SIZE = 500
+export const MAX_LOG_PAGE_SIZE = 2000
+
+export interface TaskLogPageOptions {
+  // Return entries with seq greater than this, oldest first
+  after?: number
+  // Return the entries right before this seq; with neither cursor the latest page is returned
+  before?: number
+  limit?: number
+}
+
+export interface TaskLogPage {
+  logs: LogEntry[]
+  // Whether more entries exist past the page in the direction it was read
+  hasMore: boolean
+}
+
+const logEntryColumns = {
+  seq: taskLogs.seq,
+  type: taskLogs.type,
+  message: taskLogs.message,
+  timestamp: taskLogs.timestamp,
+  phase: taskLogs.phase,
+  agent: taskLogs.agent,
+  event: taskLogs.event,
+}
+
+export async function getTaskLogs(taskId: string, options: TaskLogPageOptions = {}): Promise<TaskLogPage> {
+  const limit = Math.min(Math.max(options.limit || DEFAULT_LOG_PAGE_SIZE, 1), MAX_LOG_PAGE_SIZE)
+
+  if (options.after !== undefined) {
+    const rows = await db
+      .select(logEntryColumns)
+      .from(taskLogs)
+      .where(and(eq(taskLogs.taskId, taskId), gt(taskLogs.seq, options.after)))
+      .orderBy(asc(taskLogs.seq))
+      .limit(limit + 1)
+    return { logs: rows.slice(0, limit), hasMore: rows.length > limit }
+  }
+
+  // Read newest first so the page ends at the cursor, then return it in log order
+  const rows = await db
+    .select(logEntryColumns)
+    .from(taskLogs)
+    .where(
+      options.before !== undefined
+        ? and(eq(taskLogs.taskId, taskId), lt(taskLogs.seq, options.before))
+        : eq(taskLogs.taskId, taskId),
+    )
+    .orderBy(desc(taskLogs.seq))
+    .limit(limit + 1)
+  return { logs: rows.slice(0, limit).reverse(), hasMore: rows.length > limit }
+}
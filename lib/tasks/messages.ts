@@ -0,0 +1,43 @@
+import { asc, eq } from 'drizzle-orm'
+import { db } from '@/lib/db/client'
+import { taskMessages, insertTaskMessageSchema, InsertTaskMessage, TaskMessage } from '@/lib/db/schema'
+import { generateId } from '@/lib/utils/id'
+
+// Longest stretch of an earlier turn repeated back to the agent
+const MAX_CONTEXT_CHARS = 2000
+
+export async function addTaskMessage(message: InsertTaskMessage): Promise<TaskMessage> {
+  const validatedData = insertTaskMessageSchema.parse(message)
+  const [newMessage] = await db
+    .insert(taskMessages)
+    .values({ ...validatedData, id: validatedData.id || generateId(12) })
+    .returning()
+  return newMessage
+}
+
+export async function getTaskMessages(taskId: string): Promise<TaskMessage[]> {
+  return db.select().from(taskMessages).where(eq(taskMessages.taskId, taskId)).orderBy(asc(taskMessages.createdAt))
+}
+
+function truncate(text: string) {
+  return text.length > MAX_CONTEXT_CHARS ? `${text.substring(0, MAX_CONTEXT_CHARS)}...` : text
+}
+
+/**
+ * Build the instruction for a follow-up turn. The sandbox starts fresh on the task branch,
+ * so earlier turns are summarized for the agent ahead of the new request.
+ */
+export function buildFollowUpInstruction(history: TaskMessage[], prompt: string): string {
+  if (history.length === 0) return prompt
+
+  const transcript = history
+    .map((message) => `${message.role === 'user' ? 'User' : 'Agent'}: ${truncate(message.content)}`)
+    .join('\n\n')
+
+  return [
+    'You are continuing work on this branch. Earlier turns of the conversation, for context:',
+    transcript,
+    'The changes from those turns are already committed on the current branch. New request:',
+    prompt,
+  ].join('\n\n')
+}
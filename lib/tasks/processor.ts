@@ -0,0 +1,737 @@
+import { Sandbox } from '@vercel/sandbox'
+import { eq } from 'drizzle-orm'
+import { db } from '@/lib/db/client'
+import { tasks, AgentChoice } from '@/lib/db/schema'
+import { createSandbox } from '@/lib/sandbox/creation'
+import { executeAgentInSandbox, AgentExecutionResult } from '@/lib/sandbox/agents'
+import { pushChangesToBranch, shutdownSandbox } from '@/lib/sandbox/git'
+import { runAndLogCommand } from '@/lib/sandbox/commands'
+import { createTaskLogger, TaskLogger } from '@/lib/utils/task-logger'
+import { redactSensitiveInfo } from '@/lib/utils/logging'
+import { findGitProvider } from '@/lib/git-providers'
+import { generatePullRequestContent, createFallbackPullRequestContent } from '@/lib/utils/pr-content-generator'
+import { TimeBudget, TaskPhase, PhaseTimeoutError } from '@/lib/utils/time-budget'
+import { isAgentType } from '@/lib/sandbox/agents/definitions'
+import { isTransientFailure } from '@/lib/sandbox/agents/failures'
+import { buildRepairInstruction, detectChecks, runChecks } from '@/lib/sandbox/checks'
+import { CHECK_LABELS, CheckKind } from '@/lib/sandbox/checks/definitions'
+import { buildWorkspaceInstruction, getWorkspacePackagePath } from '@/lib/sandbox/projects/workspaces'
+import {
+  buildRepoInstruction,
+  revertProtectedChanges,
+  DEFAULT_REPO_CONFIG,
+  RepoConfig,
+} from '@/lib/sandbox/repo-config'
+import { AgentCredentials } from '@/lib/keys/providers'
+import { resolveAgentCredentials } from '@/lib/keys/vault'
+import { addTaskMessage } from './messages'
+import { saveDiffArtifact } from './artifacts'
+import { finishTaskAttempt, startTaskAttempt } from './attempts'
+import { saveCheckResults } from './checks'
+
+// Wait before running an agent again after a rate limit or timeout
+const TRANSIENT_RETRY_DELAY_MS = 15 * 1000
+// Retries of the same agent before falling back to the next one
+const MAX_TRANSIENT_RETRIES = 1
+
+export interface ProcessTaskOptions {
+  taskId: string
+  prompt: string
+  repoUrl: string
+  selectedAgent?: string
+  selectedModel?: string
+  installDependencies?: boolean
+  maxDuration?: number
+  // Full instruction for the agent when it differs from the prompt (e.g. follow-ups with earlier turns)
+  instruction?: string
+  // Branch to continue work on instead of creating a new one
+  existingBranchName?: string
+  // Branch to clone and open the pull request against (defaults to main)
+  baseBranch?: string
+  // Workspace package to install, run the agent and run the checks in
+  targetPackage?: string
+  // Agents to try in order when the selected one fails
+  fallbackChain?: AgentChoice[]
+  // Comparison runs only push their branch; the pull request is opened for the run that is picked
+  openPullRequest?: boolean
+  // Times the agent is asked to fix failing checks
+  maxRepairRounds?: number
+  // Token of the task's owner on the repository's git host, used to clone, push and open the pull request
+  gitToken: string
+  // Owner of the task, whose stored API keys are used for the agent
+  userId: string
+  // Told when the run enters a phase and once its changes are pushed, so an interrupted run can be picked up
+  onPhaseChange?: (phase: TaskPhase) => void
+  onPushed?: (branchName: string) => Promise<void>
+}
+
+export async function processTaskWithTimeout(options: ProcessTaskOptions) {
+  const { taskId, selectedAgent, maxDuration = 5 } = options
+  const logger = createTaskLogger(taskId)
+  logger.setContext({ agent: selectedAgent })
+
+  // Log entries are tagged with the phase the budget is in
+  const timeBudget = new TimeBudget(maxDuration, (phase) => {
+    logger.setContext({ phase })
+    options.onPhaseChange?.(phase)
+  })
+
+  // Warn as the task works through its budget
+  const cancelWarnings = timeBudget.scheduleWarnings(async (message) => {
+    try {
+      await logger.info(message)
+    } catch (error) {
+      console.error('Failed to add timeout warning:', error)
+    }
+  })
+
+  const deadline = timeBudget.deadline()
+
+  try {
+    await Promise.race([processTask(options, timeBudget, logger), deadline.promise])
+  } catch (error: unknown) {
+    // Handle timeout specifically
+    if (error instanceof PhaseTimeoutError) {
+      console.error('Task timed out:', taskId)
+      await recordTaskTimeout(taskId, error, logger)
+    } else {
+      // Re-throw other errors to be handled by the original error handler
+      throw error
+    }
+  } finally {
+    cancelWarnings()
+    deadline.cancel()
+  }
+}
+
+// Helper function to mark a task as timed out and remember which phase ran out of time
+async function recordTaskTimeout(taskId: string, error: PhaseTimeoutError, timeoutLogger: TaskLogger) {
+  const message = `Task execution timed out: ${error.message}`
+
+  // Recorded before the status, which syncs the issue comment
+  try {
+    await db.update(tasks).set({ timeoutPhase: error.phase, updatedAt: new Date() }).where(eq(tasks.id, taskId))
+  } catch (dbError) {
+    console.error('Error recording timeout phase:', dbError)
+  }
+
+  await timeoutLogger.error(message)
+  await timeoutLogger.updateStatus('error', message)
+}
+
+// Helper function to wait for AI-generated branch name
+async function waitForBranchName(taskId: string, maxWaitMs: number = 10000): Promise<string | null> {
+  const startTime = Date.now()
+
+  while (Date.now() - startTime < maxWaitMs) {
+    try {
+      const [task] = await db.select().from(tasks).where(eq(tasks.id, taskId))
+      if (task?.branchName) {
+        return task.branchName
+      }
+    } catch (error) {
+      console.error('Error checking for branch name:', error)
+    }
+
+    // Wait 500ms before checking again
+    await new Promise((resolve) => setTimeout(resolve, 500))
+  }
+
+  return null
+}
+
+// Helper function to check if task was stopped
+async function isTaskStopped(taskId: string): Promise<boolean> {
+  try {
+    const [task] = await db.select().from(tasks).where(eq(tasks.id, taskId)).limit(1)
+    return task?.status === 'stopped'
+  } catch (error) {
+    console.error('Error checking task status:', error)
+    return false
+  }
+}
+
+async function processTask(options: ProcessTaskOptions, timeBudget: TimeBudget, logger: TaskLogger) {
+  const {
+    taskId,
+    prompt,
+    repoUrl,
+    selectedAgent: requestedAgent,
+    selectedModel: requestedModel,
+    installDependencies = false,
+    maxDuration = 5,
+    instruction = prompt,
+    existingBranchName,
+    baseBranch,
+    targetPackage,
+    fallbackChain = [],
+    openPullRequest = true,
+    maxRepairRounds = 0,
+    gitToken,
+    userId,
+  } = options
+  let sandbox: Sandbox | null = null
+
+  try {
+    // Update task status to processing with real-time logging
+    await logger.updateStatus('processing', 'Task created, preparing to start...')
+    await logger.updateProgress(10, 'Initializing task execution...')
+
+    // Check if task was stopped before we even start
+    if (await isTaskStopped(taskId)) {
+      await logger.info('Task was stopped before execution began')
+      return
+    }
+
+    // Follow-ups reuse the task branch, new tasks wait for the AI-generated branch name (with timeout)
+    const aiBranchName = existingBranchName ? null : await waitForBranchName(taskId, 10000)
+
+    // Check if task was stopped during branch name generation
+    if (await isTaskStopped(taskId)) {
+      await logger.info('Task was stopped during branch name generation')
+      return
+    }
+
+    if (existingBranchName) {
+      await logger.info(`Continuing work on existing branch: ${existingBranchName}`)
+    } else if (aiBranchName) {
+      await logger.info(`Using AI-generated branch name: ${aiBranchName}`)
+    } else {
+      await logger.info('AI branch name not ready, will use fallback during sandbox creation')
+    }
+
+    const credentials = await resolveAgentCredentials(userId)
+
+    await logger.updateProgress(15, 'Creating sandbox environment...')
+
+    // Create sandbox with progress callback; its startup runs in the sandbox phase of the time budget
+    const sandboxResult = await createSandbox(
+      {
+        taskId,
+        repoUrl,
+        timeout: `${maxDuration}m`,
+        ports: [3000],
+        runtime: 'node22',
+        resources: { vcpus: 4 },
+        taskPrompt: prompt,
+        selectedAgent: requestedAgent,
+        selectedModel: requestedModel,
+        installDependencies,
+        preDeterminedBranchName: aiBranchName || undefined,
+        existingBranchName,
+        baseBranch,
+        targetPackage,
+        gitToken,
+        credentials,
+        timeBudget,
+        onProgress: async (progress: number, message: string) => {
+          // Use real-time logger for progress updates
+          await logger.updateProgress(progress, message)
+        },
+        onCancellationCheck: async () => {
+          // Check if task was stopped
+          return await isTaskStopped(taskId)
+        },
+      },
+      logger,
+    )
+
+    if (!sandboxResult.success) {
+      if (sandboxResult.cancelled) {
+        // Task was cancelled, this should result in stopped status, not error
+        await logger.info('Task was cancelled during sandbox creation')
+        return
+      }
+      throw new Error(sandboxResult.error || 'Failed to create sandbox')
+    }
+
+    // Check if task was stopped during sandbox creation
+    if (await isTaskStopped(taskId)) {
+      await logger.info('Task was stopped during sandbox creation')
+      // Clean up sandbox if it was created
+      if (sandboxResult.sandbox) {
+        try {
+          await shutdownSandbox(sandboxResult.sandbox)
+        } catch (error) {
+          console.error('Failed to cleanup sandbox after stop:', error)
+        }
+      }
+      return
+    }
+
+    const {
+      sandbox: createdSandbox,
+      domain,
+      branchName,
+      repoConfig = DEFAULT_REPO_CONFIG,
+      env = {},
+      workspacePackage,
+    } = sandboxResult
+    sandbox = createdSandbox || null
+
+    // The repository's default agent applies when the task did not pick one
+    const selectedAgent = requestedAgent || repoConfig.agent || 'claude'
+    const selectedModel = requestedModel || (requestedAgent ? undefined : repoConfig.model)
+    logger.setContext({ agent: selectedAgent })
+
+    // Update sandbox URL and branch name (only update branch name if not already set by AI)
+    const updateData: {
+      sandboxUrl?: string
+      updatedAt: Date
+      branchName?: string
+      selectedAgent?: string
+      selectedModel?: string | null
+    } = {
+      sandboxUrl: domain || undefined,
+      updatedAt: new Date(),
+    }
+
+    // Only update branch name if we don't already have an AI-generated or existing one
+    if (!aiBranchName && !existingBranchName) {
+      updateData.branchName = branchName
+    }
+
+    if (!requestedAgent && repoConfig.agent) {
+      await logger.info(
+        `Using the repository's default agent: ${selectedAgent}${selectedModel ? ` (${selectedModel})` : ''}`,
+      )
+      updateData.selectedAgent = selectedAgent
+      updateData.selectedModel = selectedModel || null
+    }
+
+    await db.update(tasks).set(updateData).where(eq(tasks.id, taskId))
+
+    // Check if task was stopped before agent execution
+    if (await isTaskStopped(taskId)) {
+      await logger.info('Task was stopped before agent execution')
+      return
+    }
+
+    // Log agent execution start
+    await logger.updateProgress(50, `Installing and executing ${selectedAgent} agent...`)
+
+    if (!sandbox) {
+      throw new Error('Sandbox is not available for agent execution')
+    }
+
+    // The agent gets its share of the budget plus whatever setup did not use
+    const activeSandbox = sandbox
+    const run: AgentRunContext = {
+      sandbox: activeSandbox,
+      taskId,
+      credentials,
+      env,
+      protectedPaths: repoConfig.protectedPaths,
+      logger,
+      cwd: workspacePackage ? getWorkspacePackagePath(workspacePackage) : undefined,
+    }
+    const agentInstruction = buildRepoInstruction(
+      workspacePackage ? buildWorkspaceInstruction(instruction, workspacePackage) : instruction,
+      repoConfig,
+    )
+    const agentChain = uniqueAgentChoices([{ agent: selectedAgent, model: selectedModel }, ...fallbackChain])
+    const {
+      result: agentResult,
+      agent,
+      model,
+    } = await timeBudget.runPhase('agent', (signal) => runAgentChain(run, agentInstruction, agentChain, signal))
+
+    await recordAgentMessage(taskId, agentResult, agent, model)
+
+    if (agentResult.success) {
+      // Log agent completion
+      await logger.success(`${agent} agent execution completed`)
+      await logger.info(agentResult.output || 'Code changes applied successfully')
+
+      if (agentResult.agentResponse) {
+        await logger.info(`Agent Response: ${agentResult.agentResponse}`)
+      }
+
+      // Agent execution logs are already logged in real-time by the agent
+      // No need to log them again here
+
+      // Checks need the project's dependencies, so they only run when those were installed
+      let verification: VerificationOutcome | null = null
+      if (installDependencies) {
+        await logger.updateProgress(80, 'Verifying changes...')
+        verification = await timeBudget.runPhase('verify', (signal) =>
+          verifyChanges(run, agentInstruction, { agent, model }, maxRepairRounds, repoConfig, signal),
+        )
+      } else {
+        await logger.info('Skipping verification because dependencies were not installed')
+      }
+      const checksFailed = verification !== null && !verification.passed
+
+      // Push changes to branch
+      const commitMessage = `${prompt.substring(0, 50)}${prompt.length > 50 ? '...' : ''}`
+      const pushResult = await timeBudget.runPhase('push', async () => {
+        const result = await pushChangesToBranch(activeSandbox, branchName!, commitMessage, logger)
+        if (result.diff) {
+          await saveDiffArtifact(taskId, result.diff).catch((error) => {
+            console.error('Error saving diff artifact:', error)
+          })
+        }
+        if (result.pushed) {
+          await options.onPushed?.(branchName!)
+        }
+        if (result.pushed && !openPullRequest) {
+          await logger.info('Branch pushed; a pull request is opened once this run is picked')
+        } else if (result.pushed) {
+          await openPullRequestForTask(
+            taskId,
+            branchName!,
+            prompt,
+            agentResult.agentResponse,
+            agent,
+            gitToken,
+            logger,
+            { forceDraft: checksFailed },
+          )
+        }
+        return result
+      })
+
+      // Stop the sandbox now that its work is pushed
+      const shutdownResult = await shutdownSandbox(activeSandbox)
+      if (shutdownResult.success) {
+        await logger.success('Sandbox shutdown completed')
+      } else {
+        await logger.error(`Sandbox shutdown failed: ${shutdownResult.error}`)
+      }
+
+      // Check if push failed and handle accordingly
+      if (pushResult.pushFailed) {
+        await logger.updateStatus('error')
+        await logger.error('Task failed: Unable to push changes to repository')
+        throw new Error('Failed to push changes to repository')
+      } else if (checksFailed) {
+        const failed = verification!.failedChecks.map((kind) => CHECK_LABELS[kind]).join(', ')
+        await logger.updateStatus('error', `Changes were pushed but checks failed: ${failed}`)
+      } else {
+        // Update task as completed
+        await logger.updateStatus('completed')
+        await logger.updateProgress(100, 'Task completed successfully')
+      }
+    } else {
+      // Agent failed, but we still want to capture its logs
+      await logger.error(`${agent} agent execution failed`)
+
+      // Agent execution logs are already logged in real-time by the agent
+      // No need to log them again here
+
+      throw new Error(agentResult.error || 'Agent execution failed')
+    }
+  } catch (error) {
+    console.error('Error processing task:', error)
+
+    // Try to shutdown sandbox even on error
+    if (sandbox) {
+      try {
+        const shutdownResult = await shutdownSandbox(sandbox)
+        if (shutdownResult.success) {
+          await logger.info('Sandbox shutdown completed after error')
+        } else {
+          await logger.error(`Sandbox shutdown failed: ${shutdownResult.error}`)
+        }
+      } catch (shutdownError) {
+        console.error('Failed to shutdown sandbox after error:', shutdownError)
+        await logger.error('Failed to shutdown sandbox after error')
+      }
+    }
+
+    // Phase deadlines record which phase ran out of time
+    if (error instanceof PhaseTimeoutError) {
+      await recordTaskTimeout(taskId, error, logger)
+      return
+    }
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred'
+
+    // Log the error and update task status
+    await logger.error(`Error: ${errorMessage}`)
+    await logger.updateStatus('error', errorMessage)
+  }
+}
+
+interface AgentChainResult {
+  result: AgentExecutionResult
+  agent: string
+  model?: string
+}
+
+// What every agent run in the task's sandbox shares
+interface AgentRunContext {
+  sandbox: Sandbox
+  taskId: string
+  credentials: AgentCredentials
+  // Env vars the repository config asked for and the detected toolchains
+  env: Record<string, string>
+  // Paths from the repository config whose changes are undone after each run
+  protectedPaths: string[]
+  logger: TaskLogger
+  // Target package directory the agent and the checks work in
+  cwd?: string
+}
+
+// Helper function to run one agent and record it as an attempt of the task
+async function runAgentAttempt(
+  run: AgentRunContext,
+  instruction: string,
+  choice: { agent: string; model?: string },
+  // Aborted when the phase the attempt runs in is out of time
+  signal?: AbortSignal,
+): Promise<AgentExecutionResult> {
+  const { sandbox, taskId, credentials, logger } = run
+  const attempt = await startTaskAttempt(taskId, choice.agent, choice.model).catch((error) => {
+    console.error('Error recording task attempt:', error)
+    return null
+  })
+
+  const result = await executeAgentInSandbox(
+    sandbox,
+    instruction,
+    choice.agent,
+    logger,
+    credentials,
+    choice.model,
+    () => isTaskStopped(taskId),
+    run.env,
+    run.cwd,
+    signal,
+  )
+  await revertProtectedChanges(sandbox, run.protectedPaths, logger)
+
+  if (attempt) {
+    await finishTaskAttempt(attempt.id, result).catch((error) => {
+      console.error('Error recording task attempt result:', error)
+    })
+  }
+  return result
+}
+
+// Helper function to undo a failed attempt's edits so the next one starts from the same tree
+async function resetWorkingTree(sandbox: Sandbox, logger: TaskLogger) {
+  await runAndLogCommand(sandbox, 'git', ['reset', '--hard', 'HEAD'], logger)
+  await runAndLogCommand(sandbox, 'git', ['clean', '-fd'], logger)
+}
+
+// Drop repeated agent and model pairs; the same agent with another model is still a fallback
+function uniqueAgentChoices(chain: { agent: string; model?: string }[]) {
+  const seen = new Set<string>()
+  return chain.filter((choice) => {
+    const key = `${choice.agent}:${choice.model || ''}`
+    if (seen.has(key)) return false
+    seen.add(key)
+    return true
+  })
+}
+
+// Helper function to run the agents in order until one succeeds. Rate limits and timeouts are
+// retried with the same agent first; any other failure moves straight on to the next agent.
+// A choice without a model runs the agent's default one.
+async function runAgentChain(
+  run: AgentRunContext,
+  instruction: string,
+  chain: { agent: string; model?: string }[],
+  signal?: AbortSignal,
+): Promise<AgentChainResult> {
+  const { sandbox, taskId, logger } = run
+  let last: AgentChainResult | undefined
+
+  for (const [index, choice] of chain.entries()) {
+    if (index > 0) {
+      await logger.info(`Falling back to ${choice.agent}${choice.model ? ` (${choice.model})` : ''}...`)
+      await resetWorkingTree(sandbox, logger)
+    }
+    logger.setContext({ agent: choice.agent })
+
+    for (let retry = 0; ; retry++) {
+      const result = await runAgentAttempt(run, instruction, choice, signal)
+      last = { result, ...choice }
+
+      if (result.success || signal?.aborted || (await isTaskStopped(taskId))) return last
+
+      const reason = redactSensitiveInfo(result.error || 'Agent execution failed')
+      await logger.error(`${choice.agent} failed (${result.failureKind || 'agent_error'}): ${reason}`)
+      if (!isTransientFailure(result.failureKind) || retry >= MAX_TRANSIENT_RETRIES) break
+
+      await logger.info(`Retrying ${choice.agent} in ${TRANSIENT_RETRY_DELAY_MS / 1000} seconds...`)
+      await new Promise((resolve) => setTimeout(resolve, TRANSIENT_RETRY_DELAY_MS))
+      await resetWorkingTree(sandbox, logger)
+    }
+  }
+
+  return last!
+}
+
+interface VerificationOutcome {
+  passed: boolean
+  failedChecks: CheckKind[]
+}
+
+// Helper function to run the repository's checks against the agent's changes, feeding failures back
+// to the agent for up to maxRepairRounds rounds. Returns null when the repository has nothing to check.
+async function verifyChanges(
+  run: AgentRunContext,
+  instruction: string,
+  choice: { agent: string; model?: string },
+  maxRepairRounds: number,
+  repoConfig: RepoConfig,
+  signal?: AbortSignal,
+): Promise<VerificationOutcome | null> {
+  const { sandbox, taskId, logger } = run
+  const checks = await detectChecks(sandbox, logger, repoConfig.verify, run.cwd)
+  if (checks.length === 0) {
+    await logger.info('No tests, lint, type-check or build commands found to verify the changes')
+    return null
+  }
+
+  await logger.info(`Verifying changes: ${checks.map((check) => CHECK_LABELS[check.kind]).join(', ')}`)
+
+  for (let round = 0; ; round++) {
+    const results = await runChecks(sandbox, checks, logger, run.env)
+    await saveCheckResults(taskId, round, results).catch((error) => {
+      console.error('Error saving check results:', error)
+    })
+
+    const failures = results.filter((result) => result.status === 'failed')
+    if (failures.length === 0) {
+      await logger.success('All checks passed')
+      return { passed: true, failedChecks: [] }
+    }
+
+    const outcome = { passed: false, failedChecks: failures.map((failure) => failure.kind) }
+    if (round >= maxRepairRounds || (await isTaskStopped(taskId))) return outcome
+
+    await logger.info(`Asking ${choice.agent} to fix the failing checks (round ${round + 1} of ${maxRepairRounds})...`)
+    const repair = await runAgentAttempt(run, buildRepairInstruction(instruction, failures), choice, signal)
+    if (!repair.success) {
+      await logger.error(`Self-repair failed: ${redactSensitiveInfo(repair.error || 'Agent execution failed')}`)
+      return outcome
+    }
+  }
+}
+
+// Helper function to store the agent's reply as the next turn of the task conversation
+async function recordAgentMessage(
+  taskId: string,
+  agentResult: AgentExecutionResult,
+  selectedAgent: string,
+  selectedModel?: string,
+) {
+  const content = agentResult.success
+    ? agentResult.agentResponse || agentResult.output
+    : `Failed: ${agentResult.error || 'Agent execution failed'}`
+
+  try {
+    await addTaskMessage({
+      taskId,
+      role: 'agent',
+      content: content || 'Agent completed without a response',
+      selectedAgent: isAgentType(selectedAgent) ? selectedAgent : undefined,
+      selectedModel,
+    })
+  } catch (error) {
+    console.error('Error recording agent message:', error)
+  }
+}
+
+/**
+ * Finish a task whose changes an interrupted attempt already pushed: open the pull request that attempt
+ * may not have got to, without creating a sandbox or running the agent and the checks again
+ */
+export async function finishPushedTask(options: ProcessTaskOptions, branchName: string) {
+  const { taskId, prompt, selectedAgent, openPullRequest = true, gitToken } = options
+  const logger = createTaskLogger(taskId)
+
+  await logger.updateStatus(
+    'processing',
+    `The previous attempt already pushed its changes to ${branchName}; finishing without running the agent again`,
+  )
+  if (openPullRequest) {
+    await openPullRequestForTask(taskId, branchName, prompt, undefined, selectedAgent || 'claude', gitToken, logger)
+  } else {
+    await logger.info('Branch pushed; a pull request is opened once this run is picked')
+  }
+  await logger.updateStatus('completed')
+  await logger.updateProgress(100, 'Task completed successfully')
+}
+
+// Open a pull request for the pushed branch, or reuse the one a previous turn opened
+export async function openPullRequestForTask(
+  taskId: string,
+  branchName: string,
+  prompt: string,
+  agentSummary: string | undefined,
+  selectedAgent: string,
+  gitToken: string,
+  logger: TaskLogger,
+  options: { forceDraft?: boolean } = {},
+) {
+  try {
+    const [task] = await db.select().from(tasks).where(eq(tasks.id, taskId)).limit(1)
+    if (!task?.repoUrl) return
+
+    const provider = findGitProvider(task.repoUrl)
+    if (!provider) {
+      await logger.info('Pull requests are not supported for this repository host; the branch was pushed')
+      return
+    }
+
+    if (task.prNumber) {
+      const existing = await provider.getPullRequest(task.repoUrl, task.prNumber, gitToken)
+      if (existing && (existing.state === 'open' || existing.state === 'draft')) {
+        await db.update(tasks).set({ prState: existing.state, updatedAt: new Date() }).where(eq(tasks.id, taskId))
+        await logger.info(`Pull request #${existing.number} updated with new commits`)
+        return
+      }
+    }
+
+    await logger.info('Creating pull request...')
+
+    const contentOptions = { prompt, agentSummary, branchName, selectedAgent }
+    let content
+    try {
+      content = await generatePullRequestContent(contentOptions)
+    } catch (error) {
+      console.error('Error generating pull request content:', error)
+      await logger.info('Using fallback pull request description')
+      content = createFallbackPullRequestContent(contentOptions)
+    }
+
+    const result = await provider.createPullRequest(
+      {
+        repoUrl: task.repoUrl,
+        head: branchName,
+        base: task.baseBranch || undefined,
+        title: content.title,
+        body: content.body,
+        draft: options.forceDraft || task.prDraft || false,
+        labels: task.prLabels || [],
+        reviewers: task.prReviewers || [],
+      },
+      gitToken,
+    )
+
+    if (!result.success || !result.pullRequest) {
+      await logger.error(`Failed to create pull request: ${result.error || 'Unknown error'}`)
+      return
+    }
+
+    for (const warning of result.warnings || []) {
+      await logger.info(warning)
+    }
+
+    const { pullRequest } = result
+    await db
+      .update(tasks)
+      .set({ prNumber: pullRequest.number, prUrl: pullRequest.url, prState: pullRequest.state, updatedAt: new Date() })
+      .where(eq(tasks.id, taskId))
+
+    await logger.success(`Pull request #${pullRequest.number} opened: ${pullRequest.url}`)
+  } catch (error) {
+    // A missing pull request never fails the task, the branch is already pushed
+    console.error('Error creating pull request:', error)
+    await logger.error('Failed to create pull request')
+  }
+}
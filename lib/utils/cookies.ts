@@ -4,6 +4,7 @@ const SIDEBAR_WIDTH_COOKIE = 'sidebar-width'
 const SIDEBAR_OPEN_COOKIE = 'sidebar-open'
 const INSTALL_DEPENDENCIES_COOKIE = 'install-dependencies'
 const MAX_DURATION_COOKIE = 'max-duration'
+const SELECTED_PROVIDER_COOKIE = 'selected-provider'
 const SELECTED_OWNER_COOKIE = 'selected-owner'
 const SELECTED_REPO_COOKIE = 'selected-repo'
 const DEFAULT_SIDEBAR_WIDTH = 288
@@ -158,7 +159,28 @@ export function setMaxDuration(duration: number): void {
   }
 }
 
-// Selected owner/repo functions
+// Selected git provider/owner/repo functions
+export function getSelectedProvider(): string {
+  if (typeof window === 'undefined') {
+    return ''
+  }
+
+  return Cookies.get(SELECTED_PROVIDER_COOKIE) || ''
+}
+
+export function setSelectedProvider(provider: string): void {
+  if (typeof window === 'undefined') return
+
+  if (provider) {
+    Cookies.set(SELECTED_PROVIDER_COOKIE, provider, {
+      expires: 365, // 1 year
+      sameSite: 'strict',
+    })
+  } else {
+    Cookies.remove(SELECTED_PROVIDER_COOKIE)
+  }
+}
+
 export function getSelectedOwner(): string {
   if (typeof window === 'undefined') {
     return ''
@@ -0,0 +1,216 @@
+// Client-safe helpers for rendering unified diffs produced by `git diff`
+
+export interface DiffLine {
+  type: 'context' | 'add' | 'delete'
+  content: string
+  oldLine?: number
+  newLine?: number
+}
+
+export interface DiffHunk {
+  header: string
+  lines: DiffLine[]
+}
+
+export interface DiffFile {
+  path: string
+  oldPath: string
+  status: 'added' | 'deleted' | 'modified' | 'renamed'
+  binary: boolean
+  additions: number
+  deletions: number
+  hunks: DiffHunk[]
+}
+
+// A row of the side-by-side view; either side is empty where lines were only added or removed
+export interface SplitRow {
+  left?: DiffLine
+  right?: DiffLine
+}
+
+const FILE_HEADER = /^diff --git a\/(.*) b\/(.*)$/
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/
+
+export function parseUnifiedDiff(patch: string): DiffFile[] {
+  const files: DiffFile[] = []
+  let file: DiffFile | undefined
+  let hunk: DiffHunk | undefined
+  let oldLine = 0
+  let newLine = 0
+  // Lines left in the current hunk, so hunk content starting with "---" or "diff" is not mistaken for a header
+  let oldRemaining = 0
+  let newRemaining = 0
+
+  for (const line of patch.split('\n')) {
+    if (oldRemaining > 0 || newRemaining > 0) {
+      if (!hunk) break
+      if (line.startsWith('+')) {
+        hunk.lines.push({ type: 'add', content: line.substring(1), newLine: newLine++ })
+        file!.additions++
+        newRemaining--
+      } else if (line.startsWith('-')) {
+        hunk.lines.push({ type: 'delete', content: line.substring(1), oldLine: oldLine++ })
+        file!.deletions++
+        oldRemaining--
+      } else if (!line.startsWith('\\')) {
+        hunk.lines.push({ type: 'context', content: line.substring(1), oldLine: oldLine++, newLine: newLine++ })
+        oldRemaining--
+        newRemaining--
+      }
+      continue
+    }
+
+    const fileMatch = line.match(FILE_HEADER)
+    if (fileMatch) {
+      file = {
+        oldPath: fileMatch[1],
+        path: fileMatch[2],
+        status: 'modified',
+        binary: false,
+        additions: 0,
+        deletions: 0,
+        hunks: [],
+      }
+      files.push(file)
+      hunk = undefined
+      continue
+    }
+
+    if (!file) continue
+
+    const hunkMatch = line.match(HUNK_HEADER)
+    if (hunkMatch) {
+      oldLine = parseInt(hunkMatch[1], 10)
+      newLine = parseInt(hunkMatch[3], 10)
+      oldRemaining = hunkMatch[2] !== undefined ? parseInt(hunkMatch[2], 10) : 1
+      newRemaining = hunkMatch[4] !== undefined ? parseInt(hunkMatch[4], 10) : 1
+      hunk = { header: line, lines: [] }
+      file.hunks.push(hunk)
+    } else if (line.startsWith('new file mode')) {
+      file.status = 'added'
+    } else if (line.startsWith('deleted file mode')) {
+      file.status = 'deleted'
+    } else if (line.startsWith('rename from ')) {
+      file.status = 'renamed'
+      file.oldPath = line.substring('rename from '.length)
+    } else if (line.startsWith('rename to ')) {
+      file.path = line.substring('rename to '.length)
+    } else if (line.startsWith('Binary files ')) {
+      file.binary = true
+    }
+  }
+
+  return files
+}
+
+/**
+ * Pair removed lines with the lines added in their place for the side-by-side view
+ */
+export function toSplitRows(hunk: DiffHunk): SplitRow[] {
+  const rows: SplitRow[] = []
+  let deleted: DiffLine[] = []
+  let added: DiffLine[] = []
+
+  const flush = () => {
+    for (let i = 0; i < Math.max(deleted.length, added.length); i++) {
+      rows.push({ left: deleted[i], right: added[i] })
+    }
+    deleted = []
+    added = []
+  }
+
+  for (const line of hunk.lines) {
+    if (line.type === 'delete') {
+      if (added.length > 0) flush()
+      deleted.push(line)
+    } else if (line.type === 'add') {
+      added.push(line)
+    } else {
+      flush()
+      rows.push({ left: line, right: line })
+    }
+  }
+  flush()
+
+  return rows
+}
+
+export type TokenKind = 'keyword' | 'string' | 'comment' | 'number' | 'plain'
+
+export interface Token {
+  kind: TokenKind
+  text: string
+}
+
+const C_STYLE_KEYWORDS = (
+  'abstract as async await break case catch class const continue default else enum export extends false ' +
+  'final finally fn for from func function go if impl implements import in interface let match mut new ' +
+  'null package private protected pub public return static struct super switch this throw true try type ' +
+  'typeof undefined use var void while yield'
+).split(' ')
+
+const HASH_STYLE_KEYWORDS = (
+  'and as begin class def del do elif else end except False finally fi for from if import in is lambda ' +
+  'module None not or pass raise require return then True try while with yield'
+).split(' ')
+
+// Languages whose comments start with "#" rather than "//"
+const HASH_COMMENT_EXTENSIONS = new Set(['py', 'rb', 'sh', 'bash', 'zsh', 'yml', 'yaml', 'toml', 'r', 'pl'])
+
+// Extensions that get keyword highlighting; anything else is shown as plain text
+const CODE_EXTENSIONS = new Set([
+  ...HASH_COMMENT_EXTENSIONS,
+  ...['ts', 'tsx', 'js', 'jsx', 'mjs', 'cjs', 'java', 'kt', 'go', 'rs', 'c', 'h', 'cc', 'cpp', 'hpp', 'cs'],
+  ...['swift', 'scala', 'php', 'dart', 'json', 'css', 'scss'],
+])
+
+const tokenizers = new Map<string, RegExp>()
+
+function getTokenizer(extension: string): RegExp | undefined {
+  if (!CODE_EXTENSIONS.has(extension)) return undefined
+
+  const hashComments = HASH_COMMENT_EXTENSIONS.has(extension)
+  const key = hashComments ? '#' : '//'
+  let tokenizer = tokenizers.get(key)
+  if (!tokenizer) {
+    const keywords = hashComments ? HASH_STYLE_KEYWORDS : C_STYLE_KEYWORDS
+    const comment = hashComments ? '#.*$' : '\\/\\/.*$|\\/\\*.*?(?:\\*\\/|$)'
+    tokenizer = new RegExp(
+      [
+        `(?<comment>${comment})`,
+        '(?<string>"(?:[^"\\\\]|\\\\.)*"?|\'(?:[^\'\\\\]|\\\\.)*\'?|`(?:[^`\\\\]|\\\\.)*`?)',
+        '(?<number>\\b\\d[\\d_.]*\\b)',
+        `(?<keyword>\\b(?:${keywords.join('|')})\\b)`,
+      ].join('|'),
+      'g',
+    )
+    tokenizers.set(key, tokenizer)
+  }
+  return tokenizer
+}
+
+/**
+ * Split a single line into highlight tokens. Works line by line, so constructs spanning
+ * lines (block comments, multi-line strings) are only highlighted on their first line.
+ */
+export function highlightLine(content: string, path: string): Token[] {
+  const extension = path.split('.').pop()?.toLowerCase() || ''
+  const tokenizer = getTokenizer(extension)
+  if (!tokenizer) return [{ kind: 'plain', text: content }]
+
+  const tokens: Token[] = []
+  let lastIndex = 0
+  for (const match of content.matchAll(tokenizer)) {
+    if (match.index > lastIndex) {
+      tokens.push({ kind: 'plain', text: content.substring(lastIndex, match.index) })
+    }
+    const kind = (Object.entries(match.groups || {}).find(([, value]) => value !== undefined)?.[0] ||
+      'plain') as TokenKind
+    tokens.push({ kind, text: match[0] })
+    lastIndex = match.index + match[0].length
+  }
+  if (lastIndex < content.length) {
+    tokens.push({ kind: 'plain', text: content.substring(lastIndex) })
+  }
+  return tokens
+}
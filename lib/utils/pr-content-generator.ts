@@ -0,0 +1,89 @@
+import { generateText } from 'ai'
+
+export interface PullRequestContentOptions {
+  prompt: string
+  agentSummary?: string
+  branchName: string
+  selectedAgent?: string
+}
+
+export interface PullRequestContent {
+  title: string
+  body: string
+}
+
+const MAX_TITLE_LENGTH = 72
+const MAX_SUMMARY_LENGTH = 4000
+
+function truncate(text: string, maxLength: number) {
+  return text.length > maxLength ? `${text.substring(0, maxLength - 3)}...` : text
+}
+
+function createFooter(options: PullRequestContentOptions) {
+  return `---\n_Opened automatically by the ${options.selectedAgent || 'coding'} agent from branch \`${options.branchName}\`._`
+}
+
+export async function generatePullRequestContent(options: PullRequestContentOptions): Promise<PullRequestContent> {
+  const { prompt, agentSummary } = options
+
+  if (!process.env.AI_GATEWAY_API_KEY) {
+    throw new Error('AI_GATEWAY_API_KEY environment variable is required')
+  }
+
+  const generationPrompt = `Write a GitHub pull request title and description for changes made by a coding agent.
+
+Task given to the agent: ${prompt}
+${agentSummary ? `Agent's summary of its work: ${truncate(agentSummary, MAX_SUMMARY_LENGTH)}` : ''}
+
+Requirements:
+- The first line is the title: imperative mood, under ${MAX_TITLE_LENGTH} characters, no trailing period
+- Leave one blank line after the title
+- The rest is the description in Markdown with a short "## Summary" section and a "## Changes" bullet list
+- Do not invent changes that are not described above
+
+Return ONLY the title and description, nothing else.`
+
+  try {
+    const result = await generateText({
+      model: 'openai/gpt-5-nano',
+      prompt: generationPrompt,
+      temperature: 0.3,
+    })
+
+    const [firstLine, ...rest] = result.text.trim().split('\n')
+    const title = firstLine
+      .replace(/^#+\s*/, '')
+      .replace(/^title:\s*/i, '')
+      .replace(/^["']|["']$/g, '')
+      .trim()
+    const body = rest.join('\n').trim()
+
+    if (!title || !body) {
+      throw new Error('Generated pull request content is missing a title or description')
+    }
+
+    return {
+      title: truncate(title, MAX_TITLE_LENGTH),
+      body: `${body}\n\n${createFooter(options)}`,
+    }
+  } catch (error) {
+    console.error('Pull request content generation error:', error)
+    throw new Error(
+      `Failed to generate pull request content: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    )
+  }
+}
+
+export function createFallbackPullRequestContent(options: PullRequestContentOptions): PullRequestContent {
+  const firstLine = options.prompt.trim().split('\n')[0]
+  const sections = [`## Task\n\n${options.prompt.trim()}`]
+
+  if (options.agentSummary) {
+    sections.push(`## Agent Summary\n\n${truncate(options.agentSummary.trim(), MAX_SUMMARY_LENGTH)}`)
+  }
+
+  return {
+    title: truncate(firstLine, MAX_TITLE_LENGTH),
+    body: `${sections.join('\n\n')}\n\n${createFooter(options)}`,
+  }
+}
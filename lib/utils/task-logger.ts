@@ -1,51 +1,62 @@
 import { db } from '@/lib/db/client'
-import { tasks } from '@/lib/db/schema'
-import { eq } from 'drizzle-orm'
-import { createInfoLog, createCommandLog, createErrorLog, createSuccessLog, LogEntry } from './logging'
+import { tasks, taskLogs, taskLogSequences } from '@/lib/db/schema'
+import { eq, sql } from 'drizzle-orm'
+import { syncIssueCommentForTask } from '@/lib/webhooks/github'
+import { createAgentEventLog, createLogEntry, AgentEvent, LogEntry } from './logging'
+import { TaskPhase } from './time-budget'
+
+export interface TaskLogContext {
+  phase?: TaskPhase
+  agent?: string
+}
 
 export class TaskLogger {
   private taskId: string
+  private context: TaskLogContext = {}
 
   constructor(taskId: string) {
     this.taskId = taskId
   }
 
   /**
-   * Append a log entry to the database immediately
+   * Tag subsequent log entries with the current phase and/or agent
    */
-  async append(type: 'info' | 'command' | 'error' | 'success', message: string): Promise<void> {
-    try {
-      // Create the log entry with timestamp
-      let logEntry: LogEntry
-      switch (type) {
-        case 'info':
-          logEntry = createInfoLog(message)
-          break
-        case 'command':
-          logEntry = createCommandLog(message)
-          break
-        case 'error':
-          logEntry = createErrorLog(message)
-          break
-        case 'success':
-          logEntry = createSuccessLog(message)
-          break
-        default:
-          logEntry = createInfoLog(message)
-      }
-
-      // Get current task to preserve existing logs
-      const currentTask = await db.select().from(tasks).where(eq(tasks.id, this.taskId)).limit(1)
-      const existingLogs = currentTask[0]?.logs || []
+  setContext(context: TaskLogContext): void {
+    this.context = { ...this.context, ...context }
+  }
 
-      // Append the new log entry
-      await db
-        .update(tasks)
-        .set({
-          logs: [...existingLogs, logEntry],
-          updatedAt: new Date(),
+  // The seq's row stays locked until the entry commits, so entries become visible in seq order
+  private async insert(entry: LogEntry): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [{ seq }] = await tx
+        .insert(taskLogSequences)
+        .values({ taskId: this.taskId, lastSeq: 1 })
+        .onConflictDoUpdate({
+          target: taskLogSequences.taskId,
+          set: { lastSeq: sql`${taskLogSequences.lastSeq} + 1` },
         })
-        .where(eq(tasks.id, this.taskId))
+        .returning({ seq: taskLogSequences.lastSeq })
+
+      await tx.insert(taskLogs).values({
+        taskId: this.taskId,
+        seq,
+        type: entry.type,
+        message: entry.message,
+        timestamp: entry.timestamp,
+        phase: this.context.phase,
+        agent: this.context.agent,
+        event: entry.event,
+      })
+    })
+  }
+
+  /**
+   * Append a log entry to the database immediately
+   */
+  async append(type: LogEntry['type'], message: string): Promise<void> {
+    try {
+      // Single insert, so concurrent writers never overwrite each other
+      await this.insert(createLogEntry(type, message))
 
       // Task log: ${type.toUpperCase()}: ${message.substring(0, 100)}
     } catch {
@@ -73,26 +84,24 @@ export class TaskLogger {
     return this.append('success', message)
   }
 
+  /**
+   * Append a structured event parsed from the agent's output
+   */
+  async event(event: AgentEvent): Promise<void> {
+    try {
+      await this.insert(createAgentEventLog(event))
+    } catch {
+      // Failed to append agent event to database
+    }
+  }
+
   /**
    * Update task progress along with a log message
    */
   async updateProgress(progress: number, message: string): Promise<void> {
     try {
-      const logEntry = createInfoLog(message)
-
-      // Get current task to preserve existing logs
-      const currentTask = await db.select().from(tasks).where(eq(tasks.id, this.taskId)).limit(1)
-      const existingLogs = currentTask[0]?.logs || []
-
-      // Update both progress and logs
-      await db
-        .update(tasks)
-        .set({
-          progress,
-          logs: [...existingLogs, logEntry],
-          updatedAt: new Date(),
-        })
-        .where(eq(tasks.id, this.taskId))
+      await this.insert(createLogEntry('info', message))
+      await db.update(tasks).set({ progress, updatedAt: new Date() }).where(eq(tasks.id, this.taskId))
 
       // Task progress: ${progress}%
     } catch {
@@ -101,32 +110,35 @@ export class TaskLogger {
   }
 
   /**
-   * Update task status along with a log message
+   * Update task status along with a log message, and the status comment of a task started from GitHub
    */
   async updateStatus(status: 'pending' | 'processing' | 'completed' | 'error', message?: string): Promise<void> {
     try {
+      if (message) {
+        await this.insert(createLogEntry('info', message))
+      }
+
       const updates: {
         status: 'pending' | 'processing' | 'completed' | 'error'
         updatedAt: Date
-        logs?: LogEntry[]
         completedAt?: Date
+        error?: string
       } = {
         status,
         updatedAt: new Date(),
       }
 
-      if (message) {
-        const logEntry = createInfoLog(message)
-        const currentTask = await db.select().from(tasks).where(eq(tasks.id, this.taskId)).limit(1)
-        const existingLogs = currentTask[0]?.logs || []
-        updates.logs = [...existingLogs, logEntry]
-      }
-
       if (status === 'completed' || status === 'error') {
         updates.completedAt = new Date()
       }
 
+      // Saved with the status so the synced issue comment shows why the task failed
+      if (status === 'error' && message) {
+        updates.error = message
+      }
+
       await db.update(tasks).set(updates).where(eq(tasks.id, this.taskId))
+      await syncIssueCommentForTask(this.taskId)
 
       // Task status: ${status}
     } catch {
@@ -0,0 +1,142 @@
+export const TASK_PHASES = ['sandbox', 'dependencies', 'agent', 'verify', 'push'] as const
+
+export type TaskPhase = (typeof TASK_PHASES)[number]
+
+export const TASK_PHASE_LABELS: Record<TaskPhase, string> = {
+  sandbox: 'sandbox setup',
+  dependencies: 'dependency install',
+  agent: 'agent execution',
+  verify: 'verification',
+  push: 'push',
+}
+
+// Relative share of the task duration each phase gets. Time a phase does not use
+// rolls over to the phases after it.
+const PHASE_WEIGHTS: Record<TaskPhase, number> = {
+  sandbox: 20,
+  dependencies: 20,
+  agent: 40,
+  verify: 12,
+  push: 8,
+}
+
+// Fractions of the total budget at which a warning is emitted
+const WARNING_THRESHOLDS = [0.75, 0.9]
+
+export class PhaseTimeoutError extends Error {
+  readonly phase: TaskPhase
+
+  constructor(phase: TaskPhase, timeoutMs: number) {
+    super(`${TASK_PHASE_LABELS[phase]} ran out of time after ${formatDuration(timeoutMs)}`)
+    this.name = 'PhaseTimeoutError'
+    this.phase = phase
+  }
+}
+
+export function formatDuration(ms: number): string {
+  const totalSeconds = Math.max(0, Math.round(ms / 1000))
+  const minutes = Math.floor(totalSeconds / 60)
+  const seconds = totalSeconds % 60
+  if (minutes === 0) return `${seconds}s`
+  return seconds === 0 ? `${minutes}m` : `${minutes}m ${seconds}s`
+}
+
+/**
+ * Splits a task's maxDuration across its execution phases and enforces per-phase deadlines
+ */
+export class TimeBudget {
+  readonly totalMs: number
+  private readonly startedAt: number
+  private phase: TaskPhase = 'sandbox'
+  private readonly onPhaseChange?: (phase: TaskPhase) => void
+
+  constructor(maxDurationMinutes: number, onPhaseChange?: (phase: TaskPhase) => void) {
+    this.totalMs = maxDurationMinutes * 60 * 1000
+    this.startedAt = Date.now()
+    this.onPhaseChange = onPhaseChange
+  }
+
+  get currentPhase(): TaskPhase {
+    return this.phase
+  }
+
+  elapsedMs(): number {
+    return Date.now() - this.startedAt
+  }
+
+  remainingMs(): number {
+    return Math.max(0, this.totalMs - this.elapsedMs())
+  }
+
+  /**
+   * Time available to a phase if it started now: the remaining budget split
+   * by weight across this phase and every phase after it
+   */
+  allotmentFor(phase: TaskPhase): number {
+    const laterPhases = TASK_PHASES.slice(TASK_PHASES.indexOf(phase))
+    const totalWeight = laterPhases.reduce((sum, p) => sum + PHASE_WEIGHTS[p], 0)
+    return Math.floor((this.remainingMs() * PHASE_WEIGHTS[phase]) / totalWeight)
+  }
+
+  /**
+   * Mark the start of a phase and return its allotment in milliseconds
+   */
+  enterPhase(phase: TaskPhase): number {
+    this.phase = phase
+    this.onPhaseChange?.(phase)
+    return this.allotmentFor(phase)
+  }
+
+  /**
+   * Enter a phase and race the given work against the phase's allotment. The race does not stop the
+   * work, so its signal is aborted when the allotment runs out.
+   */
+  async runPhase<T>(phase: TaskPhase, work: (signal: AbortSignal) => Promise<T>): Promise<T> {
+    const allotmentMs = this.enterPhase(phase)
+    const controller = new AbortController()
+    let timer: ReturnType<typeof setTimeout> | undefined
+
+    const timeoutPromise = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        const error = new PhaseTimeoutError(phase, allotmentMs)
+        controller.abort(error)
+        reject(error)
+      }, allotmentMs)
+    })
+
+    try {
+      return await Promise.race([work(controller.signal), timeoutPromise])
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+
+  /**
+   * Reject once the whole budget is spent, naming the phase that was running
+   */
+  deadline(): { promise: Promise<never>; cancel: () => void } {
+    let timer: ReturnType<typeof setTimeout> | undefined
+    const promise = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new PhaseTimeoutError(this.phase, this.totalMs)), this.remainingMs())
+    })
+    return { promise, cancel: () => clearTimeout(timer) }
+  }
+
+  /**
+   * Schedule warnings at proportional points of the budget. Returns a function that cancels them.
+   */
+  scheduleWarnings(onWarning: (message: string) => void | Promise<void>): () => void {
+    const timers = WARNING_THRESHOLDS.map((threshold) =>
+      setTimeout(
+        () => {
+          const remaining = formatDuration(this.remainingMs())
+          onWarning(
+            `Task has used ${Math.round(threshold * 100)}% of its ${formatDuration(this.totalMs)} budget during ${TASK_PHASE_LABELS[this.phase]}. Will timeout in ${remaining}.`,
+          )
+        },
+        Math.max(0, this.totalMs * threshold - this.elapsedMs()),
+      ),
+    )
+    return () => timers.forEach((timer) => clearTimeout(timer))
+  }
+}
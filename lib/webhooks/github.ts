@@ -0,0 +1,243 @@
+import { createHmac, timingSafeEqual } from 'crypto'
+import { eq, lt } from 'drizzle-orm'
+import { getAccessToken } from '@/lib/auth/access-token'
+import { db } from '@/lib/db/client'
+import { tasks, users, webhookDeliveries, Task } from '@/lib/db/schema'
+import {
+  createIssueComment,
+  getPullRequestBranches,
+  GitHubIssueComment,
+  listIssueComments,
+  parseGitHubRepo,
+  updateIssueComment,
+} from '@/lib/git-providers/github'
+import { createTask, CreateTaskInput, CreateTaskOptions } from '@/lib/tasks/create'
+
+// Label that starts a task when it is added to an issue
+const AGENT_LABEL = 'agent'
+// Comment command that starts a task; anything after it is what the agent is asked to do
+const AGENT_COMMAND = /^\/agent(?:\s+([\s\S]*))?$/
+// Marks the status comments posted for tasks, so they are left out of later prompts
+const STATUS_COMMENT_MARKER = '<!-- coding-agent-task -->'
+// Latest comments included in the prompt, and the length the body and each comment are cut to
+const MAX_PROMPT_COMMENTS = 20
+const MAX_TEXT_LENGTH = 4000
+// GitHub only redelivers events from the past few days, so older delivery IDs are not kept
+const DELIVERY_RETENTION_MS = 7 * 24 * 60 * 60 * 1000
+
+const STATUS_LABELS: Record<Task['status'], string> = {
+  pending: 'Queued',
+  processing: 'Running',
+  completed: 'Completed',
+  error: 'Failed',
+  stopped: 'Stopped',
+}
+
+interface GitHubWebhookPayload {
+  action?: string
+  label?: { name: string }
+  comment?: { body: string | null }
+  issue?: { number: number; title: string; body: string | null; pull_request?: unknown }
+  repository?: { clone_url: string }
+  sender?: { id: number; login: string; type: string }
+}
+
+// An issue or pull request thread that asked for a task
+export interface WebhookTrigger {
+  repoUrl: string
+  issueNumber: number
+  isPullRequest: boolean
+  title: string
+  body: string
+  // What the /agent comment asked for; null when the comment was the bare command or an issue was labeled
+  request: string | null
+  senderId: string
+  senderLogin: string
+}
+
+// Base URL of task links: APP_URL, or the production domain Vercel sets
+export function getAppUrl(): string | null {
+  if (process.env.APP_URL) return process.env.APP_URL.replace(/\/$/, '')
+  if (process.env.VERCEL_PROJECT_PRODUCTION_URL) return `https://${process.env.VERCEL_PROJECT_PRODUCTION_URL}`
+  return null
+}
+
+// Check X-Hub-Signature-256, an HMAC-SHA256 of the raw body keyed with the webhook secret
+export function verifyGitHubSignature(body: string, signature: string | null, secret: string): boolean {
+  if (!signature?.startsWith('sha256=')) return false
+
+  const expected = Buffer.from(`sha256=${createHmac('sha256', secret).update(body).digest('hex')}`)
+  const received = Buffer.from(signature)
+  return expected.length === received.length && timingSafeEqual(expected, received)
+}
+
+/**
+ * Record a delivery by its X-GitHub-Delivery ID. False when it was already recorded, meaning this is a
+ * redelivery of an event that was handled. Deliveries past the retention window are cleared out along the way.
+ */
+export async function recordWebhookDelivery(deliveryId: string): Promise<boolean> {
+  await db
+    .delete(webhookDeliveries)
+    .where(lt(webhookDeliveries.createdAt, new Date(Date.now() - DELIVERY_RETENTION_MS)))
+  const inserted = await db
+    .insert(webhookDeliveries)
+    .values({ id: deliveryId })
+    .onConflictDoNothing()
+    .returning({ id: webhookDeliveries.id })
+  return inserted.length > 0
+}
+
+// Forget a delivery that failed to be handled, so GitHub can redeliver it
+export async function forgetWebhookDelivery(deliveryId: string): Promise<void> {
+  await db.delete(webhookDeliveries).where(eq(webhookDeliveries.id, deliveryId))
+}
+
+// Content types a webhook can be configured with; form deliveries carry the JSON in their `payload` field
+export const WEBHOOK_CONTENT_TYPES = ['application/json', 'application/x-www-form-urlencoded']
+
+// The delivery's payload, or null when the body holds no JSON object
+export function decodeWebhookPayload(body: string, contentType: string): GitHubWebhookPayload | null {
+  const json = contentType === 'application/x-www-form-urlencoded' ? new URLSearchParams(body).get('payload') : body
+  if (!json) return null
+
+  try {
+    const payload = JSON.parse(json)
+    return payload && typeof payload === 'object' ? payload : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Work out whether a webhook event asks for a task: an issue labeled `agent`, or a new comment starting
+ * with /agent on an issue or pull request. Null for every other event, and for events sent by bots.
+ */
+export function parseWebhookTrigger(event: string | null, payload: GitHubWebhookPayload): WebhookTrigger | null {
+  const { issue, repository, sender } = payload
+  if (!issue || !repository || !sender || sender.type === 'Bot') return null
+
+  let request: string | null = null
+  if (event === 'issues' && payload.action === 'labeled') {
+    if (payload.label?.name !== AGENT_LABEL) return null
+  } else if (event === 'issue_comment' && payload.action === 'created') {
+    const match = (payload.comment?.body || '').trim().match(AGENT_COMMAND)
+    if (!match) return null
+    request = match[1]?.trim() || null
+  } else {
+    return null
+  }
+
+  return {
+    repoUrl: repository.clone_url,
+    issueNumber: issue.number,
+    // Pull requests are issues with a pull_request field
+    isPullRequest: !!issue.pull_request,
+    title: issue.title,
+    body: issue.body || '',
+    request,
+    senderId: String(sender.id),
+    senderLogin: sender.login,
+  }
+}
+
+const truncate = (text: string) => (text.length > MAX_TEXT_LENGTH ? `${text.slice(0, MAX_TEXT_LENGTH)}...` : text)
+
+// The agent's prompt: the thread's title, description and latest comments, then what was asked for
+export function buildIssuePrompt(trigger: WebhookTrigger, comments: GitHubIssueComment[]): string {
+  const kind = trigger.isPullRequest ? 'pull request' : 'issue'
+  const lines = [
+    `GitHub ${kind} #${trigger.issueNumber}: ${trigger.title}`,
+    '',
+    truncate(trigger.body.trim()) || '(No description)',
+  ]
+
+  const thread = comments
+    .map((comment) => ({ author: comment.user?.login || 'ghost', body: (comment.body || '').trim() }))
+    .filter(({ body }) => body && !body.includes(STATUS_COMMENT_MARKER) && !AGENT_COMMAND.test(body))
+    .slice(-MAX_PROMPT_COMMENTS)
+  if (thread.length > 0) {
+    lines.push('', 'Comments:', ...thread.map(({ author, body }) => `@${author}: ${truncate(body)}`))
+  }
+
+  lines.push('', trigger.request ? `Request from @${trigger.senderLogin}: ${trigger.request}` : `Resolve this ${kind}.`)
+  return lines.join('\n')
+}
+
+// Body of the comment that reports a task's status, edited in place as the task moves on
+export function buildStatusComment(task: Task, appUrl: string | null): string {
+  const name = appUrl ? `[Agent task](${appUrl}/tasks/${task.id})` : `Agent task \`${task.id}\``
+  const lines = [STATUS_COMMENT_MARKER, `${name}: **${STATUS_LABELS[task.status]}**`]
+
+  if (task.prUrl && task.prNumber !== task.issueNumber) {
+    lines.push('', `Pull request: ${task.prUrl}`)
+  } else if (task.status === 'completed' && task.branchName) {
+    lines.push('', `Changes pushed to \`${task.branchName}\``)
+  }
+  if (task.status === 'error' && task.error) {
+    lines.push('', `Error: ${task.error}`)
+  }
+  return lines.join('\n')
+}
+
+/**
+ * Create a task for the thread on behalf of the user who asked, and comment on the thread with a
+ * link to it. The user must have signed in to this app with GitHub; their token reads the thread,
+ * runs the task and posts the comment. Comments on a pull request work on its head branch.
+ */
+export async function startTaskFromTrigger(
+  trigger: WebhookTrigger,
+  appUrl: string | null,
+): Promise<{ success: boolean; taskId?: string; error?: string }> {
+  const repo = parseGitHubRepo(trigger.repoUrl)
+  if (!repo) return { success: false, error: 'Not a github.com repository' }
+
+  const [user] = await db.select().from(users).where(eq(users.githubId, trigger.senderId)).limit(1)
+  const token = user ? getAccessToken(user) : ''
+  if (!user || !token) return { success: false, error: `@${trigger.senderLogin} has not signed in to this app` }
+
+  const input: Partial<CreateTaskInput> = { repoUrl: trigger.repoUrl }
+  const options: CreateTaskOptions = { issueNumber: trigger.issueNumber }
+  if (trigger.isPullRequest) {
+    const branches = await getPullRequestBranches(repo, trigger.issueNumber, token)
+    if (!branches) return { success: false, error: `Could not load pull request #${trigger.issueNumber}` }
+
+    if (branches.fromFork) {
+      const message = 'Pull requests from forks are not supported: the agent cannot push to their branch.'
+      await createIssueComment(repo, trigger.issueNumber, `${STATUS_COMMENT_MARKER}\n${message}`, token)
+      return { success: false, error: message }
+    }
+
+    // The task pushes to the pull request rather than opening a new one
+    input.baseBranch = branches.base
+    options.existingBranchName = branches.head
+    options.pullRequest = branches.pullRequest
+  }
+
+  const comments = await listIssueComments(repo, trigger.issueNumber, token)
+  const task = await createTask(user.id, { ...input, prompt: buildIssuePrompt(trigger, comments) }, options)
+
+  const comment = await createIssueComment(repo, trigger.issueNumber, buildStatusComment(task, appUrl), token)
+  if (comment.success) {
+    await db.update(tasks).set({ issueCommentId: comment.commentId }).where(eq(tasks.id, task.id))
+  } else {
+    console.error('Error posting GitHub status comment:', comment.error)
+  }
+
+  return { success: true, taskId: task.id }
+}
+
+// Refresh the status comment of a task started from GitHub, if any, after the task's status changed
+export async function syncIssueCommentForTask(taskId: string): Promise<void> {
+  const [task] = await db.select().from(tasks).where(eq(tasks.id, taskId)).limit(1)
+  if (!task?.issueCommentId || !task.repoUrl || !task.userId) return
+
+  const repo = parseGitHubRepo(task.repoUrl)
+  const [owner] = await db.select().from(users).where(eq(users.id, task.userId)).limit(1)
+  const token = owner ? getAccessToken(owner) : ''
+  if (!repo || !token) return
+
+  const result = await updateIssueComment(repo, task.issueCommentId, buildStatusComment(task, getAppUrl()), token)
+  if (!result.success) {
+    console.error('Error updating GitHub status comment:', result.error)
+  }
+}